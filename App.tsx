@@ -1,10 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { Upload, Settings, Zap, FileAudio, Terminal, Activity, ShieldCheck, FolderOpen, Copy, Mic, Speaker, Radio, Music, Home, BarChart3, ScanLine, AlertTriangle, CheckCircle2, Info, Sparkles, Brain } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, Settings, Zap, FileAudio, Terminal, Activity, ShieldCheck, FolderOpen, Copy, Mic, Speaker, Radio, Music, Home, BarChart3, ScanLine, AlertTriangle, CheckCircle2, Info, Sparkles, Brain, BookOpen, ClipboardCheck, XCircle, Download, Headphones, Cpu, GripVertical, Layers, SlidersHorizontal, Plus, Trash2, ListChecks, Save, CopyPlus, Pencil, Upload as UploadIcon, Tag, History, GitCompare, RotateCcw, Wand2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GoogleGenAI } from "@google/genai";
 import { CyberButton, GlitchText, ArtifactOverlay, RangeSlider } from './components/CyberComponents';
-import { AudioConfig, DEFAULT_CONFIG, RANGES, AppMode, PRESETS, AudioAnalysis } from './types';
-import { generateFFmpegCommand, getFrequencyImpact, getClarityImpact, getDeesserImpact, getNoiseImpact, getCompressionImpact, getLoudnessImpact } from './utils';
+import { PreviewPlayer } from './components/PreviewPlayer';
+import { EqCurve } from './components/EqCurve';
+import { SourceViewer } from './components/SourceViewer';
+import { AudioConfig, DEFAULT_CONFIG, DEFAULT_STAGE_ORDER, StageId, EqBand, EqBandType, EQ_RANGES, MAX_EQ_BANDS, RANGES, AppMode, PRESETS, BatchItem, BatchOverrideKey, BATCH_OVERRIDE_KEYS, AudioAnalysis, Chapter, ScriptMode, ScriptOptions, ScriptTarget, PreviewStartMode, OutputFormat, OUTPUT_FORMATS, BITRATE_MODES, CHANNEL_LAYOUTS, SAMPLE_RATES, BIT_DEPTHS } from './types';
+import { generateFFmpegCommand, formatTimestamp, parseTimestamp, PREVIEW_SEEK_SECONDS, getPreviewDuration, getExcerptSeconds, VERIFY_TOLERANCES, getFrequencyImpact, getClarityImpact, getDeesserImpact, getNoiseImpact, getCompressionImpact, getLoudnessImpact } from './utils';
+import { analyzeFile, findChapterOutliers, decodeSegment, decodeExcerpts, DecodedSegment } from './analysis';
+import { resolvePreviewStarts, PREVIEW_START_MODES } from './sections';
+import { getPathProblem, SCRIPT_TARGETS, toScriptFile } from './shell';
+import { OUTPUT_FORMAT_SPECS, describeFormat, getOutputFormats } from './formats';
+import { renderPreview } from './preview';
+import { bandGain } from './eq';
+import { buildFilterGraph, getChainWarnings, STAGE_LABELS } from './filtergraph';
+import { createFFmpegEngine, canRunInBrowser, FFmpegEngine } from './engine';
+import { readChapters } from './mp4';
+import { UserPreset, createUserPreset, duplicateUserPreset, exportPresetLibrary, importPresetLibrary, loadUserPresets, mergePresets, parseTags, saveUserPresets } from './presets';
+import { ProjectFile, ProjectState, ScriptHistoryEntry, MAX_SCRIPT_HISTORY, PROJECT_FILE_EXTENSION, clearAutosave, isProjectFile, loadProject, readAutosave, readProject, saveProject, writeAutosave } from './project';
+import { AutoTuneKey, AutoTuneResult, suggestConfig } from './autotune';
+import { AiRecommendation, RecommendationKey, DEFAULT_INSTRUCTIONS, requestRecommendation } from './advisor';
+import { ViewerStatus, WaveformViewer, canUseViewer, createWaveformViewer } from './waveform';
+import { GAP_RANGE, ISSUE_LABELS, TranscriptIssue, TranscriptIssueType, TranscriptSegment, TranscriptionSettings, createWhisperClient, findTranscriptIssues, issuesToAudacityLabels, issuesToCsv, loadTranscriptionSettings, saveTranscriptionSettings, transcribeFile } from './transcript';
+import { AI_PROVIDERS, AiProviderId, AiSettings, SAMPLE_RANGE, SampleWindow, createModelClient, loadAiSettings, prepareAudioSample, saveAiSettings, sendsAudioOffMachine, withProvider } from './ai';
+import { collapseUnchanged, diffConfigs, diffLines } from './diff';
+import { generateBatchScript, getBatchOutputPath, isAudioPath, joinPath, parseFolderListing, resolveItemConfig } from './batch';
+import { COMPLIANCE_PROFILES, ComplianceFile, runCompliance, complianceReportToJson, complianceReportToHtml } from './compliance';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>('upload');
@@ -16,44 +37,264 @@ const App: React.FC = () => {
   const [terminalLog, setTerminalLog] = useState<string[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
   const [isAiAnalyzing, setIsAiAnalyzing] = useState(false);
   const [aiInsight, setAiInsight] = useState<string | null>(null);
+  const [aiRecommendation, setAiRecommendation] = useState<AiRecommendation | null>(null);
+  const [aiAccepted, setAiAccepted] = useState<RecommendationKey[]>([]);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcribedSeconds, setTranscribedSeconds] = useState(0);
+  const [issueFilter, setIssueFilter] = useState<TranscriptIssueType | 'all'>('all');
+  const [selectedIssue, setSelectedIssue] = useState<number | null>(null);
+  const issueAudioRef = useRef<AudioContext | null>(null);
+  const [previewSeek, setPreviewSeek] = useState(PREVIEW_SEEK_SECONDS);
+  const [previewMode, setPreviewMode] = useState<PreviewStartMode>('manual');
+  const [seekText, setSeekText] = useState(formatTimestamp(PREVIEW_SEEK_SECONDS));
+  const viewerRef = useRef<WaveformViewer | null>(null);
+  const [viewerStatus, setViewerStatus] = useState<ViewerStatus | null>(null);
   const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [perChapterLoudness, setPerChapterLoudness] = useState(false);
+  const [splitCredits, setSplitCredits] = useState(true);
+  const [verifyOutput, setVerifyOutput] = useState(false);
+  const [complianceProfileId, setComplianceProfileId] = useState(COMPLIANCE_PROFILES[0].id);
+  const [previewClip, setPreviewClip] = useState<DecodedSegment | null>(null);
+  const [previewProcessed, setPreviewProcessed] = useState<AudioBuffer | null>(null);
+  const [isRenderingPreview, setIsRenderingPreview] = useState(false);
+  const [engineProgress, setEngineProgress] = useState<number | null>(null); // null while idle
+  const engineRef = useRef<FFmpegEngine | null>(null);
+  const [dragStage, setDragStage] = useState<StageId | null>(null);
+  const [selectedBand, setSelectedBand] = useState<number | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchListing, setBatchListing] = useState('');
+  const [isBatchAnalyzing, setIsBatchAnalyzing] = useState(false);
+  const [expandedBatchItem, setExpandedBatchItem] = useState<string | null>(null);
+  const [studioReturnMode, setStudioReturnMode] = useState<AppMode>('dashboard');
+  const [userPresets, setUserPresets] = useState<UserPreset[]>(loadUserPresets);
+  const [presetName, setPresetName] = useState('');
+  const [presetTags, setPresetTags] = useState('');
+  const [presetTagFilter, setPresetTagFilter] = useState<string | null>(null);
+  const [renamingPreset, setRenamingPreset] = useState<{ id: string; name: string } | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportPath, setExportPath] = useState('~/Desktop/');
   
   // New State for Studio Mode
-  const [studioScriptMode, setStudioScriptMode] = useState<'test-45s' | 'test-10s' | 'full'>('test-45s');
+  const [studioScriptMode, setStudioScriptMode] = useState<ScriptMode>('test-45s');
+  const [scriptTarget, setScriptTarget] = useState<ScriptTarget>('bash');
   const [fileVersion, setFileVersion] = useState<number>(1);
+  const [lastGeneratedMode, setLastGeneratedMode] = useState<ScriptMode>('test-45s');
+  const [scriptHistory, setScriptHistory] = useState<ScriptHistoryEntry[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<ProjectFile | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false); // Held until a pending restore is decided
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<{ a: number | null; b: number | null }>({ a: null, b: null }); // History indexes
+  const [compareView, setCompareView] = useState<'params' | 'script'>('params');
+  const [autoTune, setAutoTune] = useState<AutoTuneResult | null>(null);
+  const [autoTuneAccepted, setAutoTuneAccepted] = useState<AutoTuneKey[]>([]);
 
   const addLog = (msg: string) => {
     setTerminalLog(prev => [...prev.slice(-6), `> ${msg}`]);
   };
 
+  const linkSourceFile = (file: File) => {
+    setSourceFile(file);
+    const fileName = file.name;
+
+    // Re-linking the file of a restored project keeps its paths and analysis
+    if (fileName === inputPath.split(/[/\\]/).pop()) {
+      setPreviewClip(null);
+      setPreviewProcessed(null);
+      addLog(`SOURCE RE-LINKED: ${fileName}`);
+      return;
+    }
+
+    let cleanBase = baseDir.trim();
+    const hasBackslash = cleanBase.includes('\\');
+    const separator = hasBackslash ? '\\' : '/';
+    
+    if (cleanBase.endsWith('/') || cleanBase.endsWith('\\')) {
+        cleanBase = cleanBase.slice(0, -1);
+    }
+    
+    const fullPath = `${cleanBase}${separator}${fileName}`;
+    setInputPath(fullPath);
+    setExportPath(`${cleanBase}${separator}`);
+    
+    // Reset analysis when new file is loaded
+    setAnalysis(null);
+    setAutoTune(null);
+    setAiInsight(null);
+    setAiRecommendation(null);
+    setTranscript([]);
+    setSelectedIssue(null);
+    setViewerStatus(null);
+    setPreviewSeek(PREVIEW_SEEK_SECONDS);
+    setChapters([]);
+    setPreviewClip(null);
+    setPreviewProcessed(null);
+
+    addLog(`File detected: ${fileName}`);
+    addLog(`Path auto-constructed: ${fullPath}`);
+
+    readChapters(file)
+      .then(found => {
+        setChapters(found);
+        if (found.length > 0) addLog(`CHAPTER MAP: ${found.length} MARKERS`);
+      })
+      .catch(err => console.error(err));
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setSourceFile(file);
-      const fileName = file.name;
-      let cleanBase = baseDir.trim();
-      const hasBackslash = cleanBase.includes('\\');
-      const separator = hasBackslash ? '\\' : '/';
-      
-      if (cleanBase.endsWith('/') || cleanBase.endsWith('\\')) {
-          cleanBase = cleanBase.slice(0, -1);
-      }
-      
-      const fullPath = `${cleanBase}${separator}${fileName}`;
-      setInputPath(fullPath);
-      setExportPath(`${cleanBase}${separator}`);
-      
-      // Reset analysis when new file is loaded
-      setAnalysis(null);
-      setAiInsight(null);
+    if (e.target.files && e.target.files[0]) linkSourceFile(e.target.files[0]);
+  };
+
+  // --- PROJECT FILES & AUTOSAVE ---
+
+  const getProjectState = (): ProjectState => ({
+    mode,
+    baseDir,
+    inputPath,
+    exportPath,
+    config,
+    analysis,
+    aiInsight,
+    chapters,
+    fileVersion,
+    perChapterLoudness,
+    splitCredits,
+    verifyOutput,
+    complianceProfileId,
+    studioScriptMode,
+    scriptTarget,
+    batchItems: batchItems.map(({ file, status, ...item }) => item),
+    scriptHistory,
+    transcript,
+    previewSeek,
+    previewMode,
+  });
+
+  // Local files don't survive a reload: batch entries come back path-only until re-added
+  const applyProjectState = (state: ProjectState) => {
+    setMode(state.mode);
+    setBaseDir(state.baseDir);
+    setInputPath(state.inputPath);
+    setExportPath(state.exportPath);
+    setConfig(state.config);
+    setAnalysis(state.analysis);
+    setAutoTune(null);
+    setAiInsight(state.aiInsight);
+    setAiRecommendation(null);
+    setChapters(state.chapters);
+    setFileVersion(state.fileVersion);
+    setPerChapterLoudness(state.perChapterLoudness);
+    setSplitCredits(state.splitCredits);
+    setVerifyOutput(state.verifyOutput);
+    setComplianceProfileId(COMPLIANCE_PROFILES.some(p => p.id === state.complianceProfileId) ? state.complianceProfileId : COMPLIANCE_PROFILES[0].id);
+    setStudioScriptMode(state.studioScriptMode);
+    setScriptTarget(state.scriptTarget);
+    setBatchItems(state.batchItems.map(item => ({ ...item, file: null, status: item.analysis ? 'analyzed' : 'pending' })));
+    setScriptHistory(state.scriptHistory);
+    setTranscript(state.transcript);
+    setSelectedIssue(null);
+    setPreviewSeek(state.previewSeek);
+    setPreviewMode(state.previewMode);
+    setViewerStatus(null);
+    setSourceFile(null);
+    setPreviewClip(null);
+    setPreviewProcessed(null);
+    setSelectedBand(null);
+  };
 
-      addLog(`File detected: ${fileName}`);
-      addLog(`Path auto-constructed: ${fullPath}`);
+  const openProject = async (file: File) => {
+    const { state, warnings, error } = loadProject(await file.text());
+    if (!state) {
+      addLog(`PROJECT ERROR: ${error}`);
+      return;
     }
+    applyProjectState(state);
+    setPendingRestore(null);
+    setAutosaveReady(true);
+    addLog(`PROJECT LOADED: ${file.name}`);
+    warnings.forEach(w => addLog(`RESET INVALID FIELD: ${w}`));
+    if (state.inputPath) addLog('RE-LINK THE SOURCE FILE TO PREVIEW OR RUN IN BROWSER');
+  };
+
+  const downloadProject = () => {
+    const baseName = inputPath ? getBaseName(inputPath) : 'audio_forge';
+    downloadFile(saveProject(getProjectState()), `${baseName}${PROJECT_FILE_EXTENSION}`, 'application/json');
+    addLog('PROJECT SAVED');
+  };
+
+  const restoreAutosave = () => {
+    if (!pendingRestore) return;
+    const { state, warnings } = readProject(pendingRestore);
+    if (state) {
+      applyProjectState(state);
+      addLog('SESSION RESTORED');
+      warnings.forEach(w => addLog(`RESET INVALID FIELD: ${w}`));
+    }
+    setPendingRestore(null);
+    setAutosaveReady(true);
+  };
+
+  const discardAutosave = () => {
+    setPendingRestore(null);
+    setAutosaveReady(true);
+    clearAutosave().catch(err => console.error(err));
+  };
+
+  // Offer the last session on startup instead of overwriting it
+  useEffect(() => {
+    readAutosave()
+      .then(saved => {
+        if (saved && (saved.state?.inputPath || saved.state?.batchItems?.length)) setPendingRestore(saved);
+        else setAutosaveReady(true);
+      })
+      .catch(err => {
+        console.error(err);
+        setAutosaveReady(true);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+      writeAutosave(getProjectState()).catch(err => console.error(err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [autosaveReady, mode, baseDir, inputPath, exportPath, config, analysis, aiInsight, chapters, fileVersion, perChapterLoudness, splitCredits, verifyOutput, complianceProfileId, studioScriptMode, scriptTarget, batchItems, scriptHistory, transcript, previewSeek, previewMode]);
+
+  // Projects open from anywhere on the upload screen; audio files link as the source
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingOver(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (isProjectFile(file)) openProject(file);
+    else linkSourceFile(file);
+  };
+
+  // --- VERSION HISTORY ---
+
+  const recordScript = (scriptMode: ScriptHistoryEntry['mode'], script: string, settings: AudioConfig = config) => {
+    const entry: ScriptHistoryEntry = { version: fileVersion, mode: scriptMode, createdAt: new Date().toISOString(), script, config: settings, note: '' };
+    setScriptHistory(prev => [...prev, entry].slice(-MAX_SCRIPT_HISTORY));
+    setCompareSelection({ a: null, b: null });
+  };
+
+  const updateVersionNote = (index: number, note: string) =>
+    setScriptHistory(prev => prev.map((entry, i) => i === index ? { ...entry, note } : entry));
+
+  const restoreVersion = (entry: ScriptHistoryEntry) => {
+    if (!entry.config) return;
+    setConfig(entry.config);
+    setSelectedBand(null);
+    if (entry.mode !== 'batch') setStudioScriptMode(entry.mode);
+    addLog(`RESTORED SETTINGS FROM v${entry.version}`);
   };
 
   const runClientAnalysis = async () => {
@@ -66,121 +307,70 @@ const App: React.FC = () => {
     addLog("INITIALIZING AUDIO CONTEXT SCAN...");
     
     try {
-      const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new AudioCtor();
-      
-      // 1. Resume context if suspended (Browser Autoplay Policy)
-      if (ctx.state === 'suspended') {
-        await ctx.resume();
-      }
-      
-      // 2. Determine Read Strategy
-      // Try reading a larger chunk (50MB) to catch headers in larger files
-      // If file is < 50MB, read the whole thing to ensure validity.
-      // NOTE: If M4B moov atom is at the end, partial scan might still fail.
-      const CHUNK_SIZE = 50 * 1024 * 1024; 
-      const fileSize = sourceFile.size;
-      const bufferToDecode = await (fileSize < CHUNK_SIZE ? sourceFile.arrayBuffer() : sourceFile.slice(0, CHUNK_SIZE).arrayBuffer());
-      
-      addLog(`DECODING ${Math.round(bufferToDecode.byteLength/1024/1024)}MB DATA...`);
-      
-      // 3. Decode
-      const audioBuffer = await ctx.decodeAudioData(bufferToDecode);
-      
-      // 4. Analyze
-      const rawData = audioBuffer.getChannelData(0);
-      let sumSquares = 0;
-      let peak = 0;
-      const windowSize = 4096;
-      const rmsWindows: number[] = [];
-      
-      for (let i = 0; i < rawData.length; i += windowSize) {
-          let windowSum = 0;
-          let count = 0;
-          for (let j = 0; j < windowSize && i + j < rawData.length; j++) {
-            const val = rawData[i + j];
-            const abs = Math.abs(val);
-            if (abs > peak) peak = abs;
-            windowSum += val * val;
-            sumSquares += val * val;
-            count++;
-          }
-          if (count > 0) rmsWindows.push(Math.sqrt(windowSum / count));
-      }
-      
-      const rms = Math.sqrt(sumSquares / rawData.length);
-      const dbRMS = 20 * Math.log10(rms || 0.00000001); 
-      const dbPeak = 20 * Math.log10(peak || 0.00000001);
-      
-      rmsWindows.sort((a, b) => a - b);
-      const noiseRms = rmsWindows[Math.floor(rmsWindows.length * 0.1)] || 0.0000001;
-      const dbNoise = 20 * Math.log10(noiseRms);
-
-      setAnalysis({
-        estLufs: parseFloat(dbRMS.toFixed(1)),
-        peak: parseFloat(dbPeak.toFixed(1)),
-        noiseFloor: parseFloat(dbNoise.toFixed(1)),
-        duration: audioBuffer.duration,
-        sampleRate: audioBuffer.sampleRate,
-        isEst: fileSize > CHUNK_SIZE
-      });
-      
+      // Streams the whole file in bounded memory: M4B/MP4 via the sample table
+      // (moov may sit anywhere), MP3 via byte slices, other formats decoded whole.
+      addLog(`STREAMING ${Math.round(sourceFile.size/1024/1024)}MB SOURCE...`);
+      let lastLogged = 0;
+      // The waveform viewer is fed from the same decode pass
+      if (!viewerRef.current && canUseViewer()) viewerRef.current = createWaveformViewer(setViewerStatus);
+      const viewer = viewerRef.current;
+      let viewerStarted = false;
+      const result = await analyzeFile(sourceFile, (fraction) => {
+        setAnalysisProgress(fraction);
+        const pct = Math.floor(fraction * 100);
+        if (pct >= lastLogged + 25) {
+          lastLogged = pct - (pct % 25);
+          addLog(`SCAN ${lastLogged}%`);
+        }
+      }, chapters, viewer ? (channels, sampleRate) => {
+        if (!viewerStarted) {
+          viewer.reset(sampleRate);
+          viewerStarted = true;
+        }
+        viewer.push(channels);
+      } : undefined);
+
+      setAnalysis(result);
+      if (result.isEst) addLog("NOTE: FORMAT NOT STREAMABLE, METRICS FROM FIRST 50MB");
       addLog("ANALYSIS SUCCESSFUL");
 
     } catch (e: any) {
       console.error(e);
       addLog(`SCAN ERROR: ${e.message || "Invalid Format/Codec"}`);
-      addLog("TIP: If scanning M4B, 'moov' atom might be missing from start.");
     } finally {
       setIsAnalyzing(false);
+      setAnalysisProgress(0);
     }
   };
 
+  useEffect(() => () => viewerRef.current?.dispose(), []);
+
   const runAiAnalysis = async () => {
     if (!sourceFile) return;
     setIsAiAnalyzing(true);
-    addLog("ESTABLISHING NEURAL LINK WITH GEMINI...");
+    const client = createModelClient(aiSettings);
+    addLog(`ESTABLISHING NEURAL LINK WITH ${client.name.toUpperCase()}...`);
 
     try {
-      // 1. Prepare Audio Sample (First 5MB)
-      const MAX_SIZE = 5 * 1024 * 1024;
-      const blob = sourceFile.slice(0, MAX_SIZE);
-      const arrayBuffer = await blob.arrayBuffer();
-      const base64Audio = btoa(
-        new Uint8Array(arrayBuffer).reduce((data, byte) => data + String.fromCharCode(byte), '')
-      );
-
-      // 2. Initialize Gemini
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // 3. Generate Content
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              {
-                inlineData: {
-                  mimeType: sourceFile.type || 'audio/mp4',
-                  data: base64Audio
-                }
-              },
-              {
-                text: "You are an expert audio engineer specializing in audiobooks. Listen to this sample and analyze the audio quality. Focus on: 1. Noise Floor (hiss, hum). 2. Sibilance (harsh 's' sounds). 3. Dynamic Range. 4. Overall EQ Balance. Provide a concise, technical report with bullet points and specific recommendations for FFmpeg filters (e.g., 'Increase highpass to 100Hz', 'Apply light compression'). Keep it under 150 words."
-              }
-            ]
-          }
-        ]
-      });
+      // 1. Cut the configured window as a small WAV
+      if (aiSettings.sampleWindow === 'middle' && !analysis) addLog('NO DURATION YET: SAMPLING FROM START');
+      const { sample, start } = await prepareAudioSample(sourceFile, aiSettings, analysis?.duration ?? null);
+      addLog(`AI SAMPLE: ${aiSettings.sampleSeconds}s @ ${formatTimestamp(start)}`);
+
+      // 2. Ask for setting changes in the recommendation schema
+      const result = await requestRecommendation(client, sample, config, analysis, aiSettings.instructions);
 
-      setAiInsight(response.text);
-      addLog("NEURAL ANALYSIS COMPLETE.");
+      setAiInsight(result.summary || 'No summary returned.');
+      setAiRecommendation(result);
+      setAiAccepted(result.suggestions.map(s => s.key));
+      result.rejected.forEach(reason => addLog(`AI SUGGESTION REJECTED: ${reason}`));
+      addLog(`NEURAL ANALYSIS COMPLETE: ${result.suggestions.length} SUGGESTION(S)`);
 
     } catch (e: any) {
       console.error(e);
       addLog(`AI ERROR: ${e.message}`);
       setAiInsight("Neural link failed. Unable to process audio sample.");
+      setAiRecommendation(null);
     } finally {
       setIsAiAnalyzing(false);
     }
@@ -190,23 +380,260 @@ const App: React.FC = () => {
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  const toggleStage = (id: StageId) => {
+    setConfig(prev => ({
+      ...prev,
+      bypassedStages: prev.bypassedStages.includes(id)
+        ? prev.bypassedStages.filter(s => s !== id)
+        : [...prev.bypassedStages, id],
+    }));
+  };
+
+  const setEqBands = (bands: EqBand[]) => setConfig(prev => ({ ...prev, eqBands: bands }));
+
+  const updateOutput = (changes: Partial<AudioConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const toggleExtraFormat = (format: OutputFormat) => setConfig(prev => ({
+    ...prev,
+    extraFormats: prev.extraFormats.includes(format)
+      ? prev.extraFormats.filter(f => f !== format)
+      : [...prev.extraFormats, format],
+  }));
+
+  const updateBand = (index: number, changes: Partial<EqBand>) =>
+    setEqBands(config.eqBands.map((b, i) => i === index ? { ...b, ...changes } : b));
+
+  const removeBand = (index: number) => {
+    setEqBands(config.eqBands.filter((_, i) => i !== index));
+    setSelectedBand(null);
+  };
+
+  // Drops `id` into `target`'s slot; the stages in between shift by one
+  const moveStageTo = (id: StageId, target: StageId) => {
+    if (id === target) return;
+    setConfig(prev => {
+      const order = prev.stageOrder.filter(s => s !== id);
+      order.splice(prev.stageOrder.indexOf(target), 0, id);
+      return { ...prev, stageOrder: order };
+    });
+  };
+
   const applyPreset = (presetId: string) => {
-    const preset = PRESETS.find(p => p.id === presetId);
+    const preset = [...PRESETS, ...userPresets].find(p => p.id === presetId);
     if (preset) {
-      setConfig(prev => ({ ...prev, ...preset.config }));
+      // EQ belongs to the preset: one without bands resets to flat
+      setConfig(prev => ({ ...prev, eqBands: [], ...preset.config }));
+      setSelectedBand(null);
       addLog(`PRESET APPLIED: ${preset.name.toUpperCase()}`);
     }
   };
 
-  const simulateProcessing = (type: '45s' | '10s' | 'full', cb: () => void) => {
+  // --- AUTO TUNE ---
+
+  const runAutoTune = () => {
+    if (!analysis) return;
+    const result = suggestConfig(analysis, config);
+    setAutoTune(result);
+    setAutoTuneAccepted(result.suggestions.map(s => s.key));
+    addLog(`AUTO TUNE: ${result.suggestions.length} SUGGESTION(S)`);
+  };
+
+  const toggleAutoTuneKey = (key: AutoTuneKey) =>
+    setAutoTuneAccepted(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  const applyAutoTune = () => {
+    if (!autoTune) return;
+    const accepted = autoTune.suggestions.filter(s => autoTuneAccepted.includes(s.key));
+    setConfig(prev => accepted.reduce((next, s) => ({ ...next, [s.key]: s.value }), prev));
+    addLog(`AUTO TUNE APPLIED: ${accepted.map(s => s.label.toUpperCase()).join(', ') || 'NOTHING'}`);
+    setAutoTune(null);
+  };
+
+  useEffect(() => {
+    saveAiSettings(aiSettings);
+  }, [aiSettings]);
+
+  const updateAiSettings = (changes: Partial<AiSettings>) => setAiSettings(prev => ({ ...prev, ...changes }));
+
+  const toggleAiKey = (key: RecommendationKey) =>
+    setAiAccepted(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+
+  const applyAiRecommendation = () => {
+    if (!aiRecommendation) return;
+    const accepted = aiRecommendation.suggestions.filter(s => aiAccepted.includes(s.key));
+    setConfig(prev => accepted.reduce((next, s) => ({ ...next, [s.key]: s.value }), prev));
+    addLog(`AI SUGGESTIONS APPLIED: ${accepted.map(s => s.label.toUpperCase()).join(', ') || 'NOTHING'}`);
+    setAiRecommendation(null);
+  };
+
+  // --- TRANSCRIPT QC ---
+
+  useEffect(() => {
+    saveTranscriptionSettings(transcriptionSettings);
+  }, [transcriptionSettings]);
+
+  const transcriptIssues = findTranscriptIssues(transcript, transcriptionSettings.gapSeconds);
+  const visibleIssues = transcriptIssues.filter(issue => issueFilter === 'all' || issue.type === issueFilter);
+
+  const runTranscription = async () => {
+    if (!sourceFile) return;
+    const client = createWhisperClient(transcriptionSettings);
+    setIsTranscribing(true);
+    setTranscribedSeconds(0);
+    setSelectedIssue(null);
+    addLog(`TRANSCRIBING VIA ${client.name.toUpperCase()}...`);
+    try {
+      const segments = await transcribeFile(sourceFile, client, analysis?.duration ?? null, setTranscribedSeconds);
+      setTranscript(segments);
+      addLog(`TRANSCRIPT: ${segments.length} SEGMENTS, ${findTranscriptIssues(segments, transcriptionSettings.gapSeconds).length} FLAGS`);
+    } catch (e: any) {
+      console.error(e);
+      addLog(`TRANSCRIPTION ERROR: ${e.message}`);
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  // Plays the flagged stretch of the original with a second either side
+  const playIssue = async (issue: TranscriptIssue) => {
+    if (!sourceFile) {
+      addLog('ERROR: LINK A LOCAL FILE TO LISTEN');
+      return;
+    }
+    try {
+      const from = Math.max(0, issue.start - 1);
+      const { buffer } = await decodeSegment(sourceFile, from, issue.end + 1 - from);
+      issueAudioRef.current?.close();
+      const ctx = new AudioContext();
+      issueAudioRef.current = ctx;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start();
+    } catch (err) {
+      console.error(err);
+      addLog('ERROR: DECODE FAILED');
+    }
+  };
+
+  const stepIssue = (delta: number) => {
+    if (visibleIssues.length === 0) return;
+    setSelectedIssue(prev => prev === null ? 0 : Math.min(visibleIssues.length - 1, Math.max(0, prev + delta)));
+  };
+
+  const downloadIssues = (format: 'labels' | 'csv') => {
+    const baseName = inputPath ? getBaseName(inputPath) : 'audio_forge';
+    if (format === 'labels') downloadFile(issuesToAudacityLabels(visibleIssues), `${baseName}-qc-labels.txt`, 'text/plain');
+    else downloadFile(issuesToCsv(visibleIssues), `${baseName}-qc.csv`, 'text/csv');
+    addLog(`QC ${format === 'labels' ? 'LABEL TRACK' : 'CSV'} EXPORTED (${visibleIssues.length} FLAGS)`);
+  };
+
+  // --- USER PRESETS ---
+
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  const saveCurrentAsPreset = () => {
+    if (!presetName.trim()) return;
+    setUserPresets(prev => [...prev, createUserPreset(presetName, config, parseTags(presetTags))]);
+    addLog(`PRESET SAVED: ${presetName.trim().toUpperCase()}`);
+    setPresetName('');
+    setPresetTags('');
+  };
+
+  const renamePreset = () => {
+    if (!renamingPreset) return;
+    const name = renamingPreset.name.trim();
+    if (name) {
+      setUserPresets(prev => prev.map(p => p.id === renamingPreset.id ? { ...p, name, updatedAt: new Date().toISOString() } : p));
+    }
+    setRenamingPreset(null);
+  };
+
+  const deletePreset = (preset: UserPreset) => {
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+    setUserPresets(prev => prev.filter(p => p.id !== preset.id));
+    addLog(`PRESET DELETED: ${preset.name.toUpperCase()}`);
+  };
+
+  const exportPresets = () => {
+    downloadFile(exportPresetLibrary(userPresets), 'audio_forge_presets.json', 'application/json');
+    addLog(`EXPORTED ${userPresets.length} PRESET(S)`);
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { presets, errors } = importPresetLibrary(await file.text());
+    errors.forEach(err => console.warn(`Preset import: ${err}`));
+    if (presets.length > 0) {
+      setUserPresets(prev => mergePresets(prev, presets));
+      addLog(`IMPORTED ${presets.length} PRESET(S)`);
+    }
+    if (errors.length > 0) {
+      addLog(`REJECTED: ${errors[0]}${errors.length > 1 ? ` (+${errors.length - 1} MORE)` : ''}`);
+    }
+  };
+
+  // Auto modes fall back to the manual start until the scan has mapped the book
+  const getPreviewStarts = (clipMode: ScriptMode) =>
+    resolvePreviewStarts(previewMode, previewSeek, analysis, getPreviewDuration(clipMode));
+
+  // Decodes the same window the test-clip scripts cut; the render effect below picks it up
+  const loadPreview = async (clipMode: ScriptMode) => {
+    if (!sourceFile) {
+      addLog('ERROR: LINK A LOCAL FILE TO PREVIEW');
+      return;
+    }
+    const duration = getPreviewDuration(clipMode);
+    const starts = getPreviewStarts(clipMode);
     setIsProcessing(true);
-    addLog(`INITIATING ${type.toUpperCase()} PROTOCOL...`);
-    const duration = type === '10s' ? 1000 : 2500;
-    setTimeout(() => {
+    addLog(`DECODING ${duration}s PREVIEW @ ${starts.map(formatTimestamp).join(' + ')}...`);
+    try {
+      const clip = starts.length > 1
+        ? await decodeExcerpts(sourceFile, starts, getExcerptSeconds(clipMode, starts.length))
+        : await decodeSegment(sourceFile, starts[0], duration);
+      setPreviewProcessed(null);
+      setPreviewClip(clip);
+      if (Math.round(clip.start) !== starts[0]) {
+        addLog(`SOURCE SHORT: PREVIEW STARTS @ ${formatTimestamp(clip.start)}`);
+      }
+    } catch (err) {
+      console.error(err);
+      addLog('ERROR: PREVIEW DECODE FAILED');
+    } finally {
       setIsProcessing(false);
-      addLog('COMPLETED. SCRIPT GENERATED.');
-      cb();
-    }, duration);
+    }
+  };
+
+  // Re-render the processed side whenever settings change (debounced while dragging sliders)
+  useEffect(() => {
+    if (!previewClip) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsRenderingPreview(true);
+      try {
+        const rendered = await renderPreview(previewClip.buffer, config);
+        if (!cancelled) setPreviewProcessed(rendered);
+      } catch (err) {
+        console.error(err);
+        addLog('ERROR: PREVIEW RENDER FAILED');
+      } finally {
+        if (!cancelled) setIsRenderingPreview(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewClip, config]);
+
+  const runQuickTest = () => {
+    generateAndShow('test-45s');
+    addLog('TEST CLIP SCRIPT GENERATED.');
+    loadPreview('test-45s');
   };
 
   const getBaseName = (path: string) => {
@@ -214,7 +641,7 @@ const App: React.FC = () => {
     return fileNameWithExt.replace(/\.[^/.]+$/, "");
   };
 
-  const getDynamicOutputPath = (modeType: 'test-45s' | 'full' | 'test-10s') => {
+  const getDynamicOutputPath = (modeType: ScriptMode) => {
     let cleanExportPath = exportPath;
     if (!cleanExportPath.endsWith('/') && !cleanExportPath.endsWith('\\')) {
          const hasBackslash = cleanExportPath.includes('\\');
@@ -222,35 +649,228 @@ const App: React.FC = () => {
     }
     const baseName = getBaseName(inputPath);
     
+    const extension = OUTPUT_FORMAT_SPECS[config.outputFormat].extension;
     let suffix = '';
-    if (modeType === 'test-45s') suffix = `_v${fileVersion}-preview-45s.m4b`;
-    else if (modeType === 'test-10s') suffix = `_v${fileVersion}-preview-10s.m4b`;
-    else suffix = `_v${fileVersion}-processed.m4b`;
+    if (modeType === 'test-45s') suffix = `_v${fileVersion}-preview-45s.${extension}`;
+    else if (modeType === 'test-10s') suffix = `_v${fileVersion}-preview-10s.${extension}`;
+    else if (modeType === 'split-chapters') suffix = `_v${fileVersion}`; // Prefix for the numbered per-chapter files
+    else suffix = `_v${fileVersion}-processed.${extension}`; // Extra formats go next to it
     
     return `${cleanExportPath}${baseName}${suffix}`;
   };
 
+  const verifyTitle = `Re-measure the finished files: loudness within ±${VERIFY_TOLERANCES.loudness} LU of the target, true peak at most ${VERIFY_TOLERANCES.truePeak} dB over the ceiling, noise floor under ${VERIFY_TOLERANCES.noiseFloor} dB, chapters and length matching the source`;
+
+  const getScriptOptions = (scriptMode: ScriptMode): ScriptOptions => ({
+    perChapterLoudness,
+    splitCredits,
+    verify: verifyOutput,
+    target: scriptTarget,
+    previewStarts: scriptMode === 'test-10s' || scriptMode === 'test-45s' ? getPreviewStarts(scriptMode) : undefined,
+  });
+
   useEffect(() => {
     if (mode === 'studio') {
       const outPath = getDynamicOutputPath(studioScriptMode);
-      const cmd = generateFFmpegCommand(config, inputPath, studioScriptMode, outPath);
+      const cmd = generateFFmpegCommand(config, inputPath, studioScriptMode, outPath, getScriptOptions(studioScriptMode));
       setGeneratedScript(cmd);
     }
-  }, [config, inputPath, exportPath, mode, studioScriptMode, fileVersion]);
+  }, [config, inputPath, exportPath, mode, studioScriptMode, fileVersion, perChapterLoudness, splitCredits, verifyOutput, previewSeek, previewMode, analysis, scriptTarget]);
 
-  const generateAndShow = (type: 'test-45s' | 'test-10s' | 'full') => {
+  const generateAndShow = (type: ScriptMode) => {
     const outPath = getDynamicOutputPath(type);
-    const cmd = generateFFmpegCommand(config, inputPath, type, outPath);
+    const cmd = generateFFmpegCommand(config, inputPath, type, outPath, getScriptOptions(type));
     setGeneratedScript(cmd);
+    setLastGeneratedMode(type);
     if(type === 'full') setShowExportModal(true);
   };
 
-  const handleCopyScript = (text: string) => {
+  // Paths a script would embed but can't carry safely; scripts aren't handed out until fixed
+  const getScriptPathProblem = (paths: string[]): string | null => {
+    const bad = paths.find(path => getPathProblem(path));
+    return bad === undefined ? null : `${JSON.stringify(bad)} ${getPathProblem(bad)}`;
+  };
+
+  const handleCopyScript = (text: string, scriptMode: ScriptMode) => {
+    const problem = getScriptPathProblem([inputPath, exportPath]);
+    if (problem) {
+      addLog(`ERROR: PATH ${problem.toUpperCase()}`);
+      return;
+    }
     navigator.clipboard.writeText(text);
+    recordScript(scriptMode, text);
     addLog(`CMD COPIED (v${fileVersion})`);
     setFileVersion(v => v + 1);
   };
 
+  const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Runs the generated chain through ffmpeg.wasm and downloads the result
+  const runInBrowser = async (runMode: ScriptMode) => {
+    if (!sourceFile) {
+      addLog('ERROR: LINK A LOCAL FILE TO RUN IN BROWSER');
+      return;
+    }
+    if (!engineRef.current) engineRef.current = createFFmpegEngine();
+    const outPath = getDynamicOutputPath(runMode);
+    const outName = outPath.split(/[/\\]/).pop() || 'processed.m4b';
+    const runConfig = config;
+    setEngineProgress(0);
+    setIsProcessing(true);
+    try {
+      const result = await engineRef.current.run(sourceFile, config, runMode, { onLog: addLog, onProgress: setEngineProgress }, getPreviewStarts(runMode));
+      downloadFile(result.data, outName, result.mimeType);
+      addLog(`COMPLETE: ${outName} (${(result.data.length / 1024 / 1024).toFixed(1)}MB)`);
+      // Logged as the equivalent script so browser runs show up in the version history
+      recordScript(runMode, generateFFmpegCommand(runConfig, inputPath, runMode, outPath, getScriptOptions(runMode)), runConfig);
+      setFileVersion(v => v + 1);
+    } catch (err) {
+      console.error(err);
+      addLog(`ERROR: ${err instanceof Error ? err.message : 'BROWSER RUN FAILED'}`);
+    } finally {
+      setEngineProgress(null);
+      setIsProcessing(false);
+    }
+  };
+
+  const cancelBrowserRun = () => {
+    engineRef.current?.cancel();
+    addLog('BROWSER RUN CANCELLED');
+  };
+
+  // --- BATCH QUEUE ---
+
+  const addBatchItems = (entries: { path: string; file: File | null }[]) => {
+    entries.filter(entry => getPathProblem(entry.path)).forEach(entry => {
+      addLog(`BATCH: SKIPPED ${JSON.stringify(entry.path)} (${getPathProblem(entry.path)!.toUpperCase()})`);
+    });
+    const accepted = entries.filter(entry => !getPathProblem(entry.path));
+    setBatchItems(prev => {
+      const known = new Set(prev.map(item => item.path));
+      // Files for path-only entries (listings, restored projects) link to the existing row
+      const linked = prev.map(item => {
+        const match = !item.file && accepted.find(entry => entry.file && entry.path === item.path);
+        return match ? { ...item, file: match.file } : item;
+      });
+      const added = accepted
+        .filter(entry => !known.has(entry.path))
+        .map((entry, i): BatchItem => ({
+          id: `${Date.now()}-${prev.length + i}`,
+          path: entry.path,
+          file: entry.file,
+          overrides: {},
+          status: 'pending',
+          analysis: null,
+        }));
+      if (added.length > 0) addLog(`BATCH: QUEUED ${added.length} FILE(S)`);
+      return [...linked, ...added];
+    });
+  };
+
+  // Multi-select and folder picks; folder entries keep their relative path
+  const handleBatchUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).filter(f => isAudioPath(f.name));
+    files.sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true }));
+    addBatchItems(files.map(file => ({ path: joinPath(baseDir.trim(), file.webkitRelativePath || file.name), file })));
+    e.target.value = '';
+  };
+
+  const addBatchListing = () => {
+    const paths = parseFolderListing(batchListing, baseDir.trim());
+    if (paths.length === 0) {
+      addLog('BATCH: NO AUDIO PATHS IN LISTING');
+      return;
+    }
+    addBatchItems(paths.map(path => ({ path, file: null })));
+    setBatchListing('');
+  };
+
+  const updateBatchItem = (id: string, changes: Partial<BatchItem>) =>
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+
+  // `undefined` drops the override so the file follows the shared config again
+  const setBatchOverride = (id: string, key: BatchOverrideKey, value: number | undefined) =>
+    setBatchItems(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const overrides = { ...item.overrides };
+      if (value === undefined) delete overrides[key];
+      else overrides[key] = value;
+      return { ...item, overrides };
+    }));
+
+  // One file at a time: each scan streams its whole source
+  const analyzeBatch = async () => {
+    const queue = batchItems.filter(item => item.file && item.status !== 'analyzed');
+    if (queue.length === 0) return;
+    setIsBatchAnalyzing(true);
+    for (const [i, item] of queue.entries()) {
+      addLog(`BATCH SCAN ${i + 1}/${queue.length}: ${item.file!.name}`);
+      updateBatchItem(item.id, { status: 'analyzing', error: undefined });
+      try {
+        const result = await analyzeFile(item.file!);
+        updateBatchItem(item.id, { status: 'analyzed', analysis: result });
+      } catch (e: any) {
+        console.error(e);
+        updateBatchItem(item.id, { status: 'error', error: e.message || 'Invalid Format/Codec' });
+        addLog(`SCAN ERROR: ${item.file!.name}`);
+      }
+    }
+    setIsBatchAnalyzing(false);
+    addLog('BATCH ANALYSIS COMPLETE');
+  };
+
+  const getBatchScript = () => generateBatchScript(
+    batchItems.map(item => ({
+      name: item.path.split(/[/\\]/).pop() || item.path,
+      inputPath: item.path,
+      outputPath: getBatchOutputPath(exportPath, item.path, fileVersion, config.outputFormat),
+      config: resolveItemConfig(config, item),
+    })),
+    exportPath,
+    { perChapterLoudness, verify: verifyOutput }
+  );
+
+  const downloadBatchScript = () => {
+    const problem = getScriptPathProblem([exportPath, ...batchItems.map(item => item.path)]);
+    if (problem) {
+      addLog(`ERROR: PATH ${problem.toUpperCase()}`);
+      return;
+    }
+    const script = getBatchScript();
+    downloadFile(script, `batch_master_v${fileVersion}.sh`, 'text/x-shellscript');
+    recordScript('batch', script);
+    addLog(`BATCH SCRIPT DOWNLOADED (${batchItems.length} FILES)`);
+    setFileVersion(v => v + 1);
+  };
+
+  // Chapters are checked as the files a split export would deliver; otherwise the whole source
+  const getComplianceFiles = (): ComplianceFile[] => {
+    if (!analysis) return [];
+    const baseName = getBaseName(inputPath);
+    if (analysis.chapters && analysis.chapters.length > 0) {
+      return analysis.chapters.map((c, idx) => ({ name: `${baseName} #${idx + 1}: ${c.chapter.title}`, analysis: c.analysis }));
+    }
+    const bitrate = sourceFile && analysis.duration > 0 ? Math.round(sourceFile.size * 8 / analysis.duration / 1000) : undefined;
+    return [{ name: baseName, analysis, bitrate }];
+  };
+
+  const exportComplianceReport = (format: 'json' | 'html') => {
+    const profile = COMPLIANCE_PROFILES.find(p => p.id === complianceProfileId) || COMPLIANCE_PROFILES[0];
+    const report = runCompliance(profile, getComplianceFiles());
+    const fileName = `${getBaseName(inputPath)}_${profile.id}_report.${format}`;
+    if (format === 'json') downloadFile(complianceReportToJson(report), fileName, 'application/json');
+    else downloadFile(complianceReportToHtml(report), fileName, 'text/html');
+    addLog(`COMPLIANCE REPORT EXPORTED (${format.toUpperCase()})`);
+  };
+
   // --- COMPONENT HELPERS ---
   const getDiagnosticIssues = () => {
     const issues: { type: 'warn' | 'info' | 'good', msg: string }[] = [];
@@ -266,15 +886,24 @@ const App: React.FC = () => {
     }
 
     // Headroom / Peak Check
-    if (analysis.peak > -0.5) {
-      issues.push({ type: 'warn', msg: `Input is clipping (${analysis.peak}dB). Limiter will engage heavily.` });
-    } else if (analysis.peak < -12) {
-      issues.push({ type: 'info', msg: `Low input level (${analysis.peak}dB). Compression will add significant gain.` });
+    if (analysis.truePeak > -0.5) {
+      issues.push({ type: 'warn', msg: `Input is clipping (${analysis.truePeak}dBTP). Limiter will engage heavily.` });
+    } else if (analysis.truePeak < -12) {
+      issues.push({ type: 'info', msg: `Low input level (${analysis.truePeak}dBTP). Compression will add significant gain.` });
+    }
+
+    // Loudness Check
+    const lufsGap = analysis.integratedLufs - config.loudnormTarget;
+    if (Math.abs(lufsGap) > 6) {
+      issues.push({ type: 'info', msg: `Integrated loudness ${analysis.integratedLufs} LUFS is ${Math.abs(lufsGap).toFixed(1)} LU ${lufsGap > 0 ? 'above' : 'below'} target.` });
+    }
+    if (analysis.lra > 15) {
+      issues.push({ type: 'info', msg: `Wide loudness range (${analysis.lra} LU). Consider more compression.` });
     }
 
     // Sample Rate Check
-    if (analysis.sampleRate !== 44100) {
-      issues.push({ type: 'info', msg: `Source is ${analysis.sampleRate/1000}kHz. Output will be 44.1kHz.` });
+    if (analysis.sourceRate !== undefined && analysis.sourceRate !== 44100) {
+      issues.push({ type: 'info', msg: `Source is ${analysis.sourceRate/1000}kHz. Output will be 44.1kHz.` });
     }
 
     return issues;
@@ -282,12 +911,48 @@ const App: React.FC = () => {
 
   // --- RENDERERS ---
 
+  // Bash for macOS/Linux, PowerShell for Windows editors
+  const renderScriptTargetToggle = () => (
+    <div className="flex items-center gap-1">
+      {(Object.keys(SCRIPT_TARGETS) as ScriptTarget[]).map(target => (
+        <button
+          key={target}
+          onClick={() => setScriptTarget(target)}
+          className={`text-[10px] font-bold px-2 py-1 rounded transition-colors ${scriptTarget === target ? 'bg-gray-200 text-black' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          {SCRIPT_TARGETS[target].label.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderPathProblem = (path: string) => {
+    const problem = getPathProblem(path);
+    return problem && <p className="text-[10px] text-rose-400 font-mono mt-1 text-left">Path {problem}; scripts can't use it.</p>;
+  };
+
   const renderUpload = () => (
     <motion.div 
       initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }}
-      className="flex flex-col items-center justify-center h-[60vh]"
+      className="flex flex-col items-center justify-center min-h-[60vh]"
+      onDragOver={(e) => { e.preventDefault(); setIsDraggingOver(true); }}
+      onDragLeave={() => setIsDraggingOver(false)}
+      onDrop={handleDrop}
     >
-      <div className="relative group w-full max-w-xl">
+      {pendingRestore && (
+        <div className="w-full max-w-xl mb-6 border border-yellow-500/50 bg-yellow-900/10 p-4 font-mono text-xs flex items-center gap-4">
+          <History className="text-yellow-400 shrink-0" size={18}/>
+          <div className="flex-1 min-w-0">
+            <div className="text-yellow-400 uppercase">Unsaved session found</div>
+            <div className="text-gray-500 truncate">
+              {pendingRestore.state.inputPath || `${pendingRestore.state.batchItems.length} batch file(s)`} · {new Date(pendingRestore.savedAt).toLocaleString()}
+            </div>
+          </div>
+          <button onClick={restoreAutosave} className="text-black bg-yellow-500 px-3 py-1 uppercase font-bold hover:bg-yellow-400">Restore</button>
+          <button onClick={discardAutosave} className="text-gray-500 hover:text-white uppercase">Discard</button>
+        </div>
+      )}
+      <div className={`relative group w-full max-w-xl ${isDraggingOver ? 'scale-[1.01]' : ''} transition-transform`}>
         <div className="absolute -inset-1 bg-gradient-to-r from-[#00ff41] to-cyan-400 opacity-20 group-hover:opacity-40 blur transition duration-500" />
         <div className="relative bg-black border border-gray-800 p-8 md:p-12 text-center rounded-sm">
           <Upload className="w-16 h-16 mx-auto mb-6 text-[#00ff41] animate-pulse" />
@@ -307,6 +972,7 @@ const App: React.FC = () => {
                 onChange={(e) => { setBaseDir(e.target.value); setExportPath(e.target.value); }}
                 className="w-full bg-gray-900/30 border border-gray-800 p-2 text-xs font-mono text-cyan-400 focus:border-cyan-400 focus:outline-none"
               />
+              {renderPathProblem(baseDir)}
             </div>
 
             <div className="relative group/input text-left">
@@ -318,6 +984,7 @@ const App: React.FC = () => {
                 placeholder={`${baseDir}audiobook.m4b`}
                 className="w-full bg-gray-900/50 border border-gray-700 p-4 text-[#00ff41] font-mono focus:border-[#00ff41] focus:outline-none placeholder-gray-700 text-center relative z-20"
               />
+              {renderPathProblem(inputPath)}
               <div className="mt-3 text-[10px] text-gray-600 font-mono uppercase border border-dashed border-gray-800 p-2 hover:border-gray-600 transition-colors relative cursor-pointer text-center">
                  Drag file here
                  <input type="file" className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-30" accept="audio/*" onChange={handleFileUpload} />
@@ -325,9 +992,16 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          <CyberButton disabled={!inputPath} onClick={() => { addLog(`Target acquired: ${inputPath}`); setMode('dashboard'); }}>
+          <CyberButton disabled={!inputPath || !!getPathProblem(inputPath)} onClick={() => { addLog(`Target acquired: ${inputPath}`); setMode('dashboard'); }}>
             Initialize Stream
           </CyberButton>
+          <button onClick={() => setMode('batch')} className="block mx-auto mt-4 text-xs font-mono text-gray-500 hover:text-cyan-400 hover:underline">
+            [ BATCH MODE: MULTIPLE FILES / SERIES ]
+          </button>
+          <label className="relative block w-fit mx-auto mt-2 text-xs font-mono text-gray-500 hover:text-cyan-400 hover:underline cursor-pointer">
+            [ OPEN PROJECT ({PROJECT_FILE_EXTENSION}) - OR DROP IT HERE ]
+            <input type="file" accept=".json,application/json" className="absolute inset-0 opacity-0 cursor-pointer w-full" onChange={(e) => { const f = e.target.files?.[0]; e.target.value = ''; if (f) openProject(f); }} />
+          </label>
         </div>
       </div>
     </motion.div>
@@ -339,15 +1013,15 @@ const App: React.FC = () => {
         <div className="bg-gray-900/50 border border-gray-800 p-6 hover:border-[#00ff41] transition-colors group">
           <Zap className="w-8 h-8 text-yellow-400 mb-4" />
           <h3 className="text-xl font-bold mb-2">Quick Test (45s)</h3>
-          <p className="text-xs text-gray-500 font-mono mb-6">Generate a 45-second diagnostic clip using standard industry protocols.</p>
-          <CyberButton className="w-full" onClick={() => simulateProcessing('45s', () => generateAndShow('test-45s'))}>Generate Clip</CyberButton>
+          <p className="text-xs text-gray-500 font-mono mb-6">Render a 45-second diagnostic clip in the browser and A/B it against the source.</p>
+          <CyberButton className="w-full" disabled={isProcessing} onClick={runQuickTest}>Generate Clip</CyberButton>
         </div>
 
         <div className="bg-gray-900/50 border border-gray-800 p-6 hover:border-cyan-400 transition-colors relative overflow-hidden">
           <Settings className="w-8 h-8 text-cyan-400 mb-4" />
           <h3 className="text-xl font-bold mb-2">Voice Enhancement Studio</h3>
           <p className="text-xs text-gray-500 font-mono mb-6">Mastering grade filters: Frequency shaping, dynamics, and loudness normalization.</p>
-          <CyberButton variant="secondary" className="w-full" onClick={() => setMode('studio')}>Enter Studio</CyberButton>
+          <CyberButton variant="secondary" className="w-full" onClick={() => { setStudioReturnMode('dashboard'); setMode('studio'); }}>Enter Studio</CyberButton>
         </div>
 
         <div className="bg-gray-900/50 border border-gray-800 p-6 hover:border-rose-500 transition-colors">
@@ -358,13 +1032,15 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {previewClip && renderPreviewPanel()}
+
       {generatedScript && !showExportModal && (
         <div className="mt-8 bg-black border border-gray-700 p-4 relative">
           <div className="flex justify-between items-center mb-2 border-b border-gray-800 pb-2">
              <span className="text-xs text-green-500 font-mono uppercase flex items-center gap-2">
                <Terminal size={14} /> Generated Command
              </span>
-             <button onClick={() => handleCopyScript(generatedScript)} className="text-xs text-gray-400 hover:text-white font-mono hover:underline">[COPY]</button>
+             <button onClick={() => handleCopyScript(generatedScript, lastGeneratedMode)} className="text-xs text-gray-400 hover:text-white font-mono hover:underline">[COPY]</button>
           </div>
           <code className="text-xs font-mono text-gray-300 break-all">{generatedScript}</code>
         </div>
@@ -372,13 +1048,1140 @@ const App: React.FC = () => {
     </motion.div>
   );
 
+  const seekPreview = (seconds: number) => {
+    setPreviewSeek(seconds);
+    setPreviewMode('manual');
+    addLog(`PREVIEW START: ${formatTimestamp(seconds)}`);
+  };
+
+  useEffect(() => {
+    setSeekText(formatTimestamp(previewSeek));
+  }, [previewSeek]);
+
+  const commitSeekText = () => {
+    const seconds = parseTimestamp(seekText);
+    if (seconds === null) {
+      addLog(`ERROR: "${seekText}" IS NOT A TIME (HH:MM:SS OR SECONDS)`);
+      setSeekText(formatTimestamp(previewSeek));
+    } else if (Math.floor(seconds) !== previewSeek) {
+      seekPreview(Math.floor(seconds));
+    }
+  };
+
+  const changePreviewMode = (next: PreviewStartMode) => {
+    setPreviewMode(next);
+    if (next !== 'manual' && analysis?.sections) {
+      addLog(`PREVIEW START: ${PREVIEW_START_MODES[next].toUpperCase()} @ ${resolvePreviewStarts(next, previewSeek, analysis, getPreviewDuration('test-45s')).map(formatTimestamp).join(' + ')}`);
+    }
+  };
+
+  // Drawn from the full scan; the viewer keeps only a summary, so long books stay cheap
+  const renderSourceViewer = () => {
+    if (!canUseViewer() || (!analysis && !viewerStatus)) return null;
+    const viewer = viewerRef.current;
+    return (
+      <div className="mb-6 bg-black/60 border border-gray-800 p-4 rounded">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Activity size={14} /> Waveform & Spectrogram
+          </h3>
+          {!viewerStatus && (
+            <button
+              onClick={runClientAnalysis}
+              disabled={isAnalyzing || !sourceFile}
+              className="text-[10px] bg-gray-800 hover:bg-gray-700 text-[#00ff41] px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-2 disabled:opacity-50"
+            >
+              {isAnalyzing ? <span className="animate-spin">⟳</span> : <ScanLine size={12}/>}
+              {isAnalyzing ? `Scanning ${Math.round(analysisProgress * 100)}%` : 'Scan to Draw'}
+            </button>
+          )}
+        </div>
+        {viewer && viewerStatus ? (
+          <SourceViewer
+            viewer={viewer}
+            status={viewerStatus}
+            duration={analysis?.duration ?? viewerStatus.seconds}
+            overlays={{ highpassFreq: config.highpassFreq, lowpassFreq: config.lowpassFreq, deesserFreq: config.deesserFreq }}
+            silenceDb={analysis ? analysis.noiseFloor + 6 : -50}
+            seek={previewSeek}
+            onSeek={seekPreview}
+          />
+        ) : (
+          <div className="flex items-center justify-center border border-dashed border-gray-800 rounded p-4 text-gray-600 font-mono text-xs">
+            {sourceFile ? '[ RE-SCAN THE SOURCE TO DRAW IT ]' : '[ LINK THE LOCAL FILE TO DRAW IT ]'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderPreviewPanel = () => (
+    <div className="mb-6 bg-black/60 border border-gray-800 p-4 rounded">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+          <Headphones size={14} /> Live Preview <span className="text-gray-600">@ {getPreviewStarts('test-45s').map(formatTimestamp).join(' + ')}</span>
+        </h3>
+        <div className="flex gap-2">
+          {(['test-10s', 'test-45s'] as ScriptMode[]).map(clipMode => (
+            <button
+              key={clipMode}
+              onClick={() => loadPreview(clipMode)}
+              disabled={isProcessing || !sourceFile}
+              className="text-[10px] bg-gray-800 hover:bg-gray-700 text-cyan-400 px-3 py-1 rounded border border-gray-700 uppercase disabled:opacity-50"
+            >
+              {isProcessing ? 'Decoding...' : `Load ${getPreviewDuration(clipMode)}s`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-[10px] font-mono text-gray-500 uppercase">
+        <label className="flex items-center gap-2">
+          Start
+          <select
+            value={previewMode}
+            onChange={(e) => changePreviewMode(e.target.value as PreviewStartMode)}
+            className="bg-black border border-gray-700 text-gray-300 p-1 normal-case"
+          >
+            {(Object.keys(PREVIEW_START_MODES) as PreviewStartMode[]).map(id => (
+              <option key={id} value={id} disabled={id !== 'manual' && !analysis?.sections}>{PREVIEW_START_MODES[id]}</option>
+            ))}
+          </select>
+        </label>
+        {previewMode === 'manual' ? (
+          <input
+            value={seekText}
+            onChange={(e) => setSeekText(e.target.value)}
+            onBlur={commitSeekText}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitSeekText(); }}
+            placeholder="hh:mm:ss"
+            className="w-24 bg-black border border-gray-700 text-gray-300 p-1"
+          />
+        ) : !analysis?.sections && (
+          <span className="text-yellow-600 normal-case">Scan the source to pick sections; using {formatTimestamp(previewSeek)} for now</span>
+        )}
+      </div>
+      {previewClip ? (
+        <PreviewPlayer original={previewClip.buffer} processed={previewProcessed} start={previewClip.start} isRendering={isRenderingPreview} />
+      ) : (
+        <div className="flex items-center justify-center border border-dashed border-gray-800 rounded p-4 text-gray-600 font-mono text-xs">
+          {sourceFile ? '[ LOAD A CLIP TO AUDITION THE CHAIN ]' : '[ PREVIEW UNAVAILABLE - NO LOCAL FILE LINKED ]'}
+        </div>
+      )}
+      <p className="text-[10px] text-gray-600 font-mono mt-2">
+        Web Audio approximation of the export chain. Noise reduction and de-essing are simplified; the script output is authoritative.
+      </p>
+    </div>
+  );
+
+  const renderChapterMap = () => {
+    const chapterStats = analysis?.chapters || [];
+    const outliers = findChapterOutliers(chapterStats);
+
+    return (
+      <div className="mb-6 bg-black/60 border border-gray-800 p-4 rounded">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <BookOpen size={14} /> Chapter Map <span className="text-gray-600">({chapters.length})</span>
+          </h3>
+          <label className="text-[10px] font-mono text-gray-400 flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={perChapterLoudness} onChange={(e) => setPerChapterLoudness(e.target.checked)} className="accent-[#00ff41]" />
+            NORMALIZE PER CHAPTER (FULL EXPORT)
+          </label>
+        </div>
+        {outliers.size > 0 && (
+          <div className="text-[10px] font-mono text-yellow-200 border-l-2 border-yellow-500 bg-yellow-900/10 pl-2 py-1 mb-3 flex items-center gap-2">
+            <AlertTriangle size={12} /> {outliers.size} chapter(s) deviate from the rest of the book. Possible session mismatch.
+          </div>
+        )}
+        <div className="max-h-48 overflow-y-auto custom-scrollbar">
+          <table className="w-full text-[10px] font-mono">
+            <thead className="text-gray-600 uppercase text-left">
+              <tr>
+                <th className="pr-2">#</th><th className="pr-2">Title</th><th className="pr-2">Start</th><th className="pr-2">Length</th>
+                <th className="pr-2 text-right">LUFS</th><th className="pr-2 text-right">TP</th><th className="text-right">Noise</th>
+              </tr>
+            </thead>
+            <tbody>
+              {chapters.map((chapter, idx) => {
+                const stats = chapterStats.find(c => c.chapter.start === chapter.start)?.analysis;
+                const flag = outliers.get(chapterStats.findIndex(c => c.chapter.start === chapter.start));
+                return (
+                  <tr key={idx} title={flag} className={flag ? 'text-yellow-300 bg-yellow-900/10' : 'text-gray-400'}>
+                    <td className="pr-2 text-gray-600">{idx + 1}</td>
+                    <td className="pr-2 truncate max-w-[16rem]">{flag && <AlertTriangle size={10} className="inline mr-1" />}{chapter.title}</td>
+                    <td className="pr-2">{formatTimestamp(chapter.start)}</td>
+                    <td className="pr-2">{formatTimestamp(chapter.end - chapter.start)}</td>
+                    <td className="pr-2 text-right">{stats ? stats.integratedLufs : '--'}</td>
+                    <td className="pr-2 text-right">{stats ? stats.truePeak : '--'}</td>
+                    <td className="text-right">{stats ? stats.noiseFloor : '--'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const renderOutputFormat = () => {
+    const formats = getOutputFormats(config);
+    const specs = formats.map(format => OUTPUT_FORMAT_SPECS[format]);
+    const usesBitrate = formats.some(format => format === 'aac' || format === 'opus' || (format === 'mp3' && config.bitrateMode === 'cbr'));
+    const buttonClass = (active: boolean) =>
+      `text-[10px] font-bold px-3 py-1 rounded transition-colors ${active ? 'bg-purple-500 text-white' : 'text-gray-500 hover:text-gray-300'}`;
+
+    return (
+      <div className="md:col-span-2 bg-gray-900/20 p-6 border border-gray-800 rounded">
+        <h3 className="text-sm font-bold text-purple-400 mb-4 uppercase tracking-widest flex items-center gap-2">
+          <Music size={16}/> Output Format
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-[10px] font-mono text-gray-500 mb-1 uppercase">Primary</label>
+              <div className="flex flex-wrap items-center gap-1 bg-black/50 p-1 rounded border border-gray-800 w-fit">
+                {OUTPUT_FORMATS.map(format => (
+                  <button key={format} onClick={() => updateOutput({ outputFormat: format, extraFormats: config.extraFormats.filter(f => f !== format) })} className={buttonClass(config.outputFormat === format)}>
+                    {OUTPUT_FORMAT_SPECS[format].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-mono text-gray-500 mb-1 uppercase">Also Export (Full Export)</label>
+              <div className="flex flex-wrap gap-3">
+                {OUTPUT_FORMATS.filter(format => format !== config.outputFormat).map(format => (
+                  <label key={format} className="text-[10px] font-mono text-gray-400 flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={config.extraFormats.includes(format)} onChange={() => toggleExtraFormat(format)} className="accent-purple-500" />
+                    {OUTPUT_FORMAT_SPECS[format].label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="text-[10px] font-mono text-gray-500 space-y-1 border-l-2 border-purple-500/30 pl-2">
+              {formats.map(format => <div key={format}><span className="text-purple-300">.{OUTPUT_FORMAT_SPECS[format].extension}</span> {describeFormat(format, config)}</div>)}
+              <div className="text-gray-600">Split (ACX) always delivers 192k CBR MP3s; browser runs render the primary format only.</div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {usesBitrate && <RangeSlider label="Bitrate (kbps)" {...RANGES.bitrate} value={config.bitrate} onChange={(v) => updateConfig('bitrate', v)} />}
+            {specs.some(spec => spec.vbr) && (
+              <div className="flex items-center gap-3 text-[10px] font-mono text-gray-500 uppercase">
+                MP3 / Opus
+                <div className="flex items-center gap-1 bg-black/50 p-1 rounded border border-gray-800">
+                  {BITRATE_MODES.map(bitrateMode => (
+                    <button key={bitrateMode} onClick={() => updateOutput({ bitrateMode })} className={buttonClass(config.bitrateMode === bitrateMode)}>
+                      {bitrateMode.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {formats.includes('mp3') && config.bitrateMode === 'vbr' && (
+              <RangeSlider label="MP3 VBR Quality (V, 0 = best)" {...RANGES.vbrQuality} value={config.vbrQuality} onChange={(v) => updateConfig('vbrQuality', v)} />
+            )}
+            <div className="flex flex-wrap gap-4 text-[10px] font-mono text-gray-500 uppercase">
+              <label className="flex items-center gap-2">
+                Sample Rate
+                <select value={config.sampleRate} onChange={(e) => updateConfig('sampleRate', Number(e.target.value))} className="bg-black border border-gray-700 text-gray-300 p-1">
+                  {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+                </select>
+              </label>
+              {specs.some(spec => spec.lossless) && (
+                <label className="flex items-center gap-2">
+                  Bit Depth
+                  <select value={config.bitDepth} onChange={(e) => updateConfig('bitDepth', Number(e.target.value))} className="bg-black border border-gray-700 text-gray-300 p-1">
+                    {BIT_DEPTHS.map(depth => <option key={depth} value={depth}>{depth}-bit</option>)}
+                  </select>
+                </label>
+              )}
+              <div className="flex items-center gap-1 bg-black/50 p-1 rounded border border-gray-800">
+                {CHANNEL_LAYOUTS.map(channels => (
+                  <button key={channels} onClick={() => updateOutput({ channels })} className={buttonClass(config.channels === channels)}>
+                    {channels.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {formats.includes('opus') && config.sampleRate !== OUTPUT_FORMAT_SPECS.opus.sampleRate && (
+              <p className="text-[10px] text-gray-500 font-mono pl-2">Opus always encodes at 48 kHz</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderEqualizer = () => {
+    const band = selectedBand !== null ? config.eqBands[selectedBand] : undefined;
+    const types: { id: EqBandType; label: string }[] = [
+      { id: 'peaking', label: 'Peak' },
+      { id: 'lowshelf', label: 'Low Shelf' },
+      { id: 'highshelf', label: 'High Shelf' },
+      { id: 'notch', label: 'Notch' },
+    ];
+
+    return (
+      <div className="md:col-span-2 bg-gray-900/20 p-6 border border-gray-800 rounded">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-sm font-bold text-yellow-500 uppercase tracking-widest flex items-center gap-2">
+            <SlidersHorizontal size={16}/> Parametric EQ
+          </h3>
+          <button
+            onClick={() => { setEqBands([...config.eqBands, { type: 'peaking', freq: 1000, gain: 0, q: 1 }]); setSelectedBand(config.eqBands.length); }}
+            disabled={config.eqBands.length >= MAX_EQ_BANDS}
+            className="text-[10px] bg-gray-800 hover:bg-gray-700 text-yellow-400 px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-1 disabled:opacity-50"
+          >
+            <Plus size={12}/> Band ({config.eqBands.length}/{MAX_EQ_BANDS})
+          </button>
+        </div>
+
+        <EqCurve
+          bands={config.eqBands}
+          selected={selectedBand}
+          highpassFreq={config.highpassFreq}
+          lowpassFreq={config.lowpassFreq}
+          onChange={setEqBands}
+          onSelect={setSelectedBand}
+        />
+        <p className="text-[10px] text-gray-600 font-mono mt-1">Drag handles to move a band. Double-click the curve to add one. Shaded edges are the rumble/clarity filters.</p>
+
+        {band && selectedBand !== null && (
+          <div className="mt-4 pt-4 border-t border-gray-800 grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <div>
+              <div className="font-mono text-xs text-green-400 mb-1">Band {selectedBand + 1}</div>
+              <div className="grid grid-cols-2 gap-1">
+                {types.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => updateBand(selectedBand, { type: t.id })}
+                    className={`text-[10px] font-mono uppercase px-2 py-1 border ${band.type === t.id ? 'bg-yellow-500 text-black border-yellow-500' : 'text-gray-400 border-gray-700 hover:border-yellow-500'}`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="font-mono text-xs text-green-400 mb-1">{EQ_RANGES.freq.label}</div>
+              <input
+                type="number"
+                min={EQ_RANGES.freq.min}
+                max={EQ_RANGES.freq.max}
+                step={EQ_RANGES.freq.step}
+                value={band.freq}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value);
+                  if (Number.isFinite(v)) updateBand(selectedBand, { freq: Math.min(EQ_RANGES.freq.max, Math.max(EQ_RANGES.freq.min, v)) });
+                }}
+                className="w-full bg-black border border-gray-700 p-1 text-xs font-mono text-white focus:border-[#00ff41] outline-none"
+              />
+            </div>
+            <div>
+              {band.type === 'notch' ? (
+                <p className="text-[10px] text-gray-500 font-mono pt-5">Notch cuts a fixed {-bandGain(band)} dB</p>
+              ) : (
+                <RangeSlider {...EQ_RANGES.gain} value={band.gain} onChange={(v) => updateBand(selectedBand, { gain: v })} />
+              )}
+            </div>
+            <div className="flex gap-2 items-start">
+              <div className="flex-1">
+                <RangeSlider {...EQ_RANGES.q} value={band.q} onChange={(v) => updateBand(selectedBand, { q: v })} />
+              </div>
+              <button onClick={() => removeBand(selectedBand)} title="Remove band" className="mt-5 text-gray-500 hover:text-rose-500">
+                <Trash2 size={14}/>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderAutoTune = () => autoTune && (
+    <div className="mb-6 bg-yellow-900/5 border border-yellow-500/30 p-4 rounded">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-yellow-400 uppercase tracking-widest flex items-center gap-2">
+          <Wand2 size={14} /> Auto Tune Suggestions
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={applyAutoTune}
+            disabled={autoTuneAccepted.length === 0}
+            className="text-[10px] bg-yellow-500 text-black font-bold px-3 py-1 uppercase disabled:opacity-40"
+          >
+            Apply Selected ({autoTuneAccepted.length})
+          </button>
+          <button onClick={() => setAutoTune(null)} className="text-[10px] text-gray-500 hover:text-white px-2 uppercase">Dismiss</button>
+        </div>
+      </div>
+      {autoTune.suggestions.length === 0 && (
+        <p className="text-[10px] text-green-500 font-mono mb-2">Current settings already match the measurements.</p>
+      )}
+      <div className="space-y-1">
+        {autoTune.suggestions.map(s => (
+          <label key={s.key} className="flex items-start gap-3 text-xs font-mono p-2 border border-gray-800 bg-black/40 cursor-pointer hover:border-yellow-500/50">
+            <input type="checkbox" checked={autoTuneAccepted.includes(s.key)} onChange={() => toggleAutoTuneKey(s.key)} className="accent-yellow-500 mt-0.5" />
+            <span className="w-40 shrink-0 text-gray-300">{s.label}</span>
+            <span className="w-28 shrink-0"><span className="text-gray-500">{s.current}</span> → <span className="text-yellow-400">{s.value}</span></span>
+            <span className="text-[10px] text-gray-500">{s.reason}</span>
+          </label>
+        ))}
+      </div>
+      {autoTune.notes.length > 0 && (
+        <div className="mt-2 text-[10px] text-gray-600 font-mono space-y-0.5">
+          {autoTune.notes.map((note, i) => <div key={i}>· {note}</div>)}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderAiSettings = () => (
+    <div className="mb-6 bg-purple-900/5 border border-purple-500/30 p-4 rounded">
+      <h3 className="text-xs font-bold text-purple-400 uppercase tracking-widest flex items-center gap-2 mb-3">
+        <Brain size={14} /> AI Provider
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3 text-[10px] font-mono">
+        <label className="flex flex-col gap-1 text-gray-500 uppercase">
+          Provider
+          <select
+            value={aiSettings.provider}
+            onChange={(e) => setAiSettings(withProvider(aiSettings, e.target.value as AiProviderId))}
+            className="bg-black border border-gray-700 text-gray-300 p-1 normal-case"
+          >
+            {(Object.keys(AI_PROVIDERS) as AiProviderId[]).map(id => <option key={id} value={id}>{AI_PROVIDERS[id].label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-500 uppercase">
+          Model
+          <input value={aiSettings.model} onChange={(e) => updateAiSettings({ model: e.target.value })} className="bg-black border border-gray-700 text-gray-300 p-1 normal-case" />
+        </label>
+        {aiSettings.provider === 'openai-compatible' && (
+          <label className="flex flex-col gap-1 text-gray-500 uppercase">
+            Endpoint
+            <input value={aiSettings.endpoint} onChange={(e) => updateAiSettings({ endpoint: e.target.value })} placeholder={AI_PROVIDERS['openai-compatible'].endpoint} className="bg-black border border-gray-700 text-gray-300 p-1 normal-case" />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-gray-500 uppercase">
+          API Key
+          <input
+            type="password"
+            value={aiSettings.apiKey}
+            onChange={(e) => updateAiSettings({ apiKey: e.target.value })}
+            placeholder={aiSettings.provider === 'gemini' ? 'Build key' : 'None'}
+            className="bg-black border border-gray-700 text-gray-300 p-1 normal-case"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-500 uppercase">
+          Sample Window
+          <select
+            value={aiSettings.sampleWindow}
+            onChange={(e) => updateAiSettings({ sampleWindow: e.target.value as SampleWindow })}
+            className="bg-black border border-gray-700 text-gray-300 p-1 normal-case"
+          >
+            <option value="start">Start of book</option>
+            <option value="middle">Middle of book</option>
+            <option value="custom">Custom start</option>
+          </select>
+        </label>
+        {aiSettings.sampleWindow === 'custom' && (
+          <label className="flex flex-col gap-1 text-gray-500 uppercase">
+            Start (s)
+            <input
+              type="number"
+              min={0}
+              value={aiSettings.sampleStart}
+              onChange={(e) => updateAiSettings({ sampleStart: Math.max(0, Number(e.target.value) || 0) })}
+              className="bg-black border border-gray-700 text-gray-300 p-1"
+            />
+          </label>
+        )}
+        <div className="md:col-span-2">
+          <RangeSlider label="Sample Length (s)" {...SAMPLE_RANGE} value={aiSettings.sampleSeconds} onChange={(v) => updateAiSettings({ sampleSeconds: v })} />
+        </div>
+        <label className="md:col-span-2 flex flex-col gap-1 text-gray-500 uppercase">
+          Instructions
+          <textarea
+            value={aiSettings.instructions}
+            onChange={(e) => updateAiSettings({ instructions: e.target.value })}
+            placeholder={DEFAULT_INSTRUCTIONS}
+            rows={3}
+            className="bg-black border border-gray-700 text-gray-300 p-1 normal-case"
+          />
+        </label>
+      </div>
+      <p className={`mt-3 text-[10px] font-mono flex items-center gap-2 ${sendsAudioOffMachine(aiSettings) ? 'text-yellow-500' : 'text-green-500'}`}>
+        {sendsAudioOffMachine(aiSettings)
+          ? <><AlertTriangle size={12} /> The audio sample leaves this machine.</>
+          : <><ShieldCheck size={12} /> Local endpoint: audio stays on this machine.</>}
+      </p>
+    </div>
+  );
+
+  // Suggested changes as current -> proposed, applied only when ticked
+  const renderAiSuggestions = () => aiRecommendation && (
+    <div className="mt-3 pt-3 border-t border-purple-500/20">
+      {aiRecommendation.suggestions.length === 0 ? (
+        <p className="text-[10px] text-green-500 font-mono">No setting changes recommended.</p>
+      ) : (
+        <div className="space-y-1">
+          {aiRecommendation.suggestions.map(s => (
+            <label key={s.key} className="flex items-start gap-2 text-[10px] font-mono p-1.5 border border-gray-800 bg-black/40 cursor-pointer hover:border-purple-500/50">
+              <input type="checkbox" checked={aiAccepted.includes(s.key)} onChange={() => toggleAiKey(s.key)} className="accent-purple-500 mt-0.5" />
+              <span className="flex-1">
+                <span className="text-gray-300">{s.label}</span>{' '}
+                <span className="text-gray-500">{s.current}</span> → <span className="text-purple-300">{s.value}</span>
+                {s.reason && <span className="block text-gray-500">{s.reason}</span>}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+      {aiRecommendation.rejected.length > 0 && (
+        <div className="mt-2 text-[10px] text-red-400/80 font-mono space-y-0.5">
+          {aiRecommendation.rejected.map((reason, i) => <div key={i}>✕ {reason}</div>)}
+        </div>
+      )}
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={applyAiRecommendation}
+          disabled={aiAccepted.length === 0 || aiRecommendation.suggestions.length === 0}
+          className="text-[10px] bg-purple-500 text-black font-bold px-3 py-1 uppercase disabled:opacity-40"
+        >
+          Apply Suggestions ({aiRecommendation.suggestions.filter(s => aiAccepted.includes(s.key)).length})
+        </button>
+        <button onClick={() => setAiRecommendation(null)} className="text-[10px] text-gray-500 hover:text-white px-2 uppercase">Dismiss</button>
+      </div>
+    </div>
+  );
+
+  const renderVersionHistory = () => {
+    const last = scriptHistory.length - 1;
+    const a = compareSelection.a ?? (last >= 1 ? last - 1 : null);
+    const b = compareSelection.b ?? (last >= 1 ? last : null);
+    const from = a !== null ? scriptHistory[a] : undefined;
+    const to = b !== null ? scriptHistory[b] : undefined;
+    const modeLabel = (m: ScriptHistoryEntry['mode']) => m === 'split-chapters' ? 'SPLIT' : m.toUpperCase();
+    const pick = (side: 'a' | 'b', index: number, checked: boolean) => (
+      <input
+        type="radio"
+        checked={checked}
+        onChange={() => setCompareSelection({ a, b, [side]: index })}
+        title={side === 'a' ? 'Compare from' : 'Compare to'}
+        className={side === 'a' ? 'accent-rose-500' : 'accent-[#00ff41]'}
+      />
+    );
+
+    return (
+      <div className="md:col-span-2 bg-gray-900/20 p-6 border border-gray-800 rounded">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2 mb-4">
+          <History size={16}/> Version History
+        </h3>
+
+        {scriptHistory.length === 0 ? (
+          <p className="text-[10px] text-gray-600 font-mono italic">Copied, downloaded and browser-run versions are recorded here.</p>
+        ) : (
+          <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 mb-4">
+            <div className="flex items-center gap-3 text-[9px] font-mono text-gray-600 uppercase px-2">
+              <span className="w-4 text-rose-500">A</span><span className="w-4 text-[#00ff41]">B</span>
+            </div>
+            {scriptHistory.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+              <div key={`${entry.version}-${entry.createdAt}`} className="flex items-center gap-3 text-xs font-mono px-2 py-1 border border-gray-800 bg-black/40">
+                <span className="w-4">{pick('a', i, a === i)}</span>
+                <span className="w-4">{pick('b', i, b === i)}</span>
+                <span className="text-white w-10">v{entry.version}</span>
+                <span className="text-cyan-400 w-16 text-[10px]">{modeLabel(entry.mode)}</span>
+                <span className="text-gray-600 text-[10px] w-32 hidden md:block">{new Date(entry.createdAt).toLocaleString()}</span>
+                <input
+                  value={entry.note}
+                  onChange={(e) => updateVersionNote(i, e.target.value)}
+                  placeholder="Add note..."
+                  className="flex-1 min-w-0 bg-transparent border-b border-transparent focus:border-gray-600 text-[10px] text-yellow-200 outline-none placeholder-gray-700"
+                />
+                <button
+                  onClick={() => restoreVersion(entry)}
+                  disabled={!entry.config}
+                  title={entry.config ? 'Restore these settings' : 'Settings were not recorded for this version'}
+                  className="text-gray-500 hover:text-[#00ff41] disabled:opacity-30"
+                >
+                  <RotateCcw size={12}/>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {from && to && (
+          <div className="border-t border-gray-800 pt-4">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-[10px] font-mono text-gray-400 flex items-center gap-2">
+                <GitCompare size={12}/> <span className="text-rose-400">v{from.version}</span> → <span className="text-[#00ff41]">v{to.version}</span>
+              </span>
+              <div className="flex">
+                {(['params', 'script'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setCompareView(view)}
+                    className={`px-3 py-1 text-[10px] font-mono uppercase border ${compareView === view ? 'bg-gray-700 text-white border-gray-600' : 'text-gray-500 border-gray-800 hover:border-gray-600'}`}
+                  >
+                    {view === 'params' ? 'Parameters' : 'Script'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {compareView === 'params' ? (
+              !from.config || !to.config ? (
+                <p className="text-[10px] text-gray-600 font-mono italic">Settings were not recorded for one of these versions; compare the scripts instead.</p>
+              ) : (() => {
+                const changes = diffConfigs(from.config, to.config);
+                const modeChanged = from.mode !== to.mode;
+                return changes.length === 0 && !modeChanged ? (
+                  <p className="text-[10px] text-gray-500 font-mono">Identical settings.</p>
+                ) : (
+                  <div className="text-[10px] font-mono space-y-1">
+                    {modeChanged && (
+                      <div className="grid grid-cols-3 gap-2"><span className="text-gray-500">Target Mode</span><span className="text-rose-400">{modeLabel(from.mode)}</span><span className="text-[#00ff41]">{modeLabel(to.mode)}</span></div>
+                    )}
+                    {changes.map(change => (
+                      <div key={change.key} className="grid grid-cols-3 gap-2">
+                        <span className="text-gray-500">{change.label}</span>
+                        <span className="text-rose-400 break-words">{change.from}</span>
+                        <span className="text-[#00ff41] break-words">{change.to}</span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })()
+            ) : (
+              <pre className="bg-black/80 p-3 rounded border border-gray-800 max-h-72 overflow-auto custom-scrollbar text-[10px] font-mono leading-relaxed">
+                {collapseUnchanged(diffLines(from.script, to.script)).map((line, i) =>
+                  line.op === 'skip' ? (
+                    <div key={i} className="text-gray-700">@@ {line.count} unchanged line(s) @@</div>
+                  ) : (
+                    <div key={i} className={line.op === 'add' ? 'text-[#00ff41] bg-green-900/20' : line.op === 'remove' ? 'text-rose-400 bg-rose-900/20' : 'text-gray-500'}>
+                      {line.op === 'add' ? '+ ' : line.op === 'remove' ? '- ' : '  '}{line.text}
+                    </div>
+                  )
+                )}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTranscriptQc = () => {
+    const issue = selectedIssue !== null ? visibleIssues[selectedIssue] : undefined;
+    const context = issue ? transcript.filter(s => s.end >= issue.start - 5 && s.start <= issue.end + 5) : [];
+    const issueColors: Record<TranscriptIssueType, string> = { retake: 'text-rose-400', noise: 'text-yellow-400', gap: 'text-cyan-400' };
+    const inputClass = "bg-black border border-gray-700 text-gray-300 p-1 normal-case";
+
+    return (
+      <div className="md:col-span-2 bg-gray-900/20 p-6 border border-gray-800 rounded">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Mic size={16} /> Transcript QC
+          </h3>
+          <button
+            onClick={runTranscription}
+            disabled={isTranscribing || !sourceFile}
+            className="text-[10px] bg-gray-800 hover:bg-gray-700 text-[#00ff41] px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-2 disabled:opacity-50"
+          >
+            {isTranscribing ? <span className="animate-spin">⟳</span> : <ScanLine size={12}/>}
+            {isTranscribing ? `Transcribing ${formatTimestamp(transcribedSeconds)}` : transcript.length > 0 ? 'Re-transcribe' : 'Transcribe'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-mono mb-2">
+          <label className="md:col-span-2 flex flex-col gap-1 text-gray-500 uppercase">
+            Speech-to-Text Endpoint
+            <input value={transcriptionSettings.endpoint} onChange={(e) => setTranscriptionSettings({ ...transcriptionSettings, endpoint: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-500 uppercase">
+            Model
+            <input value={transcriptionSettings.model} onChange={(e) => setTranscriptionSettings({ ...transcriptionSettings, model: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-500 uppercase">
+            Language
+            <input value={transcriptionSettings.language} onChange={(e) => setTranscriptionSettings({ ...transcriptionSettings, language: e.target.value })} placeholder="auto" className={inputClass} />
+          </label>
+        </div>
+        <RangeSlider {...GAP_RANGE} value={transcriptionSettings.gapSeconds} onChange={(v) => setTranscriptionSettings({ ...transcriptionSettings, gapSeconds: v })} />
+
+        {transcript.length === 0 ? (
+          <p className="text-[10px] text-gray-600 font-mono italic">
+            {sourceFile ? 'No transcript yet.' : 'Link the local file to transcribe it.'}
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+              <div className="flex gap-1">
+                {(['all', 'retake', 'noise', 'gap'] as const).map(type => (
+                  <button
+                    key={type}
+                    onClick={() => { setIssueFilter(type); setSelectedIssue(null); }}
+                    className={`text-[10px] px-2 py-0.5 border uppercase ${issueFilter === type ? 'border-[#00ff41] text-[#00ff41]' : 'border-gray-700 text-gray-500 hover:text-white'}`}
+                  >
+                    {type === 'all' ? 'All' : ISSUE_LABELS[type]} ({type === 'all' ? transcriptIssues.length : transcriptIssues.filter(i => i.type === type).length})
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => stepIssue(-1)} className="text-[10px] text-gray-500 hover:text-white px-1 uppercase">◀ Prev</button>
+                <button onClick={() => stepIssue(1)} className="text-[10px] text-gray-500 hover:text-white px-1 uppercase">Next ▶</button>
+                <button onClick={() => downloadIssues('labels')} disabled={visibleIssues.length === 0} className="text-[10px] text-gray-400 hover:text-[#00ff41] px-1 uppercase flex items-center gap-1 disabled:opacity-40">
+                  <Download size={10} /> Audacity Labels
+                </button>
+                <button onClick={() => downloadIssues('csv')} disabled={visibleIssues.length === 0} className="text-[10px] text-gray-400 hover:text-[#00ff41] px-1 uppercase flex items-center gap-1 disabled:opacity-40">
+                  <Download size={10} /> CSV
+                </button>
+              </div>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto custom-scrollbar border border-gray-800 divide-y divide-gray-900">
+              {visibleIssues.length === 0 && <p className="text-[10px] text-green-500 font-mono p-2">Nothing flagged.</p>}
+              {visibleIssues.map((item, i) => (
+                <button
+                  key={`${item.type}-${item.start}-${i}`}
+                  onClick={() => setSelectedIssue(i)}
+                  className={`w-full text-left flex gap-3 px-2 py-1 text-[10px] font-mono ${selectedIssue === i ? 'bg-[#00ff41]/10' : 'hover:bg-gray-900'}`}
+                >
+                  <span className="text-gray-500 w-14 shrink-0">{formatTimestamp(item.start)}</span>
+                  <span className={`w-20 shrink-0 uppercase ${issueColors[item.type]}`}>{ISSUE_LABELS[item.type]}</span>
+                  <span className="text-gray-400 truncate">{item.detail}</span>
+                </button>
+              ))}
+            </div>
+
+            {issue && (
+              <div className="mt-3 p-3 border border-gray-800 bg-black/60 text-[10px] font-mono">
+                <div className="flex justify-between items-center mb-2">
+                  <span className={`uppercase ${issueColors[issue.type]}`}>
+                    {ISSUE_LABELS[issue.type]} · {formatTimestamp(issue.start)}–{formatTimestamp(issue.end)}
+                  </span>
+                  <button onClick={() => playIssue(issue)} disabled={!sourceFile} className="text-gray-400 hover:text-[#00ff41] uppercase flex items-center gap-1 disabled:opacity-40">
+                    <Headphones size={10} /> Listen
+                  </button>
+                </div>
+                {context.map((segment, i) => (
+                  <p key={i} className={segment.end >= issue.start && segment.start <= issue.end ? 'text-white' : 'text-gray-600'}>
+                    <span className="text-gray-600">[{formatTimestamp(segment.start)}]</span> {segment.text}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderPresets = () => {
+    const tags = Array.from(new Set(userPresets.flatMap(p => p.tags))).sort();
+    const shown = presetTagFilter ? userPresets.filter(p => p.tags.includes(presetTagFilter)) : userPresets;
+    const iconButton = 'text-gray-600 hover:text-white';
+
+    return (
+      <div className="bg-gray-900/20 border border-gray-800 p-4 rounded">
+        <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase tracking-widest">Presets</h4>
+        <div className="space-y-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => applyPreset(preset.id)}
+              className="w-full text-left p-2 hover:bg-gray-800 border border-transparent hover:border-gray-700 transition-all group"
+            >
+              <div className="text-xs font-bold text-gray-300 group-hover:text-[#00ff41] flex items-center gap-2">
+                 {preset.id === 'acx' && <Mic size={12}/>}
+                 {preset.id === 'warm' && <Radio size={12}/>}
+                 {preset.id === 'clear' && <Zap size={12}/>}
+                 {preset.id === 'home' && <Home size={12}/>}
+                 {preset.id === 'radio' && <Music size={12}/>}
+                 {preset.name}
+              </div>
+              <div className="text-[10px] text-gray-600 truncate">{preset.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-gray-800">
+          <div className="flex justify-between items-center mb-2">
+            <h5 className="text-[10px] font-bold text-gray-400 uppercase">My Presets ({userPresets.length})</h5>
+            <div className="flex gap-2 text-[10px] font-mono">
+              <label className="relative text-gray-500 hover:text-cyan-400 cursor-pointer flex items-center gap-1" title="Import library (.json)">
+                <UploadIcon size={10}/> IMPORT
+                <input type="file" accept="application/json,.json" className="absolute inset-0 opacity-0 cursor-pointer w-full" onChange={handlePresetImport} />
+              </label>
+              <button onClick={exportPresets} disabled={userPresets.length === 0} className="text-gray-500 hover:text-cyan-400 flex items-center gap-1 disabled:opacity-40" title="Export library (.json)">
+                <Download size={10}/> EXPORT
+              </button>
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setPresetTagFilter(presetTagFilter === tag ? null : tag)}
+                  className={`text-[9px] font-mono px-2 py-0.5 border ${presetTagFilter === tag ? 'border-cyan-500 text-cyan-400' : 'border-gray-800 text-gray-500 hover:border-gray-600'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1 mb-3">
+            {shown.map(preset => (
+              <div key={preset.id} className="flex items-center gap-2 p-2 border border-transparent hover:border-gray-700 hover:bg-gray-800/50 group">
+                {renamingPreset?.id === preset.id ? (
+                  <input
+                    autoFocus
+                    value={renamingPreset.name}
+                    onChange={(e) => setRenamingPreset({ id: preset.id, name: e.target.value })}
+                    onBlur={renamePreset}
+                    onKeyDown={(e) => { if (e.key === 'Enter') renamePreset(); if (e.key === 'Escape') setRenamingPreset(null); }}
+                    className="flex-1 bg-black border border-gray-700 px-1 text-xs font-mono text-white outline-none focus:border-[#00ff41]"
+                  />
+                ) : (
+                  <button onClick={() => applyPreset(preset.id)} className="flex-1 text-left min-w-0">
+                    <div className="text-xs font-bold text-gray-300 group-hover:text-[#00ff41] truncate">{preset.name}</div>
+                    {preset.tags.length > 0 && (
+                      <div className="text-[9px] text-gray-600 font-mono truncate flex items-center gap-1"><Tag size={8}/>{preset.tags.join(', ')}</div>
+                    )}
+                  </button>
+                )}
+                <button onClick={() => setRenamingPreset({ id: preset.id, name: preset.name })} title="Rename" className={iconButton}><Pencil size={10}/></button>
+                <button onClick={() => setUserPresets(prev => [...prev, duplicateUserPreset(preset)])} title="Duplicate" className={iconButton}><CopyPlus size={10}/></button>
+                <button onClick={() => deletePreset(preset)} title="Delete" className="text-gray-600 hover:text-rose-500"><Trash2 size={10}/></button>
+              </div>
+            ))}
+            {userPresets.length === 0 && (
+              <p className="text-[10px] text-gray-600 font-mono italic">Save the current settings to start a library.</p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="w-full bg-black border border-gray-700 p-1 text-xs font-mono text-white outline-none focus:border-[#00ff41]"
+            />
+            <input
+              value={presetTags}
+              onChange={(e) => setPresetTags(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') saveCurrentAsPreset(); }}
+              placeholder="Tags: narrator, genre"
+              className="w-full bg-black border border-gray-700 p-1 text-xs font-mono text-gray-400 outline-none focus:border-[#00ff41]"
+            />
+            <button
+              onClick={saveCurrentAsPreset}
+              disabled={!presetName.trim()}
+              className="w-full text-[10px] bg-gray-800 hover:bg-gray-700 text-[#00ff41] px-3 py-1 rounded border border-gray-700 uppercase flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Save size={12}/> Save Current Settings
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderProcessingChain = () => {
+    const nodes = buildFilterGraph(config).nodes;
+    const warnings = getChainWarnings(config);
+
+    return (
+      <div className="bg-black border border-gray-800 p-4 rounded">
+        <div className="flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+          <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Layers size={14} /> Processing Chain
+          </h4>
+          <button
+            onClick={() => setConfig(prev => ({ ...prev, stageOrder: DEFAULT_STAGE_ORDER, bypassedStages: [] }))}
+            className="text-[10px] font-mono text-gray-500 hover:text-white hover:underline"
+          >
+            [RESET]
+          </button>
+        </div>
+        <div className="space-y-1">
+          {config.stageOrder.map((id, idx) => {
+            const enabled = !config.bypassedStages.includes(id);
+            const filters = Array.from(new Set(nodes.filter(n => n.id === id).map(n => n.filter)));
+            return (
+              <div
+                key={id}
+                draggable
+                onDragStart={() => setDragStage(id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => { if (dragStage) moveStageTo(dragStage, id); setDragStage(null); }}
+                onDragEnd={() => setDragStage(null)}
+                className={`flex items-center gap-2 px-2 py-1 border text-[10px] font-mono cursor-grab active:cursor-grabbing transition-colors ${dragStage === id ? 'opacity-40' : ''} ${enabled ? 'border-gray-700 text-gray-300 hover:border-[#00ff41]' : 'border-gray-900 text-gray-600'}`}
+              >
+                <GripVertical size={12} className="text-gray-600 shrink-0" />
+                <span className="w-3 text-gray-600">{idx + 1}</span>
+                <span className={`flex-1 truncate ${enabled ? '' : 'line-through'}`}>{STAGE_LABELS[id]}</span>
+                <span className="text-gray-600">{filters.length > 0 ? filters.join('+') : 'flat'}</span>
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={() => toggleStage(id)}
+                  title={enabled ? 'Bypass stage' : 'Enable stage'}
+                  className="accent-[#00ff41] cursor-pointer"
+                />
+              </div>
+            );
+          })}
+        </div>
+        {warnings.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {warnings.map((warning, idx) => (
+              <div key={idx} className="text-[10px] font-mono text-yellow-200 border-l-2 border-yellow-500 bg-yellow-900/10 pl-2 py-1 flex items-start gap-2">
+                <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {warning}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-[10px] text-gray-600 font-mono mt-2">Drag to reorder. Applies to preview, test and full scripts.</p>
+      </div>
+    );
+  };
+
+  const renderCompliance = () => {
+    const profile = COMPLIANCE_PROFILES.find(p => p.id === complianceProfileId) || COMPLIANCE_PROFILES[0];
+    const report = runCompliance(profile, getComplianceFiles());
+    const failedFiles = report.files.filter(f => !f.passed).length;
+
+    return (
+      <div className="bg-black border border-gray-800 p-4 rounded">
+        <div className="flex justify-between items-center mb-3 border-b border-gray-800 pb-2">
+          <h4 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <ClipboardCheck size={14} /> Compliance
+          </h4>
+          <select
+            value={profile.id}
+            onChange={(e) => setComplianceProfileId(e.target.value)}
+            className="bg-black border border-gray-700 text-[10px] font-mono text-gray-300 px-1"
+          >
+            {COMPLIANCE_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+        <div className={`text-[10px] font-mono mb-3 ${report.passed ? 'text-green-400' : 'text-rose-400'}`}>
+          {report.passed ? 'ALL CHECKS PASSED' : `${failedFiles}/${report.files.length} FILE(S) FAILING`}
+        </div>
+        <div className="space-y-1 mb-4">
+          {profile.rules.map(rule => {
+            const results = report.files.map(f => f.results.find(r => r.ruleId === rule.id)!);
+            const failed = results.filter(r => r.status === 'fail');
+            const skipped = results.every(r => r.status === 'skip');
+            const shown = failed[0] || results[0];
+            return (
+              <div key={rule.id} title={`${rule.requirement}\n${shown?.detail ?? ''}`} className="text-[10px] font-mono flex items-center gap-2">
+                {skipped ? <Info size={10} className="text-gray-500 shrink-0" /> :
+                 failed.length ? <XCircle size={10} className="text-rose-500 shrink-0" /> :
+                 <CheckCircle2 size={10} className="text-green-500 shrink-0" />}
+                <span className="text-gray-300">{rule.label}</span>
+                <span className="ml-auto text-gray-500 truncate">
+                  {results.length > 1 && !skipped ? `${results.length - failed.length}/${results.length}` : shown?.detail}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => exportComplianceReport('json')} className="flex-1 text-[10px] font-mono border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 py-1 flex items-center justify-center gap-1"><Download size={10} /> JSON</button>
+          <button onClick={() => exportComplianceReport('html')} className="flex-1 text-[10px] font-mono border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 py-1 flex items-center justify-center gap-1"><Download size={10} /> HTML</button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBatch = () => {
+    const analyzable = batchItems.filter(item => item.file && item.status !== 'analyzed').length;
+    const statusStyle: Record<BatchItem['status'], string> = {
+      pending: 'text-gray-500',
+      analyzing: 'text-yellow-400 animate-pulse',
+      analyzed: 'text-[#00ff41]',
+      error: 'text-rose-500',
+    };
+
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-bold tracking-tight flex items-center gap-3">
+            <ListChecks className="text-cyan-400" />
+            <GlitchText text="BATCH QUEUE" />
+          </h2>
+          <button onClick={() => setMode('upload')} className="text-xs font-mono text-gray-400 hover:text-white hover:underline">[ SINGLE FILE MODE ]</button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* QUEUE */}
+          <div className="lg:col-span-2 bg-gray-900/20 border border-gray-800 p-4 rounded">
+            <div className="flex flex-wrap gap-2 mb-4">
+              <div className="relative text-[10px] bg-gray-800 hover:bg-gray-700 text-cyan-400 px-3 py-1 rounded border border-gray-700 uppercase cursor-pointer">
+                Add Files
+                <input type="file" multiple accept="audio/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleBatchUpload} />
+              </div>
+              <div className="relative text-[10px] bg-gray-800 hover:bg-gray-700 text-cyan-400 px-3 py-1 rounded border border-gray-700 uppercase cursor-pointer">
+                Add Folder
+                <input type="file" multiple className="absolute inset-0 opacity-0 cursor-pointer" onChange={handleBatchUpload} {...{ webkitdirectory: '' }} />
+              </div>
+              <button
+                onClick={analyzeBatch}
+                disabled={isBatchAnalyzing || analyzable === 0}
+                className="text-[10px] bg-gray-800 hover:bg-gray-700 text-[#00ff41] px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-2 disabled:opacity-50"
+              >
+                {isBatchAnalyzing ? <span className="animate-spin">⟳</span> : <ScanLine size={12}/>}
+                {isBatchAnalyzing ? 'Scanning...' : `Analyze (${analyzable})`}
+              </button>
+              <button
+                onClick={() => setBatchItems([])}
+                disabled={isBatchAnalyzing || batchItems.length === 0}
+                className="text-[10px] text-gray-500 hover:text-rose-500 px-3 py-1 uppercase disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+
+            {batchItems.length === 0 ? (
+              <div className="border border-dashed border-gray-800 rounded p-8 text-center text-gray-600 font-mono text-xs">
+                [ QUEUE EMPTY - ADD FILES, A FOLDER, OR PASTE A LISTING ]
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <div className="grid grid-cols-12 gap-2 text-[9px] font-mono text-gray-600 uppercase px-2">
+                  <span className="col-span-5">File</span>
+                  <span className="col-span-2 text-right">LUFS</span>
+                  <span className="col-span-2 text-right">TP</span>
+                  <span className="col-span-2 text-right">Floor</span>
+                  <span className="col-span-1" />
+                </div>
+                {batchItems.map((item, i) => {
+                  const overrideCount = Object.keys(item.overrides).length;
+                  const expanded = expandedBatchItem === item.id;
+                  return (
+                    <div key={item.id} className={`border ${expanded ? 'border-cyan-500/50' : 'border-gray-800'} bg-black/40`}>
+                      <div className="grid grid-cols-12 gap-2 items-center text-xs font-mono px-2 py-1">
+                        <span className="col-span-5 truncate" title={item.path}>
+                          <span className="text-gray-600 mr-2">{String(i + 1).padStart(2, '0')}</span>
+                          <span className="text-gray-300">{item.path.split(/[/\\]/).pop()}</span>
+                          <span className={`ml-2 text-[9px] uppercase ${statusStyle[item.status]}`}>
+                            {item.file ? (item.status === 'error' ? item.error : item.status) : 'path only'}
+                          </span>
+                        </span>
+                        <span className="col-span-2 text-right text-gray-400">{item.analysis ? item.analysis.integratedLufs.toFixed(1) : '--'}</span>
+                        <span className={`col-span-2 text-right ${item.analysis && item.analysis.truePeak > -1 ? 'text-rose-500' : 'text-gray-400'}`}>{item.analysis ? item.analysis.truePeak.toFixed(1) : '--'}</span>
+                        <span className={`col-span-2 text-right ${item.analysis && item.analysis.noiseFloor > -60 ? 'text-yellow-400' : 'text-gray-400'}`}>{item.analysis ? item.analysis.noiseFloor.toFixed(0) : '--'}</span>
+                        <span className="col-span-1 flex justify-end gap-2">
+                          <button onClick={() => setExpandedBatchItem(expanded ? null : item.id)} title="Per-file overrides" className={overrideCount > 0 ? 'text-cyan-400' : 'text-gray-500 hover:text-white'}>
+                            <SlidersHorizontal size={12}/>
+                          </button>
+                          <button onClick={() => setBatchItems(prev => prev.filter(b => b.id !== item.id))} disabled={isBatchAnalyzing} title="Remove" className="text-gray-500 hover:text-rose-500">
+                            <Trash2 size={12}/>
+                          </button>
+                        </span>
+                      </div>
+                      {expanded && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 px-4 pt-3 border-t border-gray-800">
+                          {BATCH_OVERRIDE_KEYS.map(key => {
+                            const overridden = item.overrides[key] !== undefined;
+                            return (
+                              <div key={key} className={overridden ? '' : 'opacity-50'}>
+                                <RangeSlider
+                                  {...RANGES[key]}
+                                  value={item.overrides[key] ?? config[key]}
+                                  onChange={(v) => setBatchOverride(item.id, key, v)}
+                                />
+                                {overridden && (
+                                  <button onClick={() => setBatchOverride(item.id, key, undefined)} className="-mt-3 mb-2 text-[9px] font-mono text-gray-500 hover:text-white uppercase">
+                                    [ use shared: {config[key]} ]
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="mt-4 pt-4 border-t border-gray-800">
+              <label className="text-[10px] font-mono text-gray-500 mb-1 block">PASTE FOLDER LISTING (ls -1 / find OUTPUT, RELATIVE TO {baseDir})</label>
+              <textarea
+                value={batchListing}
+                onChange={(e) => setBatchListing(e.target.value)}
+                placeholder={'Book 1/01.m4b\nBook 1/02.m4b'}
+                className="w-full bg-black border border-gray-700 p-2 text-xs font-mono text-gray-300 h-20 focus:border-cyan-400 outline-none resize-none"
+              />
+              <button onClick={addBatchListing} disabled={!batchListing.trim()} className="mt-1 text-[10px] bg-gray-800 hover:bg-gray-700 text-cyan-400 px-3 py-1 rounded border border-gray-700 uppercase disabled:opacity-50">
+                Add Paths
+              </button>
+            </div>
+          </div>
+
+          {/* SHARED SETTINGS & EXPORT */}
+          <div className="space-y-4">
+            <div className="bg-gray-900/20 border border-gray-800 p-4 rounded">
+              <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">Shared Settings</h3>
+              <div className="grid grid-cols-2 gap-1 mb-3">
+                {[...PRESETS, ...userPresets].map(p => (
+                  <button key={p.id} onClick={() => applyPreset(p.id)} className="text-[10px] font-mono text-left px-2 py-1 border border-gray-800 text-gray-400 hover:border-[#00ff41] hover:text-white">
+                    {p.name}
+                  </button>
+                ))}
+              </div>
+              <div className="text-[10px] font-mono text-gray-500 space-y-1 mb-3">
+                <div>TARGET {config.loudnormTarget} LUFS / {config.loudnormTp} dBTP</div>
+                <div>HPF {config.highpassFreq}Hz · LPF {config.lowpassFreq}Hz · EQ {config.eqBands.length} BAND(S)</div>
+                <div>NR {config.noiseReduction} · COMP {config.compressionAmount} · DE-ESS {config.deesserAmount}</div>
+              </div>
+              <CyberButton variant="secondary" className="w-full" onClick={() => { setStudioReturnMode('batch'); setMode('studio'); }}>Tune in Studio</CyberButton>
+            </div>
+
+            <div className="bg-gray-900/20 border border-gray-800 p-4 rounded">
+              <label className="block text-[10px] font-mono text-gray-500 mb-1">OUTPUT DIRECTORY</label>
+              <input type="text" value={exportPath} onChange={(e) => setExportPath(e.target.value)} className="w-full bg-black border border-gray-700 p-2 text-xs font-mono focus:border-[#00ff41] outline-none text-white mb-3" />
+              {renderPathProblem(exportPath)}
+              <label className="flex items-center gap-2 text-[10px] font-mono text-gray-400 mb-4 cursor-pointer">
+                <input type="checkbox" checked={perChapterLoudness} onChange={(e) => setPerChapterLoudness(e.target.checked)} className="accent-[#00ff41]" />
+                PER-CHAPTER LOUDNESS
+              </label>
+              <label title={verifyTitle} className="flex items-center gap-2 text-[10px] font-mono text-gray-400 mb-4 -mt-2 cursor-pointer">
+                <input type="checkbox" checked={verifyOutput} onChange={(e) => setVerifyOutput(e.target.checked)} className="accent-[#00ff41]" />
+                VERIFY OUTPUT (QC REPORT)
+              </label>
+              <CyberButton className="w-full" disabled={batchItems.length === 0 || !!getPathProblem(exportPath)} onClick={downloadBatchScript}>
+                Download Batch .sh (v{fileVersion})
+              </CyberButton>
+              <p className="text-[10px] text-gray-600 font-mono mt-2">
+                Logs and a resume state file go to batch_logs/ in the output directory. Re-run the script to pick up after a failure.
+              </p>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    );
+  };
+
   const renderStudio = () => {
-    const isTestMode = studioScriptMode !== 'full';
+    const isTestMode = studioScriptMode === 'test-10s' || studioScriptMode === 'test-45s';
     
     const styles = {
         'test-10s': { border: 'border-cyan-500/50', text: 'text-cyan-400', bg: 'bg-cyan-500/5', btn: 'bg-cyan-500 text-black', copyBtn: 'bg-cyan-500/20 text-cyan-400 border-cyan-500' },
         'test-45s': { border: 'border-yellow-500/50', text: 'text-yellow-400', bg: 'bg-yellow-500/5', btn: 'bg-yellow-500 text-black', copyBtn: 'bg-yellow-500/20 text-yellow-400 border-yellow-500' },
-        'full': { border: 'border-rose-500/50', text: 'text-rose-500', bg: 'bg-rose-500/5', btn: 'bg-rose-500 text-white', copyBtn: 'bg-rose-500/20 text-rose-500 border-rose-500' }
+        'full': { border: 'border-rose-500/50', text: 'text-rose-500', bg: 'bg-rose-500/5', btn: 'bg-rose-500 text-white', copyBtn: 'bg-rose-500/20 text-rose-500 border-rose-500' },
+        'split-chapters': { border: 'border-purple-500/50', text: 'text-purple-400', bg: 'bg-purple-500/5', btn: 'bg-purple-500 text-white', copyBtn: 'bg-purple-500/20 text-purple-400 border-purple-500' }
     }[studioScriptMode];
 
     const issues = getDiagnosticIssues();
@@ -391,7 +2194,7 @@ const App: React.FC = () => {
           <GlitchText text="VOICE ENHANCEMENT STUDIO" />
         </h2>
         <div className="flex gap-4">
-           <button onClick={() => setMode('dashboard')} className="text-xs font-mono text-gray-400 hover:text-white hover:underline">[ RETURN TO DASHBOARD ]</button>
+           <button onClick={() => setMode(studioReturnMode)} className="text-xs font-mono text-gray-400 hover:text-white hover:underline">[ RETURN TO {studioReturnMode === 'batch' ? 'BATCH QUEUE' : 'DASHBOARD'} ]</button>
         </div>
       </div>
 
@@ -413,7 +2216,7 @@ const App: React.FC = () => {
                  className="text-[10px] bg-gray-800 hover:bg-gray-700 text-[#00ff41] px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-2 disabled:opacity-50"
                >
                   {isAnalyzing ? <span className="animate-spin">⟳</span> : <ScanLine size={12}/>}
-                  {isAnalyzing ? "Scanning..." : "Quick Scan"}
+                  {isAnalyzing ? `Scanning ${Math.round(analysisProgress * 100)}%` : "Full Scan"}
                </button>
              )}
              <button 
@@ -424,22 +2227,48 @@ const App: React.FC = () => {
                 {isAiAnalyzing ? <span className="animate-pulse">●</span> : <Brain size={12}/>}
                 {isAiAnalyzing ? "Thinking..." : "AI Analysis"}
              </button>
+             <button
+               onClick={() => setShowAiSettings(!showAiSettings)}
+               title="AI provider settings"
+               className={`text-[10px] bg-gray-800 hover:bg-gray-700 px-2 py-1 rounded border border-gray-700 ${showAiSettings ? 'text-purple-300' : 'text-gray-500'}`}
+             >
+                <Settings size={12}/>
+             </button>
+             {analysis && (
+               <button
+                 onClick={runAutoTune}
+                 className="text-[10px] bg-gray-800 hover:bg-gray-700 text-yellow-400 px-3 py-1 rounded border border-gray-700 uppercase flex items-center gap-2"
+               >
+                  <Wand2 size={12}/> Auto Tune
+               </button>
+             )}
           </div>
+          {isAnalyzing && (
+            <div className="h-1 w-full bg-gray-800 rounded overflow-hidden">
+              <div className="h-full bg-[#00ff41] transition-all duration-300" style={{ width: `${analysisProgress * 100}%` }} />
+            </div>
+          )}
         </div>
         
         {/* Metric Cards */}
         {analysis ? (
           <>
             <div className="bg-gray-900/50 border border-gray-700 p-2 rounded">
-               <div className="text-[10px] text-gray-500 uppercase">Loudness (RMS)</div>
-               <div className={`text-xl font-mono ${analysis.estLufs > -14 ? 'text-red-500' : 'text-cyan-400'}`}>
-                 {analysis.estLufs} <span className="text-xs text-gray-600">dB</span>
+               <div className="text-[10px] text-gray-500 uppercase">Loudness (Integrated)</div>
+               <div className={`text-xl font-mono ${analysis.integratedLufs > -14 ? 'text-red-500' : 'text-cyan-400'}`}>
+                 {analysis.integratedLufs} <span className="text-xs text-gray-600">LUFS</span>
+               </div>
+               <div className="text-[9px] text-gray-600 font-mono">
+                 S {analysis.shortTermMax} / M {analysis.momentaryMax} / LRA {analysis.lra} / RMS {analysis.estLufs}
                </div>
             </div>
             <div className="bg-gray-900/50 border border-gray-700 p-2 rounded">
                <div className="text-[10px] text-gray-500 uppercase">True Peak</div>
-               <div className={`text-xl font-mono ${analysis.peak > -1.0 ? 'text-red-500' : 'text-yellow-400'}`}>
-                 {analysis.peak} <span className="text-xs text-gray-600">dB</span>
+               <div className={`text-xl font-mono ${analysis.truePeak > -1.0 ? 'text-red-500' : 'text-yellow-400'}`}>
+                 {analysis.truePeak} <span className="text-xs text-gray-600">dBTP</span>
+               </div>
+               <div className="text-[9px] text-gray-600 font-mono">
+                 Sample Peak {analysis.peak} dBFS
                </div>
             </div>
             <div className="bg-gray-900/50 border border-gray-700 p-2 rounded">
@@ -462,6 +2291,15 @@ const App: React.FC = () => {
         )}
       </div>
 
+      {renderSourceViewer()}
+
+      {showAiSettings && renderAiSettings()}
+      {autoTune && renderAutoTune()}
+
+      {chapters.length > 0 && renderChapterMap()}
+
+      {renderPreviewPanel()}
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 mb-32">
         {/* LEFT COLUMN: CONTROLS (3 Spans) */}
         <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -541,12 +2379,44 @@ const App: React.FC = () => {
                    Higher = Smaller Temp File (Slower) | Lower = Faster (Larger File)
                  </p>
                </div>
+
+               <div className="pt-4 border-t border-gray-800">
+                 <div className="flex gap-4">
+                   <div className="flex-1">
+                     <RangeSlider label="Head Room Tone (s)" {...RANGES.headSilence} value={config.headSilence} onChange={(v) => updateConfig('headSilence', v)} />
+                   </div>
+                   <div className="flex-1">
+                     <RangeSlider label="Tail Room Tone (s)" {...RANGES.tailSilence} value={config.tailSilence} onChange={(v) => updateConfig('tailSilence', v)} />
+                   </div>
+                 </div>
+                 <label className="text-[10px] font-mono text-gray-400 flex items-center gap-2 cursor-pointer">
+                   <input type="checkbox" checked={splitCredits} onChange={(e) => setSplitCredits(e.target.checked)} className="accent-purple-500" />
+                   First/last chapters are opening/closing credits
+                 </label>
+                 <p className="text-[10px] text-gray-500 font-mono mt-1 pl-2">
+                   Split (ACX) export only: edge silence is trimmed and replaced with this padding
+                 </p>
+               </div>
             </div>
           </div>
+
+          {/* SECTION 3: OUTPUT FORMAT */}
+          {renderOutputFormat()}
+
+          {/* SECTION 4: PARAMETRIC EQ */}
+          {renderEqualizer()}
+
+          {/* SECTION 5: VERSION HISTORY */}
+          {renderVersionHistory()}
+
+          {/* SECTION 6: TRANSCRIPT QC */}
+          {renderTranscriptQc()}
         </div>
 
         {/* RIGHT COLUMN: PRESETS & DIAGNOSTICS (1 Span) */}
         <div className="space-y-6">
+          {renderProcessingChain()}
+
           {/* System Diagnostics Panel */}
           <div className="bg-black border border-cyan-500/30 p-4 rounded relative overflow-hidden">
             <h4 className="text-xs font-bold text-cyan-400 mb-4 uppercase tracking-widest border-b border-cyan-900 pb-2 flex items-center gap-2">
@@ -561,6 +2431,7 @@ const App: React.FC = () => {
                 <p className="text-[10px] text-gray-300 font-mono whitespace-pre-line leading-relaxed">
                   {aiInsight}
                 </p>
+                {aiRecommendation && renderAiSuggestions()}
               </div>
             ) : analysis ? (
               <div className="space-y-3 mb-6">
@@ -583,7 +2454,7 @@ const App: React.FC = () => {
               </div>
             ) : (
                <div className="text-[10px] text-gray-500 font-mono mb-6 italic">
-                  Run Quick Scan or AI Analysis to populate.
+                  Run Full Scan or AI Analysis to populate.
                </div>
             )}
 
@@ -592,7 +2463,7 @@ const App: React.FC = () => {
               <div className="flex justify-between"><span>Output LUFS:</span> <span className="text-white">{config.loudnormTarget}</span></div>
               <div className="flex justify-between"><span>True Peak:</span> <span className="text-white">{config.loudnormTp} dB</span></div>
               <div className="flex justify-between"><span>LRA Target:</span> <span className="text-white">{config.loudnormLra} LU</span></div>
-              <div className="flex justify-between"><span>Format:</span> <span className="text-white">Mono / {config.bitrate}k</span></div>
+              <div className="flex justify-between"><span>Format:</span> <span className="text-white">{describeFormat(config.outputFormat, config)}</span></div>
               
               <div className="mt-4 pt-4 border-t border-dashed border-gray-800">
                 <p className="text-yellow-500 mb-1">⚠️ SCRIPT LOGIC:</p>
@@ -602,29 +2473,11 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Compliance */}
+          {analysis && renderCompliance()}
+
           {/* Presets */}
-          <div className="bg-gray-900/20 border border-gray-800 p-4 rounded">
-            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase tracking-widest">Presets</h4>
-            <div className="space-y-2">
-              {PRESETS.map(preset => (
-                <button
-                  key={preset.id}
-                  onClick={() => applyPreset(preset.id)}
-                  className="w-full text-left p-2 hover:bg-gray-800 border border-transparent hover:border-gray-700 transition-all group"
-                >
-                  <div className="text-xs font-bold text-gray-300 group-hover:text-[#00ff41] flex items-center gap-2">
-                     {preset.id === 'acx' && <Mic size={12}/>}
-                     {preset.id === 'warm' && <Radio size={12}/>}
-                     {preset.id === 'clear' && <Zap size={12}/>}
-                     {preset.id === 'home' && <Home size={12}/>}
-                     {preset.id === 'radio' && <Music size={12}/>}
-                     {preset.name}
-                  </div>
-                  <div className="text-[10px] text-gray-600 truncate">{preset.description}</div>
-                </button>
-              ))}
-            </div>
-          </div>
+          {renderPresets()}
         </div>
 
       </div>
@@ -637,17 +2490,45 @@ const App: React.FC = () => {
                   <div className="flex flex-col gap-1">
                       <span className={`text-[10px] font-mono uppercase tracking-widest ${styles.text} flex items-center gap-2`}>
                         {isTestMode ? <Zap size={12}/> : <FileAudio size={12}/>} 
-                        Script Mode: {studioScriptMode === 'full' ? "FULL EXPORT (2-PASS)" : `TEST (${studioScriptMode === 'test-10s' ? '10s' : '45s'})`}
+                        Script Mode: {studioScriptMode === 'full' ? "FULL EXPORT (2-PASS)" : studioScriptMode === 'split-chapters' ? "SPLIT PER CHAPTER (MP3 192k)" : `TEST (${studioScriptMode === 'test-10s' ? '10s' : '45s'})`}
                       </span>
                       <div className="flex items-center gap-2 bg-black/50 p-1 rounded border border-gray-800 w-fit">
                           <button onClick={() => setStudioScriptMode('test-10s')} className={`text-[10px] font-bold px-3 py-1 rounded transition-colors ${studioScriptMode === 'test-10s' ? 'bg-cyan-500 text-black' : 'text-gray-500 hover:text-gray-300'}`}>TEST (10s)</button>
                           <button onClick={() => setStudioScriptMode('test-45s')} className={`text-[10px] font-bold px-3 py-1 rounded transition-colors ${studioScriptMode === 'test-45s' ? 'bg-yellow-500 text-black' : 'text-gray-500 hover:text-gray-300'}`}>TEST (45s)</button>
                           <button onClick={() => setStudioScriptMode('full')} className={`text-[10px] font-bold px-3 py-1 rounded transition-colors ${studioScriptMode === 'full' ? 'bg-rose-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}>FULL EXPORT</button>
+                          <button onClick={() => setStudioScriptMode('split-chapters')} className={`text-[10px] font-bold px-3 py-1 rounded transition-colors ${studioScriptMode === 'split-chapters' ? 'bg-purple-500 text-white' : 'text-gray-500 hover:text-gray-300'}`}>SPLIT (ACX)</button>
+                          <span className="w-px h-4 bg-gray-800" />
+                          {renderScriptTargetToggle()}
+                          {!isTestMode && (
+                            <>
+                              <span className="w-px h-4 bg-gray-800" />
+                              <label title={verifyTitle} className="text-[10px] font-bold px-2 py-1 text-gray-400 flex items-center gap-1 cursor-pointer">
+                                <input type="checkbox" checked={verifyOutput} onChange={(e) => setVerifyOutput(e.target.checked)} className="accent-[#00ff41]" />
+                                VERIFY
+                              </label>
+                            </>
+                          )}
                       </div>
                   </div>
-                  <button onClick={() => handleCopyScript(generatedScript)} className={`flex items-center gap-2 text-xs font-bold ${styles.copyBtn} px-4 py-2 border uppercase hover:bg-opacity-30 transition-all`}>
-                      <Copy size={14} /> Copy Script (v{fileVersion})
-                  </button>
+                  <div className="flex gap-2">
+                    {engineProgress !== null ? (
+                      <button onClick={cancelBrowserRun} className="flex items-center gap-2 text-xs font-bold text-yellow-400 border-yellow-500/50 px-4 py-2 border uppercase hover:bg-yellow-900/30 transition-all">
+                          <XCircle size={14} /> Running {Math.round(engineProgress * 100)}% · Cancel
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => runInBrowser(studioScriptMode)}
+                        disabled={!sourceFile || !canRunInBrowser(studioScriptMode, perChapterLoudness)}
+                        title={canRunInBrowser(studioScriptMode, perChapterLoudness) ? 'Process with ffmpeg.wasm and download the result' : 'Per-chapter and split exports are script-only'}
+                        className="flex items-center gap-2 text-xs font-bold text-gray-300 border-gray-600 px-4 py-2 border uppercase hover:bg-gray-800 transition-all disabled:opacity-40"
+                      >
+                          <Cpu size={14} /> Run in Browser
+                      </button>
+                    )}
+                    <button onClick={() => handleCopyScript(generatedScript, studioScriptMode)} className={`flex items-center gap-2 text-xs font-bold ${styles.copyBtn} px-4 py-2 border uppercase hover:bg-opacity-30 transition-all`}>
+                        <Copy size={14} /> Copy Script (v{fileVersion})
+                    </button>
+                  </div>
               </div>
               <div className="bg-black/80 p-3 rounded border border-gray-800 h-24 overflow-y-auto custom-scrollbar">
                 <code className="block text-[10px] text-gray-400 font-mono whitespace-pre-wrap">{generatedScript}</code>
@@ -669,6 +2550,11 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold tracking-widest uppercase">Audio<span className="text-[#00ff41]">Cyber</span> Forge</h1>
           </div>
           <div className="flex items-center gap-4 text-xs font-mono text-gray-500">
+            {mode !== 'upload' && (
+              <button onClick={downloadProject} title={`Save workspace as ${PROJECT_FILE_EXTENSION}`} className="hover:text-[#00ff41] flex items-center gap-1">
+                <Save size={12}/> SAVE PROJECT
+              </button>
+            )}
             <span>SYS.VER 3.0.0</span>
             <span className={isProcessing ? "text-yellow-400 animate-pulse" : "text-green-500"}>{isProcessing ? "PROCESSING..." : "ONLINE"}</span>
           </div>
@@ -680,6 +2566,7 @@ const App: React.FC = () => {
           {mode === 'upload' && renderUpload()}
           {mode === 'dashboard' && renderDashboard()}
           {mode === 'studio' && renderStudio()}
+          {mode === 'batch' && renderBatch()}
         </AnimatePresence>
       </main>
 
@@ -703,32 +2590,51 @@ const App: React.FC = () => {
               <div>
                 <label className="block text-xs font-mono text-gray-500 mb-2">OUTPUT DESTINATION PATH</label>
                 <input type="text" value={exportPath} onChange={(e) => setExportPath(e.target.value)} className="w-full bg-black border border-gray-700 p-2 text-sm font-mono focus:border-[#00ff41] outline-none text-white" />
+                {renderPathProblem(exportPath)}
               </div>
+              <label title={verifyTitle} className="text-xs font-mono text-gray-400 flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={verifyOutput} onChange={(e) => setVerifyOutput(e.target.checked)} className="accent-[#00ff41]" />
+                VERIFY OUTPUT: RE-MEASURE, WRITE A QC REPORT, FAIL IF OFF TARGET
+              </label>
               <div>
-                <label className="block text-xs font-mono text-gray-500 mb-2">GENERATED SCRIPT (v{fileVersion})</label>
-                <textarea readOnly value={generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full'))} className="w-full bg-black border border-gray-700 p-4 text-xs font-mono text-green-400 h-32 focus:border-[#00ff41] outline-none resize-none" />
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-xs font-mono text-gray-500">GENERATED SCRIPT (v{fileVersion})</label>
+                  {renderScriptTargetToggle()}
+                </div>
+                <textarea readOnly value={generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full'), getScriptOptions('full'))} className="w-full bg-black border border-gray-700 p-4 text-xs font-mono text-green-400 h-32 focus:border-[#00ff41] outline-none resize-none" />
               </div>
             </div>
             <div className="flex gap-4">
-              <CyberButton className="flex-1" onClick={() => { const cmd = generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full')); handleCopyScript(cmd); setShowExportModal(false); }}>Copy to Clipboard</CyberButton>
+              <CyberButton className="flex-1" disabled={!!getScriptPathProblem([inputPath, exportPath])} onClick={() => { const cmd = generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full'), getScriptOptions('full')); handleCopyScript(cmd, 'full'); setShowExportModal(false); }}>Copy to Clipboard</CyberButton>
               <button 
                  onClick={() => {
-                    const cmd = generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full'));
-                    const blob = new Blob([cmd], { type: 'text/x-shellscript' });
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    a.download = `audiobook_master_v${fileVersion}.sh`;
-                    a.click();
+                    const problem = getScriptPathProblem([inputPath, exportPath]);
+                    if (problem) {
+                      addLog(`ERROR: PATH ${problem.toUpperCase()}`);
+                      return;
+                    }
+                    const cmd = generateFFmpegCommand(config, inputPath, 'full', getDynamicOutputPath('full'), getScriptOptions('full'));
+                    const { extension, mimeType } = SCRIPT_TARGETS[scriptTarget];
+                    downloadFile(toScriptFile(cmd, scriptTarget), `audiobook_master_v${fileVersion}.${extension}`, mimeType);
+                    recordScript('full', cmd);
                     addLog('SCRIPT DOWNLOADED');
                     setShowExportModal(false);
                     setFileVersion(v => v + 1);
                  }}
                  className="flex-1 border border-gray-700 text-gray-300 hover:bg-gray-800 py-3 uppercase text-sm tracking-widest font-bold"
               >
-                Download .sh
+                Download .{SCRIPT_TARGETS[scriptTarget].extension}
               </button>
             </div>
+            {sourceFile && canRunInBrowser('full', perChapterLoudness) && (
+              <button
+                onClick={() => { setShowExportModal(false); runInBrowser('full'); }}
+                disabled={engineProgress !== null}
+                className="w-full mt-4 border border-dashed border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 py-2 uppercase text-xs tracking-widest font-mono flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                <Cpu size={14} /> Run in Browser (ffmpeg.wasm) &amp; Download
+              </button>
+            )}
           </div>
         </div>
       )}
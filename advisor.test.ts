@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { AudioConfig, DEFAULT_CONFIG } from './types';
+import { AudioSample, createMockClient } from './ai';
+import { requestRecommendation } from './advisor';
+
+const SAMPLE: AudioSample = { mimeType: 'audio/wav', data: '' };
+
+const recommend = (response: unknown, config: AudioConfig = DEFAULT_CONFIG) =>
+  requestRecommendation(createMockClient(response), SAMPLE, config, null);
+
+describe('requestRecommendation', () => {
+  it('offers in-range changes with their current values and reasons', async () => {
+    const result = await recommend({
+      summary: ' Clean read with some hiss. ',
+      recommendations: [
+        { key: 'noiseReduction', value: 0.45, rationale: ' Steady hiss under the voice. ' },
+        { key: 'highpassFreq', value: 100, rationale: 'Low rumble from traffic.' },
+      ],
+    });
+    expect(result.summary).toBe('Clean read with some hiss.');
+    expect(result.rejected).toEqual([]);
+    expect(result.suggestions).toEqual([
+      { key: 'noiseReduction', label: 'Noise Reduction', current: 0.2, value: 0.45, reason: 'Steady hiss under the voice.' },
+      { key: 'highpassFreq', label: 'Rumble Cutoff (Hz)', current: 80, value: 100, reason: 'Low rumble from traffic.' },
+    ]);
+  });
+
+  it('snaps values inside the range onto the slider step', async () => {
+    const result = await recommend({
+      summary: '',
+      recommendations: [
+        { key: 'highpassFreq', value: 93, rationale: '' },
+        { key: 'loudnormTarget', value: -18.3, rationale: '' },
+      ],
+    });
+    expect(result.suggestions.map(s => [s.key, s.value])).toEqual([['highpassFreq', 95], ['loudnormTarget', -18.5]]);
+  });
+
+  it('rejects values outside RANGES instead of applying them', async () => {
+    const result = await recommend({
+      summary: 'Too quiet.',
+      recommendations: [
+        { key: 'loudnormTarget', value: -8, rationale: 'Louder.' },
+        { key: 'highpassFreq', value: 500, rationale: 'Cut more.' },
+        { key: 'deesserAmount', value: 0.7, rationale: 'Harsh esses.' },
+      ],
+    });
+    expect(result.suggestions.map(s => s.key)).toEqual(['deesserAmount']);
+    expect(result.rejected).toHaveLength(2);
+    expect(result.rejected[0]).toMatch(/loudnormTarget.*-8 is outside -30\.\.-14/);
+    expect(result.rejected[1]).toMatch(/highpassFreq.*500 is outside 20\.\.200/);
+  });
+
+  it('rejects settings that are not adjustable, repeated or untyped', async () => {
+    const result = await recommend({
+      summary: '',
+      recommendations: [
+        { key: 'sampleRate', value: 48000, rationale: '' },
+        { key: 'compressionAmount', value: '0.5', rationale: '' },
+        { key: 'compressionAmount', value: Number.NaN, rationale: '' },
+        { value: 3 },
+        'lower the noise',
+        { key: 'deesserFreq', value: 7000, rationale: '' },
+        { key: 'deesserFreq', value: 5000, rationale: '' },
+      ],
+    });
+    expect(result.suggestions.map(s => [s.key, s.value])).toEqual([['deesserFreq', 7000]]);
+    expect(result.rejected).toEqual([
+      'sampleRate: not an adjustable setting',
+      expect.stringMatching(/compressionAmount.*must be a number/),
+      expect.stringMatching(/compressionAmount.*must be a number/),
+      'recommendation 4: missing setting',
+      'recommendation 5: missing setting',
+      'deesserFreq: recommended more than once',
+    ]);
+  });
+
+  it('leaves out recommendations that match the current settings', async () => {
+    const result = await recommend({ summary: '', recommendations: [{ key: 'highpassFreq', value: 80, rationale: '' }] });
+    expect(result.suggestions).toEqual([]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it.each([
+    ['text that is not JSON', 'Sure! Here are my thoughts', 'Response was not JSON'],
+    ['an empty reply', '', 'Response was not JSON'],
+    ['a bare list', [{ key: 'highpassFreq', value: 100 }], 'Response was not an object'],
+    ['null', 'null', 'Response was not an object'],
+    ['an object without recommendations', { summary: 'Fine.' }, 'Response has no recommendation list'],
+  ])('reports %s and suggests nothing', async (_, response, message) => {
+    const result = await recommend(response);
+    expect(result.suggestions).toEqual([]);
+    expect(result.rejected).toEqual([message]);
+  });
+});
@@ -0,0 +1,139 @@
+import { AudioAnalysis, AudioConfig, RANGES } from './types';
+import { validateConfig } from './validate';
+import { snap } from './autotune';
+import { AudioSample, ModelClient } from './ai';
+
+// --- AI RECOMMENDATIONS ---
+// The model listens to a sample and answers in a fixed JSON shape: a short summary plus
+// one setting change per recommendation. Changes are checked against RANGES before they
+// are offered; anything else is reported as rejected, never applied.
+
+export type RecommendationKey = keyof typeof RANGES;
+
+export interface AiSuggestion {
+  key: RecommendationKey;
+  label: string;
+  current: number;
+  value: number;
+  reason: string;
+}
+
+export interface AiRecommendation {
+  summary: string;
+  suggestions: AiSuggestion[]; // Only settings that would change
+  rejected: string[];          // Recommendations that failed validation
+}
+
+const RECOMMENDATION_KEYS = Object.keys(RANGES) as RecommendationKey[];
+
+export const RECOMMENDATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Two or three sentences on the overall quality of the sample.' },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', enum: RECOMMENDATION_KEYS },
+          value: { type: 'number' },
+          rationale: { type: 'string', description: 'One sentence on what was heard and why the value fixes it.' },
+        },
+        required: ['key', 'value', 'rationale'],
+      },
+    },
+  },
+  required: ['summary', 'recommendations'],
+};
+
+const describeAnalysis = (analysis: AudioAnalysis) => [
+  `Integrated loudness ${analysis.integratedLufs.toFixed(1)} LUFS, true peak ${analysis.truePeak.toFixed(1)} dBTP`,
+  `Loudness range ${analysis.lra.toFixed(1)} LU, noise floor ${analysis.noiseFloor.toFixed(1)} dB`,
+  `${analysis.channels} channel(s) at ${analysis.sampleRate} Hz${analysis.isEst ? ' (quick estimate)' : ''}`,
+].join('\n');
+
+export const DEFAULT_INSTRUCTIONS = [
+  "You are an expert audio engineer specializing in audiobooks. Listen to this sample and analyze the audio quality:",
+  "noise floor (hiss, hum), sibilance, dynamic range and overall EQ balance.",
+].join('\n');
+
+// `instructions` replaces the brief; the settings list and answer rules always follow
+export const buildRecommendationPrompt = (config: AudioConfig, analysis: AudioAnalysis | null, instructions = ''): string => [
+  instructions.trim() || DEFAULT_INSTRUCTIONS,
+  "",
+  "Recommend changes to the mastering chain below. Only list settings that should change, use values inside the",
+  "given ranges, and give a one-sentence rationale for each.",
+  "",
+  "Current settings (key: value, range, meaning):",
+  ...RECOMMENDATION_KEYS.map(key => `${key}: ${config[key]} (${RANGES[key].min}..${RANGES[key].max}, step ${RANGES[key].step}) ${RANGES[key].label}`),
+  ...(analysis ? ["", "Measured:", describeAnalysis(analysis)] : []),
+].join('\n');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Model output to offered suggestions; one bad recommendation doesn't sink the others
+export const parseRecommendation = (text: string, config: AudioConfig): AiRecommendation => {
+  let response: unknown;
+  try {
+    response = JSON.parse(text);
+  } catch {
+    return { summary: '', suggestions: [], rejected: ['Response was not JSON'] };
+  }
+  if (!isRecord(response)) return { summary: '', suggestions: [], rejected: ['Response was not an object'] };
+
+  const summary = typeof response.summary === 'string' ? response.summary.trim() : '';
+  const items = Array.isArray(response.recommendations) ? response.recommendations : [];
+  const suggestions: AiSuggestion[] = [];
+  const rejected: string[] = [];
+  const seen = new Set<RecommendationKey>();
+
+  items.forEach((item, i) => {
+    if (!isRecord(item) || typeof item.key !== 'string') {
+      rejected.push(`recommendation ${i + 1}: missing setting`);
+      return;
+    }
+    const key = item.key as RecommendationKey;
+    if (!RECOMMENDATION_KEYS.includes(key)) {
+      rejected.push(`${item.key}: not an adjustable setting`);
+      return;
+    }
+    const { errors } = validateConfig({ [key]: item.value });
+    if (errors.length > 0) {
+      rejected.push(...errors);
+      return;
+    }
+    if (seen.has(key)) {
+      rejected.push(`${key}: recommended more than once`);
+      return;
+    }
+    seen.add(key);
+    const value = snap(key, item.value as number);
+    if (value === config[key]) return;
+    suggestions.push({
+      key,
+      label: RANGES[key].label,
+      current: config[key],
+      value,
+      reason: typeof item.rationale === 'string' ? item.rationale.trim() : '',
+    });
+  });
+
+  if (!Array.isArray(response.recommendations)) rejected.push('Response has no recommendation list');
+  return { summary, suggestions, rejected };
+};
+
+export const requestRecommendation = async (
+  client: ModelClient,
+  sample: AudioSample,
+  config: AudioConfig,
+  analysis: AudioAnalysis | null,
+  instructions = ''
+): Promise<AiRecommendation> => {
+  const text = await client.generateJson({
+    sample,
+    prompt: buildRecommendationPrompt(config, analysis, instructions),
+    schema: RECOMMENDATION_SCHEMA,
+  });
+  return parseRecommendation(text, config);
+};
@@ -0,0 +1,217 @@
+import { GoogleGenAI } from "@google/genai";
+import { decodeSegment } from './analysis';
+
+// --- AI PROVIDERS ---
+// One request/response contract for every model backend: a short audio sample and a
+// prompt in, JSON text following a given schema out. Gemini runs in the cloud; the
+// OpenAI-compatible backend talks to any chat-completions server (llama.cpp, a local
+// gateway, ...), so audio under NDA can stay on this machine.
+
+export interface AudioSample {
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface ModelRequest {
+  sample: AudioSample;
+  prompt: string;
+  schema: object; // JSON schema the response must follow
+}
+
+// Anything that can turn a sample and prompt into schema-shaped JSON text
+export interface ModelClient {
+  name: string;
+  generateJson: (request: ModelRequest) => Promise<string>;
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible';
+
+// Where in the book the sample is cut from
+export type SampleWindow = 'start' | 'middle' | 'custom';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  endpoint: string;      // Base URL for openai-compatible, e.g. http://localhost:8080/v1
+  apiKey: string;        // Blank: Gemini uses the build's key, local servers get none
+  sampleWindow: SampleWindow;
+  sampleStart: number;   // Seconds; 'custom' only
+  sampleSeconds: number;
+  instructions: string;  // Replaces the built-in engineering brief; blank keeps it
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, { label: string; model: string; endpoint: string }> = {
+  'gemini': { label: 'Google Gemini (cloud)', model: 'gemini-2.5-flash', endpoint: '' },
+  'openai-compatible': { label: 'OpenAI-compatible (local)', model: 'local-model', endpoint: 'http://localhost:8080/v1' },
+};
+
+export const SAMPLE_RANGE = { min: 10, max: 120, step: 5 };
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: AI_PROVIDERS.gemini.model,
+  endpoint: '',
+  apiKey: '',
+  sampleWindow: 'start',
+  sampleStart: 0,
+  sampleSeconds: 60,
+  instructions: '',
+};
+
+const STORAGE_KEY = 'audioforge.aiSettings';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    const settings = { ...DEFAULT_AI_SETTINGS, ...(typeof stored === 'object' && stored !== null ? stored : {}) };
+    return settings.provider in AI_PROVIDERS ? settings : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Switching provider resets the fields that only make sense for the old one
+export const withProvider = (settings: AiSettings, provider: AiProviderId): AiSettings => ({
+  ...settings,
+  provider,
+  model: AI_PROVIDERS[provider].model,
+  endpoint: AI_PROVIDERS[provider].endpoint,
+  apiKey: '',
+});
+
+// True when requests stay on this machine
+export const isLocalEndpoint = (endpoint: string): boolean => {
+  try {
+    const host = new URL(endpoint).hostname;
+    return host === 'localhost' || host === '[::1]' || host === '::1' || /^127\./.test(host);
+  } catch {
+    return false;
+  }
+};
+
+export const sendsAudioOffMachine = (settings: AiSettings) =>
+  settings.provider === 'gemini' || !isLocalEndpoint(settings.endpoint);
+
+// --- SAMPLE ---
+// The window is decoded and re-encoded as 16 kHz mono WAV: every backend accepts it,
+// it cuts on time rather than bytes, and a minute is under 2 MB.
+
+const SAMPLE_RATE = 16000;
+
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const samples = buffer.getChannelData(0);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Downmix and resample in one offline render
+const toSpeechRate = (input: AudioBuffer): Promise<AudioBuffer> => {
+  const OfflineCtor = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  const ctx: OfflineAudioContext = new OfflineCtor(1, Math.ceil(input.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = input;
+  source.connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+export const encodeSpeechWav = async (buffer: AudioBuffer): Promise<Blob> => encodeWav(await toSpeechRate(buffer));
+
+// The browser's own encoder; no per-byte string building
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).slice((reader.result as string).indexOf(',') + 1));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Start of the sample in seconds; 'middle' needs the source duration
+export const getSampleStart = (settings: AiSettings, duration: number | null): number => {
+  if (settings.sampleWindow === 'custom') return Math.max(0, settings.sampleStart);
+  if (settings.sampleWindow === 'middle' && duration) return Math.max(0, (duration - settings.sampleSeconds) / 2);
+  return 0;
+};
+
+export const prepareAudioSample = async (file: File, settings: AiSettings, duration: number | null): Promise<{ sample: AudioSample; start: number }> => {
+  const segment = await decodeSegment(file, getSampleStart(settings, duration), settings.sampleSeconds);
+  const wav = await encodeSpeechWav(segment.buffer);
+  return { sample: { mimeType: 'audio/wav', data: await blobToBase64(wav) }, start: segment.start };
+};
+
+// --- CLIENTS ---
+
+const createGeminiClient = (settings: AiSettings): ModelClient => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY || '' });
+  return {
+    name: settings.model,
+    generateJson: async ({ sample, prompt, schema }) => {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: [{ role: 'user', parts: [{ inlineData: sample }, { text: prompt }] }],
+        config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+      });
+      return response.text || '';
+    },
+  };
+};
+
+// Chat completions with an input_audio part and a json_schema response format
+const createOpenAiCompatibleClient = (settings: AiSettings): ModelClient => ({
+  name: `${settings.model} @ ${settings.endpoint}`,
+  generateJson: async ({ sample, prompt, schema }) => {
+    const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'input_audio', input_audio: { data: sample.data, format: sample.mimeType.split('/')[1] || 'wav' } },
+            { type: 'text', text: prompt },
+          ],
+        }],
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+      }),
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`);
+    const body = await response.json();
+    return body?.choices?.[0]?.message?.content || '';
+  },
+});
+
+export const createModelClient = (settings: AiSettings): ModelClient =>
+  settings.provider === 'openai-compatible' ? createOpenAiCompatibleClient(settings) : createGeminiClient(settings);
+
+// Canned answer for offline work and tests; the sample is ignored
+export const createMockClient = (response: unknown): ModelClient => ({
+  name: 'mock',
+  generateJson: async () => typeof response === 'string' ? response : JSON.stringify(response),
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeBuffer, analyzeFile } from './analysis';
+import { ACX_PROFILE, runCompliance } from './compliance';
+
+const DEVICE_RATE = 48000;
+
+interface Mp3Stream {
+  header: number[]; // Mono, no padding
+  size: number;
+  samples: number;
+  sampleRate: number;
+}
+
+// MPEG-1 layer III, 128 kbps, 44.1 kHz
+const CD_STREAM: Mp3Stream = { header: [0xff, 0xfb, 0x90, 0xc0], size: 417, samples: 1152, sampleRate: 44100 };
+// MPEG-2.5 layer III, 64 kbps, 8 kHz: long files that stay quick to analyse
+const LOW_STREAM: Mp3Stream = { header: [0xff, 0xe3, 0x88, 0xc0], size: 576, samples: 576, sampleRate: 8000 };
+const STREAMS = [CD_STREAM, LOW_STREAM];
+
+// Speech-like level changes over a 440 Hz tone, at sample n of a source running at `rate`
+const signal = (n: number, rate: number) => 0.3 * Math.sin(2 * Math.PI * 440 * n / rate) * (1 + 0.5 * Math.sin(2 * Math.PI * n / (rate * 7)));
+
+// Each frame carries its index after the header so the stand-in decoder knows what it holds
+const mp3Fixture = (stream: Mp3Stream, seconds: number): File => {
+  const frames = Math.ceil(seconds * stream.sampleRate / stream.samples);
+  const tag = new Uint8Array(2048);
+  tag.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0x0f, 0x76]); // ID3v2.4, 2038-byte body
+  const bytes = new Uint8Array(tag.length + frames * stream.size);
+  bytes.set(tag);
+  for (let i = 0; i < frames; i++) {
+    const pos = tag.length + i * stream.size;
+    bytes.set(stream.header, pos);
+    new DataView(bytes.buffer).setUint32(pos + 4, i);
+  }
+  return new File([bytes], 'book.mp3', { type: 'audio/mpeg' });
+};
+
+// `format` renames the fmt chunk, which hides the rate from everything but the stand-in decoder
+const wavFixture = (seconds: number, rate = 44100, format = 'fmt '): File => {
+  const length = seconds * rate;
+  const view = new DataView(new ArrayBuffer(44 + length * 2));
+  [...'RIFF'].forEach((ch, i) => view.setUint8(i, ch.charCodeAt(0)));
+  view.setUint32(4, 36 + length * 2, true);
+  [...`WAVE${format}`].forEach((ch, i) => view.setUint8(8 + i, ch.charCodeAt(0)));
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  [...'data'].forEach((ch, i) => view.setUint8(36 + i, ch.charCodeAt(0)));
+  view.setUint32(40, length * 2, true);
+  for (let n = 0; n < length; n++) view.setInt16(44 + n * 2, Math.round(signal(n, rate) * 32767), true);
+  return new File([view.buffer], 'book.wav', { type: 'audio/wav' });
+};
+
+const audioBuffer = (data: Float32Array, sampleRate: number) =>
+  ({ length: data.length, sampleRate, numberOfChannels: 1, duration: data.length / sampleRate, getChannelData: () => data }) as unknown as AudioBuffer;
+
+// Stands in for the browser decoder. The first MP3 frame of each call comes out silent, as a real
+// decoder has no bit reservoir for it, and everything is resampled to the context's rate.
+const decode = (data: ArrayBuffer, sampleRate: number): AudioBuffer => {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const source: number[] = [];
+  let sourceRate = 0;
+  if (String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF') {
+    sourceRate = view.getUint32(24, true);
+    for (let pos = 44; pos + 2 <= bytes.length; pos += 2) source.push(view.getInt16(pos, true) / 32767);
+  } else {
+    let first = true;
+    for (let pos = 0; pos + 8 <= bytes.length; pos++) {
+      const stream = STREAMS.find(s => s.header.every((b, i) => bytes[pos + i] === b));
+      if (!stream || pos + stream.size > bytes.length) continue;
+      const index = view.getUint32(pos + 4);
+      for (let k = 0; k < stream.samples; k++) source.push(first ? 0 : signal(index * stream.samples + k, stream.sampleRate));
+      sourceRate = stream.sampleRate;
+      first = false;
+      pos += stream.size - 1;
+    }
+  }
+  const out = new Float32Array(Math.round(source.length * sampleRate / sourceRate));
+  for (let i = 0; i < out.length; i++) out[i] = source[Math.floor(i * sourceRate / sampleRate)];
+  return audioBuffer(out, sampleRate);
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', {
+    OfflineAudioContext: class {
+      constructor(_channels: number, _length: number, private sampleRate: number) {}
+      decodeAudioData = async (data: ArrayBuffer) => decode(data, this.sampleRate);
+    },
+    AudioContext: class {
+      decodeAudioData = async (data: ArrayBuffer) => decode(data, DEVICE_RATE);
+      close = async () => undefined;
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('analyzeFile', () => {
+  it('analyses an MP3 at the rate in its frame headers, not the device rate', async () => {
+    const analysis = await analyzeFile(mp3Fixture(CD_STREAM, 10));
+    expect(analysis.sampleRate).toBe(44100);
+    expect(analysis.sourceRate).toBe(44100);
+    expect(analysis.duration).toBe(Math.ceil(10 * 44100 / 1152) * 1152 / 44100);
+  });
+
+  it('gives the same result in batches as decoding the whole MP3 at once', async () => {
+    // Three batches, read through more than one scan window
+    const file = mp3Fixture(LOW_STREAM, 150);
+    const progress: number[] = [];
+    const batched = await analyzeFile(file, f => progress.push(f));
+    expect(progress).toHaveLength(3);
+    expect(batched).toEqual({ ...analyzeBuffer(decode(await file.arrayBuffer(), 8000)), sourceRate: 8000 });
+  });
+
+  it('decodes a WAV at the rate in its header', async () => {
+    const analysis = await analyzeFile(wavFixture(2));
+    expect(analysis.sampleRate).toBe(44100);
+    expect(analysis.duration).toBe(2);
+  });
+});
+
+describe('ACX sample-rate rule', () => {
+  const sampleRateResult = async (file: File) => {
+    const report = runCompliance(ACX_PROFILE, [{ name: file.name, analysis: await analyzeFile(file) }]);
+    return report.files[0].results.find(r => r.ruleId === 'sample-rate')!;
+  };
+
+  it('passes a 44.1 kHz MP3 analysed on a 48 kHz device', async () => {
+    expect(await sampleRateResult(mp3Fixture(CD_STREAM, 2))).toMatchObject({ status: 'pass', detail: '44100 Hz' });
+  });
+
+  it('fails a source recorded at another rate', async () => {
+    expect(await sampleRateResult(wavFixture(2, 48000))).toMatchObject({ status: 'fail', detail: '48000 Hz (allowed 44100 Hz)' });
+  });
+
+  it('skips a source whose header gives no rate', async () => {
+    const file = wavFixture(2, 44100, 'fmt_');
+    expect((await analyzeFile(file)).sampleRate).toBe(DEVICE_RATE);
+    expect(await sampleRateResult(file)).toMatchObject({ status: 'skip' });
+  });
+});
@@ -0,0 +1,445 @@
+import { AudioAnalysis, Chapter, ChapterAnalysis } from './types';
+import { createLoudnessMeter, amplitudeToDb, PlanarAudio } from './loudness';
+import { createSpectrumAccumulator, FFT_SIZE } from './spectrum';
+import { createSectionAccumulator } from './sections';
+import { isMp4, readMoov, parseAudioTrack, iterateSamples, adtsHeader, Mp4AudioTrack, Mp4Sample } from './mp4';
+import { iterateFrames, readSampleRate, SyncFrame } from './headers';
+
+// --- SOURCE ANALYSIS ---
+// Everything here is incremental: decoded audio is pushed block by block and dropped,
+// so a multi-hour audiobook is analysed in constant memory.
+
+export interface AnalysisAccumulator {
+  push: (channels: Float32Array[]) => void;
+  finish: (isEst: boolean) => AudioAnalysis;
+}
+
+export type ProgressCallback = (fraction: number) => void;
+
+// Sees every decoded block on its way into the accumulator (e.g. to draw a waveform)
+export type BlockCallback = (channels: Float32Array[], sampleRate: number) => void;
+
+const NOISE_WINDOW = FFT_SIZE;   // Samples per RMS window for the noise floor estimate
+const NOISE_PERCENTILE = 0.1;    // Quietest 10% of windows
+const NOISE_HIST_MIN = -160;     // dB
+const NOISE_HIST_STEP = 0.1;
+const NOISE_HIST_BINS = 1600;
+const ROOM_TONE_THRESHOLD = -50; // dB RMS; quieter windows count as room tone at the edges
+const SPECTRUM_STRIDE = 8;       // Every 8th speech window feeds the long-term spectrum
+
+const BATCH_SECONDS = 60;        // Audio decoded per step in the streaming path
+const OVERLAP_FRAMES = 2;        // AAC/MP3 frames re-fed at each batch start to prime the decoder
+const AAC_FRAME_SAMPLES = 1024;
+const HEADER_PROBE_SIZE = 64 * 1024; // Bytes searched for a sample rate before a whole-file decode
+const FALLBACK_CHUNK_SIZE = 50 * 1024 * 1024; // Max bytes decoded for formats we can't split
+const BITRATE_PROBE_SIZE = 1024 * 1024; // Bytes decoded to estimate an MP3/ADTS byte rate
+
+const CHAPTER_LUFS_TOLERANCE = 3;  // LU from the median before a chapter is flagged
+const CHAPTER_NOISE_TOLERANCE = 6; // dB from the median noise floor
+const CHAPTER_MIN_SECONDS = 10;    // Shorter chapters (credits, stingers) aren't compared
+
+const round1 = (v: number) => parseFloat(v.toFixed(1));
+
+export const createAnalysisAccumulator = (sampleRate: number, channelCount: number, chapters: Chapter[] = [], withSpectrum = true): AnalysisAccumulator => {
+  const meter = createLoudnessMeter(sampleRate, channelCount);
+  const spectrum = withSpectrum ? createSpectrumAccumulator(sampleRate) : null;
+  const sections = withSpectrum ? createSectionAccumulator(sampleRate) : null;
+  const windowMono = new Float32Array(NOISE_WINDOW);
+  let speechWindows = 0;
+  const chapterRanges = chapters.map(chapter => ({
+    chapter,
+    start: Math.round(chapter.start * sampleRate),
+    end: Math.round(chapter.end * sampleRate),
+    acc: null as AnalysisAccumulator | null,
+  }));
+  const noiseHist = new Float64Array(NOISE_HIST_BINS);
+  let noiseWindows = 0;
+  let sumSquares = 0;
+  let totalSamples = 0;
+  let windowSum = 0;
+  let windowFill = 0;
+  let heardSpeech = false;
+  let leadingSamples = 0;
+  let trailingSamples = 0;
+
+  const closeWindow = () => {
+    const db = amplitudeToDb(Math.sqrt(windowSum / (windowFill * channelCount)));
+    const bin = Math.max(0, Math.min(NOISE_HIST_BINS - 1, Math.floor((db - NOISE_HIST_MIN) / NOISE_HIST_STEP)));
+    noiseHist[bin]++;
+    noiseWindows++;
+    sections?.push(windowMono, windowFill, db, db > ROOM_TONE_THRESHOLD);
+    if (db > ROOM_TONE_THRESHOLD) {
+      heardSpeech = true;
+      trailingSamples = 0;
+      if (spectrum && windowFill === NOISE_WINDOW && speechWindows++ % SPECTRUM_STRIDE === 0) spectrum.push(windowMono);
+    } else {
+      if (!heardSpeech) leadingSamples += windowFill;
+      trailingSamples += windowFill;
+    }
+    sumSquares += windowSum;
+    windowSum = 0;
+    windowFill = 0;
+  };
+
+  // Routes the part of each block that falls inside a chapter to that chapter's accumulator
+  const pushChapters = (channels: Float32Array[], length: number) => {
+    for (const range of chapterRanges) {
+      const from = Math.max(range.start, totalSamples);
+      const to = Math.min(range.end, totalSamples + length);
+      if (from >= to) continue;
+      if (!range.acc) range.acc = createAnalysisAccumulator(sampleRate, channelCount, [], false);
+      range.acc.push(channels.map(data => data.subarray(from - totalSamples, to - totalSamples)));
+    }
+  };
+
+  const push = (channels: Float32Array[]) => {
+    meter.push(channels);
+    const length = channels[0]?.length ?? 0;
+    pushChapters(channels, length);
+    for (let i = 0; i < length; i++) {
+      let mono = 0;
+      for (let c = 0; c < channelCount; c++) {
+        const val = (channels[c] ?? channels[0])[i];
+        windowSum += val * val;
+        mono += val;
+      }
+      windowMono[windowFill] = mono / channelCount;
+      windowFill++;
+      if (windowFill === NOISE_WINDOW) closeWindow();
+    }
+    totalSamples += length;
+  };
+
+  const noiseFloor = (): number => {
+    const target = noiseWindows * NOISE_PERCENTILE;
+    let seen = 0;
+    for (let i = 0; i < NOISE_HIST_BINS; i++) {
+      seen += noiseHist[i];
+      if (seen > target) return NOISE_HIST_MIN + i * NOISE_HIST_STEP;
+    }
+    return NOISE_HIST_MIN;
+  };
+
+  const finish = (isEst: boolean): AudioAnalysis => {
+    if (windowFill > 0) closeWindow();
+    const loudness = meter.finish();
+    const rms = Math.sqrt(sumSquares / Math.max(1, totalSamples * channelCount));
+    return {
+      estLufs: round1(amplitudeToDb(rms)),
+      peak: round1(loudness.samplePeak),
+      integratedLufs: round1(loudness.integrated),
+      shortTermMax: round1(loudness.shortTermMax),
+      momentaryMax: round1(loudness.momentaryMax),
+      lra: round1(loudness.lra),
+      truePeak: round1(loudness.truePeak),
+      noiseFloor: round1(noiseFloor()),
+      duration: totalSamples / sampleRate,
+      sampleRate,
+      channels: channelCount,
+      leadingSilence: leadingSamples / sampleRate,
+      trailingSilence: heardSpeech ? trailingSamples / sampleRate : 0,
+      isEst,
+      spectrum: spectrum?.finish(),
+      sections: sections?.finish(),
+      ...(chapterRanges.length > 0 && {
+        chapters: chapterRanges
+          .filter(range => range.acc)
+          .map(range => ({ chapter: range.chapter, analysis: range.acc!.finish(isEst) })),
+      }),
+    };
+  };
+
+  return { push, finish };
+};
+
+export const analyzeBuffer = (audio: PlanarAudio, isEst = false, chapters: Chapter[] = [], onBlock?: BlockCallback): AudioAnalysis => {
+  const acc = withTap(createAnalysisAccumulator(audio.sampleRate, audio.numberOfChannels, chapters), audio.sampleRate, onBlock);
+  acc.push(Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c)));
+  return acc.finish(isEst);
+};
+
+const withTap = (acc: AnalysisAccumulator, sampleRate: number, onBlock?: BlockCallback): AnalysisAccumulator =>
+  onBlock ? { push: channels => { acc.push(channels); onBlock(channels, sampleRate); }, finish: acc.finish } : acc;
+
+const planar = (buffer: AudioBuffer, skip = 0, end?: number): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).subarray(skip, end));
+
+// Decodes at a fixed rate so consecutive batches line up with the accumulator
+const decodeAt = (data: ArrayBuffer, sampleRate: number): Promise<AudioBuffer> => {
+  const OfflineCtor = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  const ctx: OfflineAudioContext = new OfflineCtor(1, 1, sampleRate);
+  return ctx.decodeAudioData(data);
+};
+
+const headerRate = (data: ArrayBuffer): number | null =>
+  readSampleRate(new Uint8Array(data, 0, Math.min(data.byteLength, HEADER_PROBE_SIZE)));
+
+// Decodes at the rate the WAV/FLAC/MP3/ADTS header declares; anything else (Ogg, ALAC)
+// goes through a realtime context and comes back at the device rate
+const decodeNative = async (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const sampleRate = headerRate(data);
+  if (sampleRate) return decodeAt(data, sampleRate);
+  const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioCtor();
+  try {
+    return await ctx.decodeAudioData(data);
+  } finally {
+    await ctx.close();
+  }
+};
+
+// Reads a run of samples and prefixes each one with an ADTS header
+const buildAdtsBatch = async (file: Blob, track: Mp4AudioTrack, samples: Mp4Sample[]): Promise<ArrayBuffer> => {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const contiguous = samples.every((s, i) => i === 0 || s.offset === samples[i - 1].offset + samples[i - 1].size);
+  const total = samples.reduce((n, s) => n + s.size + 7, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+
+  if (contiguous) {
+    const raw = new Uint8Array(await file.slice(first.offset, last.offset + last.size).arrayBuffer());
+    let rawPos = 0;
+    for (const s of samples) {
+      out.set(adtsHeader(track.aac!, s.size), pos);
+      out.set(raw.subarray(rawPos, rawPos + s.size), pos + 7);
+      rawPos += s.size;
+      pos += s.size + 7;
+    }
+  } else {
+    for (const s of samples) {
+      out.set(adtsHeader(track.aac!, s.size), pos);
+      out.set(new Uint8Array(await file.slice(s.offset, s.offset + s.size).arrayBuffer()), pos + 7);
+      pos += s.size + 7;
+    }
+  }
+  return out.buffer;
+};
+
+// M4B/MP4 AAC: walk the sample table and decode BATCH_SECONDS at a time as ADTS
+const analyzeMp4Aac = async (file: Blob, track: Mp4AudioTrack, chapters: Chapter[], onProgress?: ProgressCallback, onBlock?: BlockCallback): Promise<AudioAnalysis> => {
+  const aac = track.aac!;
+  const sampleRate = track.sampleRate;
+  const outputPerFrame = AAC_FRAME_SAMPLES * sampleRate / aac.sampleRate;
+  const framesPerBatch = Math.max(1, Math.round(BATCH_SECONDS * sampleRate / outputPerFrame));
+
+  let acc: AnalysisAccumulator | null = null;
+  let batch: Mp4Sample[] = [];
+  let overlap: Mp4Sample[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const decoded = await decodeAt(await buildAdtsBatch(file, track, [...overlap, ...batch]), sampleRate);
+    if (!acc) acc = withTap(createAnalysisAccumulator(sampleRate, decoded.numberOfChannels, chapters), sampleRate, onBlock);
+    const skip = Math.min(decoded.length, Math.round(overlap.length * outputPerFrame));
+    acc.push(planar(decoded, skip));
+    overlap = batch.slice(-OVERLAP_FRAMES);
+    onProgress?.((batch[batch.length - 1].index + 1) / track.sampleCount);
+    batch = [];
+  };
+
+  for (const sample of iterateSamples(track)) {
+    batch.push(sample);
+    if (batch.length >= framesPerBatch) await flush();
+  }
+  await flush();
+
+  if (!acc) throw new Error('No audio frames found in MP4 sample table');
+  return (acc as AnalysisAccumulator).finish(false);
+};
+
+// MP3 / ADTS: decode BATCH_SECONDS of whole frames at a time at the stream's own rate.
+// Each batch re-feeds the last OVERLAP_FRAMES of the one before (bit reservoir, filterbank
+// history) and drops what they decode to, so batches join without gaps or priming silence.
+const analyzeFrameSynced = async (file: Blob, chapters: Chapter[], onProgress?: ProgressCallback, onBlock?: BlockCallback): Promise<AudioAnalysis> => {
+  let acc: AnalysisAccumulator | null = null;
+  let sampleRate = 0;
+  let batch: SyncFrame[] = [];
+  let batchSamples = 0;
+  let overlap: SyncFrame[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const first = overlap[0] ?? batch[0];
+    const last = batch[batch.length - 1];
+    const decoded = await decodeAt(await file.slice(first.offset, last.offset + last.size).arrayBuffer(), sampleRate);
+    if (!acc) acc = withTap(createAnalysisAccumulator(sampleRate, decoded.numberOfChannels, chapters), sampleRate, onBlock);
+    const skip = Math.min(decoded.length, overlap.reduce((n, f) => n + f.samples, 0));
+    acc.push(planar(decoded, skip, skip + batchSamples));
+    overlap = batch.slice(-OVERLAP_FRAMES);
+    onProgress?.((last.offset + last.size) / file.size);
+    batch = [];
+    batchSamples = 0;
+  };
+
+  for await (const frame of iterateFrames(file)) {
+    if (!sampleRate) sampleRate = frame.sampleRate;
+    batch.push(frame);
+    batchSamples += frame.samples;
+    if (batchSamples >= BATCH_SECONDS * sampleRate) await flush();
+  }
+  await flush();
+
+  if (!acc) throw new Error('No MP3 or ADTS frames found');
+  return (acc as AnalysisAccumulator).finish(false);
+};
+
+// Marks the analysis (and each chapter's) as measured at the rate the source declares
+const withSourceRate = (analysis: AudioAnalysis, sourceRate: number | null): AudioAnalysis => sourceRate ? {
+  ...analysis,
+  sourceRate,
+  ...(analysis.chapters && { chapters: analysis.chapters.map(c => ({ ...c, analysis: { ...c.analysis, sourceRate } })) }),
+} : analysis;
+
+const isFrameSynced = (file: File | Blob): boolean => {
+  const name = 'name' in file ? file.name.toLowerCase() : '';
+  return /audio\/(mpeg|mp3|aac)/.test(file.type) || /\.(mp3|aac)$/.test(name);
+};
+
+/**
+ * Whole-file analysis with bounded memory. MP4/M4B AAC and MP3 are streamed in full;
+ * other formats decode whole if small enough, otherwise the first FALLBACK_CHUNK_SIZE
+ * bytes are analysed and the result is flagged as an estimate. When chapters are given,
+ * each one is also measured on its own.
+ */
+export const analyzeFile = async (file: File | Blob, onProgress?: ProgressCallback, chapters: Chapter[] = [], onBlock?: BlockCallback): Promise<AudioAnalysis> => {
+  if (await isMp4(file)) {
+    const moov = await readMoov(file);
+    if (!moov) throw new Error("MP4 'moov' atom not found");
+    const track = parseAudioTrack(moov);
+    if (!track) throw new Error('No audio track in MP4 container');
+    if (track.codec === 'mp4a' && track.aac && track.aac.samplingIndex < 15) {
+      return withSourceRate(await analyzeMp4Aac(file, track, chapters, onProgress, onBlock), track.sampleRate);
+    }
+  } else if (isFrameSynced(file)) {
+    const analysis = await analyzeFrameSynced(file, chapters, onProgress, onBlock);
+    return withSourceRate(analysis, analysis.sampleRate);
+  }
+
+  const isEst = file.size > FALLBACK_CHUNK_SIZE;
+  const data = await (isEst ? file.slice(0, FALLBACK_CHUNK_SIZE) : file).arrayBuffer();
+  const sourceRate = headerRate(data);
+  const decoded = await decodeNative(data);
+  onProgress?.(1);
+  return withSourceRate(analyzeBuffer(decoded, isEst, chapters, onBlock), sourceRate);
+};
+
+// --- PREVIEW SEGMENTS ---
+// Decodes only the window a test clip covers, so previews of long books start quickly.
+
+export interface DecodedSegment {
+  buffer: AudioBuffer;
+  start: number; // Seconds into the source where the buffer begins
+}
+
+// Copies out [start, start + duration), pulled back when the source ends early
+const sliceBuffer = (source: AudioBuffer, start: number, duration: number, sourceOffset = 0): DecodedSegment => {
+  const want = Math.round(duration * source.sampleRate);
+  const from = Math.max(0, Math.min(Math.round(start * source.sampleRate), source.length - want));
+  const length = Math.max(1, Math.min(want, source.length - from));
+  const out = new AudioBuffer({ length, numberOfChannels: source.numberOfChannels, sampleRate: source.sampleRate });
+  for (let c = 0; c < source.numberOfChannels; c++) {
+    out.copyToChannel(source.getChannelData(c).subarray(from, from + length), c);
+  }
+  return { buffer: out, start: sourceOffset + from / source.sampleRate };
+};
+
+const decodeMp4Segment = async (file: Blob, track: Mp4AudioTrack, start: number, duration: number): Promise<DecodedSegment> => {
+  const framesPerSecond = track.aac!.sampleRate / AAC_FRAME_SAMPLES;
+  const total = track.sampleCount / framesPerSecond;
+  const clamped = Math.max(0, Math.min(start, total - duration));
+  const primed = Math.max(0, Math.floor(clamped * framesPerSecond) - OVERLAP_FRAMES);
+  const end = Math.ceil((clamped + duration) * framesPerSecond) + 1;
+
+  const samples: Mp4Sample[] = [];
+  for (const sample of iterateSamples(track)) {
+    if (sample.index >= end) break;
+    if (sample.index >= primed) samples.push(sample);
+  }
+  if (samples.length === 0) throw new Error('Preview window is outside the audio track');
+
+  const decoded = await decodeAt(await buildAdtsBatch(file, track, samples), track.sampleRate);
+  const bufferStart = primed / framesPerSecond;
+  return sliceBuffer(decoded, clamped - bufferStart, duration, bufferStart);
+};
+
+// MP3 / ADTS: estimate the byte rate from the head of the file and slice around the window
+const decodeFrameSyncedSegment = async (file: Blob, start: number, duration: number): Promise<DecodedSegment> => {
+  const probe = await decodeNative(await file.slice(0, BITRATE_PROBE_SIZE).arrayBuffer());
+  if (file.size <= BITRATE_PROBE_SIZE) return sliceBuffer(probe, start, duration);
+
+  const bytesPerSecond = BITRATE_PROBE_SIZE / probe.duration;
+  const clamped = Math.max(0, Math.min(start, file.size / bytesPerSecond - duration));
+  const from = Math.floor(clamped * bytesPerSecond);
+  const to = Math.ceil((clamped + duration + 1) * bytesPerSecond);
+  const decoded = await decodeAt(await file.slice(from, to).arrayBuffer(), probe.sampleRate);
+  return sliceBuffer(decoded, 0, duration, clamped);
+};
+
+/**
+ * Decodes `duration` seconds starting at `start`. The window is moved back when the
+ * source is shorter than start + duration. MP3 positions are byte-rate estimates.
+ */
+export const decodeSegment = async (file: File | Blob, start: number, duration: number): Promise<DecodedSegment> => {
+  if (await isMp4(file)) {
+    const moov = await readMoov(file);
+    const track = moov ? parseAudioTrack(moov) : null;
+    if (track && track.codec === 'mp4a' && track.aac && track.aac.samplingIndex < 15) {
+      return decodeMp4Segment(file, track, start, duration);
+    }
+  } else if (isFrameSynced(file)) {
+    return decodeFrameSyncedSegment(file, start, duration);
+  }
+
+  const data = await (file.size > FALLBACK_CHUNK_SIZE ? file.slice(0, FALLBACK_CHUNK_SIZE) : file).arrayBuffer();
+  return sliceBuffer(await decodeNative(data), start, duration);
+};
+
+// Several short windows decoded and joined end to end, for clips cut from across the book
+export const decodeExcerpts = async (file: File | Blob, starts: number[], duration: number): Promise<DecodedSegment> => {
+  const parts = await Promise.all(starts.map(start => decodeSegment(file, start, duration)));
+  const { numberOfChannels, sampleRate } = parts[0].buffer;
+  const length = parts.reduce((sum, p) => sum + p.buffer.length, 0);
+  const out = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  let offset = 0;
+  for (const { buffer } of parts) {
+    for (let c = 0; c < numberOfChannels; c++) out.copyToChannel(buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1)), c, offset);
+    offset += buffer.length;
+  }
+  return { buffer: out, start: parts[0].start };
+};
+
+// --- CHAPTER CONSISTENCY ---
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Flags chapters whose loudness or noise floor stands out from the rest of the book,
+// which usually means a different recording session or room.
+export const findChapterOutliers = (chapters: ChapterAnalysis[]): Map<number, string> => {
+  const outliers = new Map<number, string>();
+  const compared = chapters
+    .map((c, index) => ({ ...c, index }))
+    .filter(c => c.chapter.end - c.chapter.start >= CHAPTER_MIN_SECONDS);
+  if (compared.length < 3) return outliers;
+
+  const lufsMedian = median(compared.map(c => c.analysis.integratedLufs));
+  const noiseMedian = median(compared.map(c => c.analysis.noiseFloor));
+
+  for (const c of compared) {
+    const reasons: string[] = [];
+    const lufsDelta = c.analysis.integratedLufs - lufsMedian;
+    const noiseDelta = c.analysis.noiseFloor - noiseMedian;
+    if (Math.abs(lufsDelta) > CHAPTER_LUFS_TOLERANCE) {
+      reasons.push(`${lufsDelta > 0 ? '+' : ''}${lufsDelta.toFixed(1)} LU vs book`);
+    }
+    if (Math.abs(noiseDelta) > CHAPTER_NOISE_TOLERANCE) {
+      reasons.push(`noise ${noiseDelta > 0 ? '+' : ''}${noiseDelta.toFixed(1)} dB vs book`);
+    }
+    if (reasons.length > 0) outliers.set(c.index, reasons.join(', '));
+  }
+  return outliers;
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalysis, DEFAULT_CONFIG, RANGES, SpectralProfile } from './types';
+import { snap, suggestConfig } from './autotune';
+
+const ANALYSIS: AudioAnalysis = {
+  estLufs: -22,
+  peak: -4,
+  integratedLufs: -21,
+  shortTermMax: -16,
+  momentaryMax: -14,
+  lra: 10,
+  truePeak: -3.5,
+  noiseFloor: -70,
+  duration: 3600,
+  sampleRate: 44100,
+  channels: 1,
+  leadingSilence: 0.8,
+  trailingSilence: 3,
+  isEst: false,
+};
+
+const THIRD_OCTAVES = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250,
+  1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000,
+];
+
+// Flat voice at -20 dB; rumble and sibilance bands sit the given dB relative to it
+const spectrum = (rumble: number, sibilance: number, sibilancePeak = 6300): SpectralProfile => ({
+  windows: 100,
+  bands: THIRD_OCTAVES.map(freq => ({
+    freq,
+    db: freq <= 63 ? -20 + rumble
+      : freq >= 4000 && freq <= 10000 ? -20 + sibilance + (freq === sibilancePeak ? 1 : 0)
+      : -20,
+  })),
+});
+
+const suggested = (analysis: Partial<AudioAnalysis>) => {
+  const { suggestions } = suggestConfig({ ...ANALYSIS, ...analysis }, DEFAULT_CONFIG);
+  return Object.fromEntries(suggestions.map(s => [s.key, s.value]));
+};
+
+describe('suggestConfig', () => {
+  it.each([
+    [-80, 0],
+    [-65, 0],
+    [-64, 0.1],
+    [-50, 0.5],
+    [-20, 0.8],
+  ])('sets noise reduction for a %s dB floor to %s', (noiseFloor, value) => {
+    expect(suggested({ noiseFloor }).noiseReduction).toBe(value);
+  });
+
+  it.each([
+    [3, 0.1],
+    [8, 0.2],
+    [14, 0.5],
+    [25, 0.8],
+  ])('sets compression for %s LU of loudness range to %s', (lra, value) => {
+    expect(suggested({ lra }).compressionAmount).toBe(value);
+  });
+
+  it('notes settings that are already where they should be', () => {
+    // 10 LU maps to 0.3, the default
+    const { suggestions, notes } = suggestConfig(ANALYSIS, DEFAULT_CONFIG);
+    expect(suggestions.map(s => s.key)).not.toContain('compressionAmount');
+    expect(notes).toContain('Compression Style already at 0.3.');
+  });
+
+  it('leaves highpass and de-esser alone without a spectrum', () => {
+    const { suggestions, notes } = suggestConfig(ANALYSIS, DEFAULT_CONFIG);
+    expect(suggestions.map(s => s.key)).toEqual(['noiseReduction']);
+    expect(notes).toContain('Highpass and de-esser need the source spectrum: run a Full Scan.');
+  });
+
+  it.each([
+    [-5, 120],
+    [-15, 100],
+    [-40, 60],
+  ])('sets the highpass for rumble %s dB under the voice to %s Hz', (rumble, value) => {
+    expect(suggested({ spectrum: spectrum(rumble, -25) }).highpassFreq).toBe(value);
+  });
+
+  it.each([
+    [-10, 0.7],
+    [-25, 0.3],
+    [-35, 0.1],
+  ])('sets the de-esser for sibilance %s dB under the voice to %s', (sibilance, value) => {
+    expect(suggested({ spectrum: spectrum(-25, sibilance) }).deesserAmount).toBe(value);
+  });
+
+  it('centres the de-esser on the loudest sibilant band in range', () => {
+    expect(suggested({ spectrum: spectrum(-25, -16, 5000) }).deesserFreq).toBe(5000);
+    // 10 kHz is past the de-esser's range, so the flat bands below it tie and the first wins
+    expect(suggested({ spectrum: spectrum(-25, -16, 10000) }).deesserFreq).toBe(4000);
+  });
+
+  it('reports each suggestion against the current value with a reason', () => {
+    const { suggestions } = suggestConfig({ ...ANALYSIS, noiseFloor: -50, spectrum: spectrum(-5, -10) }, DEFAULT_CONFIG);
+    const noise = suggestions.find(s => s.key === 'noiseReduction')!;
+    expect(noise).toEqual({
+      key: 'noiseReduction',
+      label: 'Noise Reduction',
+      current: 0.2,
+      value: 0.5,
+      reason: 'Noise floor -50.0 dB: 20 dB of reduction brings room tone down without smearing speech.',
+    });
+    suggestions.forEach(s => {
+      expect(s.value).toBe(snap(s.key, s.value));
+      expect(s.reason).not.toBe('');
+    });
+  });
+
+  it('gives the same answer for the same analysis', () => {
+    const analysis = { ...ANALYSIS, noiseFloor: -48.7, lra: 13.2, spectrum: spectrum(-18, -14) };
+    expect(suggestConfig(analysis, DEFAULT_CONFIG)).toEqual(suggestConfig(structuredClone(analysis), DEFAULT_CONFIG));
+  });
+
+  it('stays inside RANGES for extreme measurements', () => {
+    const { suggestions } = suggestConfig({ ...ANALYSIS, noiseFloor: 0, lra: 80, spectrum: spectrum(30, 30) }, DEFAULT_CONFIG);
+    suggestions.forEach(s => {
+      expect(s.value).toBeGreaterThanOrEqual(RANGES[s.key].min);
+      expect(s.value).toBeLessThanOrEqual(RANGES[s.key].max);
+    });
+  });
+});
+
+describe('snap', () => {
+  it('clamps to the range and rounds to the step', () => {
+    expect(snap('highpassFreq', 93)).toBe(95);
+    expect(snap('highpassFreq', 5)).toBe(20);
+    expect(snap('loudnormTp', 0)).toBe(-0.1);
+    expect(snap('noiseReduction', 0.33)).toBe(0.35);
+  });
+});
@@ -0,0 +1,103 @@
+import { AudioAnalysis, AudioConfig, RANGES } from './types';
+import { bandLevel } from './spectrum';
+import { getNoiseReductionParams } from './filtergraph';
+
+// --- AUTO TUNE ---
+// Deterministic settings from measured analysis: the same analysis always gives the
+// same suggestions. Spectral suggestions need the long-term spectrum of a full scan.
+
+export type AutoTuneKey = 'noiseReduction' | 'highpassFreq' | 'deesserFreq' | 'deesserAmount' | 'compressionAmount';
+
+export interface AutoTuneSuggestion {
+  key: AutoTuneKey;
+  label: string;
+  current: number;
+  value: number;
+  reason: string;
+}
+
+export interface AutoTuneResult {
+  suggestions: AutoTuneSuggestion[]; // Only settings that would change
+  notes: string[];                   // Settings left alone, and why
+}
+
+const CLEAN_FLOOR = -65;      // dB; quieter rooms get no noise reduction
+const SPEECH_BAND = [250, 2000];
+const RUMBLE_BAND = [20, 63];
+const SIBILANCE_BAND = [4000, 10000];
+
+// Relative rumble (dB vs. speech band) -> highpass corner, checked top down
+const HIGHPASS_STEPS: [number, number][] = [[-10, 120], [-20, 100], [-30, 80], [-Infinity, 60]];
+// Relative sibilance -> de-esser strength
+const DEESSER_STEPS: [number, number][] = [[-12, 0.7], [-20, 0.5], [-28, 0.3], [-Infinity, 0.1]];
+// Loudness range (LU) -> compression, checked bottom up
+const COMPRESSION_STEPS: [number, number][] = [[5, 0.1], [8, 0.2], [12, 0.3], [16, 0.5], [20, 0.6], [Infinity, 0.8]];
+
+// Onto the slider grid
+export const snap = (key: keyof typeof RANGES, value: number): number => {
+  const { min, max, step } = RANGES[key];
+  const snapped = Math.round((Math.min(max, Math.max(min, value)) - min) / step) * step + min;
+  return parseFloat(snapped.toFixed(3));
+};
+
+const stepAbove = (steps: [number, number][], level: number) => steps.find(([threshold]) => level >= threshold)![1];
+const stepBelow = (steps: [number, number][], level: number) => steps.find(([threshold]) => level <= threshold)![1];
+
+const fmt = (db: number) => db.toFixed(1);
+
+export const suggestConfig = (analysis: AudioAnalysis, config: AudioConfig): AutoTuneResult => {
+  const proposals: Omit<AutoTuneSuggestion, 'label' | 'current'>[] = [];
+  const notes: string[] = [];
+
+  // Noise reduction: afftdn's floor tracks the measured one
+  const floor = analysis.noiseFloor;
+  if (floor <= CLEAN_FLOOR) {
+    proposals.push({ key: 'noiseReduction', value: 0, reason: `Noise floor ${fmt(floor)} dB is below ${CLEAN_FLOOR} dB; the room is clean enough to leave untouched.` });
+  } else {
+    const value = snap('noiseReduction', Math.min(0.8, Math.max(0.1, (floor - CLEAN_FLOOR) / 30)));
+    const { nr } = getNoiseReductionParams({ ...config, noiseReduction: value });
+    proposals.push({ key: 'noiseReduction', value, reason: `Noise floor ${fmt(floor)} dB: ${nr} dB of reduction brings room tone down without smearing speech.` });
+  }
+
+  // Compression from how much the loudness moves
+  proposals.push({
+    key: 'compressionAmount',
+    value: snap('compressionAmount', stepBelow(COMPRESSION_STEPS, analysis.lra)),
+    reason: `Loudness range ${fmt(analysis.lra)} LU: ${analysis.lra > 12 ? 'levels swing widely and need evening out' : analysis.lra > 8 ? 'typical narration dynamics' : 'already consistent, so compression stays light'}.`,
+  });
+
+  const spectrum = analysis.spectrum;
+  if (!spectrum) {
+    notes.push('Highpass and de-esser need the source spectrum: run a Full Scan.');
+  } else {
+    const speech = bandLevel(spectrum, SPEECH_BAND[0], SPEECH_BAND[1]);
+
+    const rumble = bandLevel(spectrum, RUMBLE_BAND[0], RUMBLE_BAND[1]) - speech;
+    const highpass = stepAbove(HIGHPASS_STEPS, rumble);
+    proposals.push({
+      key: 'highpassFreq',
+      value: snap('highpassFreq', highpass),
+      reason: `Energy below 63 Hz sits ${fmt(rumble)} dB relative to the voice: ${highpass >= 100 ? 'rumble is prominent' : highpass === 80 ? 'some rumble' : 'little rumble, so the cutoff stays low to keep warmth'}.`,
+    });
+
+    const sibilantBands = spectrum.bands.filter(b => b.freq >= RANGES.deesserFreq.min && b.freq <= RANGES.deesserFreq.max);
+    if (sibilantBands.length > 0) {
+      const peak = sibilantBands.reduce((best, b) => b.db > best.db ? b : best);
+      proposals.push({ key: 'deesserFreq', value: snap('deesserFreq', peak.freq), reason: `Sibilance peaks in the ${peak.freq} Hz band.` });
+    }
+
+    const sibilance = bandLevel(spectrum, SIBILANCE_BAND[0], SIBILANCE_BAND[1]) - speech;
+    proposals.push({
+      key: 'deesserAmount',
+      value: snap('deesserAmount', stepAbove(DEESSER_STEPS, sibilance)),
+      reason: `4-10 kHz energy is ${fmt(sibilance)} dB relative to the voice: ${sibilance >= -12 ? 'harsh' : sibilance >= -20 ? 'noticeable' : 'mild'} sibilance.`,
+    });
+  }
+
+  const suggestions: AutoTuneSuggestion[] = [];
+  proposals.forEach(p => {
+    if (p.value === config[p.key]) notes.push(`${RANGES[p.key].label} already at ${p.value}.`);
+    else suggestions.push({ ...p, label: RANGES[p.key].label, current: config[p.key] });
+  });
+  return { suggestions, notes };
+};
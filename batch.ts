@@ -0,0 +1,122 @@
+import { AudioConfig, BatchItem, OutputFormat, ScriptOptions } from './types';
+import { generateMasteringSteps } from './utils';
+import { quoteBash, quoteBashPath, toCommentText } from './shell';
+import { OUTPUT_FORMAT_SPECS } from './formats';
+
+// --- BATCH MASTERING ---
+// One orchestrating bash script for a whole series: every file runs the full-mode
+// chain (with its own overrides) in a subshell with its own log. Finished outputs are
+// recorded in a state file so a re-run resumes after the last failure, and a summary
+// table closes the run.
+
+export interface BatchJob {
+  name: string;       // Display name, e.g. the source file name
+  inputPath: string;
+  outputPath: string;
+  config: AudioConfig;
+}
+
+const AUDIO_EXTENSIONS = /\.(m4b|m4a|mp4|aac|mp3|wav|flac|ogg|opus)$/i;
+
+export const isAudioPath = (path: string) => AUDIO_EXTENSIONS.test(path);
+
+export const joinPath = (dir: string, name: string) => {
+  const separator = dir.includes('\\') ? '\\' : '/';
+  return /[/\\]$/.test(dir) ? `${dir}${name}` : `${dir}${separator}${name}`;
+};
+
+// Pasted `ls -1` / `find` output: one path per line; relative names resolve against `baseDir`
+export const parseFolderListing = (text: string, baseDir: string): string[] =>
+  text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && isAudioPath(line))
+    .map(line => /^([/~]|[A-Za-z]:\\)/.test(line) ? line : joinPath(baseDir, line.replace(/^\.\//, '')));
+
+export const getBatchOutputPath = (outputDir: string, inputPath: string, version: number, format: OutputFormat) => {
+  const baseName = (inputPath.split(/[/\\]/).pop() || 'audiobook').replace(/\.[^/.]+$/, '');
+  return joinPath(outputDir, `${baseName}_v${version}-processed.${OUTPUT_FORMAT_SPECS[format].extension}`);
+};
+
+export const resolveItemConfig = (config: AudioConfig, item: BatchItem): AudioConfig => ({ ...config, ...item.overrides });
+
+export const generateBatchScript = (jobs: BatchJob[], outputDir: string, options: ScriptOptions = {}): string => {
+  const pad = (i: number) => String(i + 1).padStart(3, '0');
+
+  const functions = jobs.map((job, i) => {
+    const { title, script } = generateMasteringSteps(job.config, job.inputPath, 'full', job.outputPath, options);
+    return `# --- FILE ${i + 1}/${jobs.length}: ${toCommentText(job.name)} (${title}) ---
+process_${pad(i)}() {
+${script}}`;
+  }).join('\n\n');
+
+  const runs = jobs.map((job, i) =>
+    `run_item ${pad(i)} ${quoteBash(job.name)} ${quoteBashPath(job.outputPath)} process_${pad(i)}`
+  ).join('\n');
+
+  return `#!/bin/bash
+# VOICE ENHANCEMENT STUDIO - BATCH MASTERING SCRIPT (${jobs.length} files)
+# Re-run after a failure to resume: outputs recorded in the state file are skipped.
+
+OUTPUT_DIR=${quoteBashPath(outputDir)}
+LOG_DIR="$OUTPUT_DIR/batch_logs"
+STATE_FILE="$LOG_DIR/batch_state.tsv"
+TOTAL=${jobs.length}
+mkdir -p "$LOG_DIR"
+touch "$STATE_FILE"
+
+RESULTS=()
+FAILED=0
+
+${functions}
+
+# Runs one file in a subshell, logging to its own file; success needs a clean exit (a failed
+# verification exits non-zero) and a readable output
+run_item() {
+  local INDEX="$1" NAME="$2" OUT="$3" STEP="$4"
+  local LOG="$LOG_DIR/\${INDEX}.log"
+
+  if grep -qxF "$(printf 'done\\t%s' "$OUT")" "$STATE_FILE" && [ -s "$OUT" ]; then
+    echo ">> ⏭️ [$INDEX/$TOTAL] $NAME (already done)"
+    RESULTS+=("$INDEX|$NAME|SKIPPED|-")
+    return
+  fi
+
+  echo ">> 🎧 [$INDEX/$TOTAL] $NAME"
+  echo "   ...log: $LOG"
+  # Anything left from an interrupted run is incomplete
+  rm -f "$OUT"
+  local STARTED=$(date +%s)
+  ( "$STEP" ) > "$LOG" 2>&1
+  local CODE=$?
+  local ELAPSED=$(( $(date +%s) - STARTED ))
+  local LENGTH=$(ffprobe -v error -show_entries format=duration -of csv=p=0 "$OUT" 2>/dev/null)
+
+  if [ "$CODE" -eq 0 ] && [ -n "$LENGTH" ]; then
+    printf 'done\\t%s\\n' "$OUT" >> "$STATE_FILE"
+    RESULTS+=("$INDEX|$NAME|OK|\${ELAPSED}s")
+  else
+    FAILED=$((FAILED+1))
+    RESULTS+=("$INDEX|$NAME|FAILED|\${ELAPSED}s")
+    echo "   ...FAILED, last log lines:"
+    tail -n 5 "$LOG" | sed 's/^/      /'
+  fi
+}
+
+${runs}
+
+echo ">> 📋 BATCH SUMMARY"
+{
+  printf '%-4s %-48s %-8s %8s\\n' '#' 'FILE' 'STATUS' 'TIME'
+  for ROW in "\${RESULTS[@]}"; do
+    IFS='|' read -r INDEX NAME STATUS ELAPSED <<< "$ROW"
+    printf '%-4s %-48.48s %-8s %8s\\n' "$INDEX" "$NAME" "$STATUS" "$ELAPSED"
+  done
+} | tee "$LOG_DIR/summary.txt"
+
+if [ "$FAILED" -gt 0 ]; then
+  echo ">> ❌ $FAILED of $TOTAL FAILED. Fix and re-run this script to resume."
+  exit 1
+fi
+echo ">> ✅ BATCH COMPLETE: $TOTAL files in $OUTPUT_DIR"
+`;
+};
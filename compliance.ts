@@ -0,0 +1,200 @@
+import { AudioAnalysis } from './types';
+
+// --- DISTRIBUTOR COMPLIANCE ---
+// A profile is an ordered list of rules. Each rule inspects one delivery file and may
+// compare it against the rest of the set (for consistency checks). New distributors are
+// added by appending a profile to COMPLIANCE_PROFILES.
+
+export type RuleStatus = 'pass' | 'fail' | 'skip';
+
+export interface ComplianceFile {
+  name: string;
+  analysis: AudioAnalysis;
+  bitrate?: number; // kbps, when known
+}
+
+export interface RuleOutcome {
+  status: RuleStatus;
+  detail: string;
+}
+
+export interface ComplianceRule {
+  id: string;
+  label: string;
+  requirement: string;
+  check: (file: ComplianceFile, set: ComplianceFile[]) => RuleOutcome;
+}
+
+export interface ComplianceProfile {
+  id: string;
+  name: string;
+  rules: ComplianceRule[];
+}
+
+export interface RuleResult extends RuleOutcome {
+  ruleId: string;
+  label: string;
+  requirement: string;
+}
+
+export interface FileReport {
+  name: string;
+  passed: boolean;
+  results: RuleResult[];
+}
+
+export interface ComplianceReport {
+  version: 1;
+  profileId: string;
+  profileName: string;
+  generatedAt: string;
+  passed: boolean;
+  files: FileReport[];
+}
+
+// --- RULE BUILDERS ---
+
+const pass = (detail: string): RuleOutcome => ({ status: 'pass', detail });
+const fail = (detail: string): RuleOutcome => ({ status: 'fail', detail });
+const skip = (detail: string): RuleOutcome => ({ status: 'skip', detail });
+
+export const rangeRule = (
+  id: string,
+  label: string,
+  read: (file: ComplianceFile) => number | undefined,
+  min: number,
+  max: number,
+  unit: string
+): ComplianceRule => {
+  const requirement =
+    min === -Infinity ? `≤ ${max} ${unit}` :
+    max === Infinity ? `≥ ${min} ${unit}` :
+    `${min} to ${max} ${unit}`;
+  return {
+    id,
+    label,
+    requirement,
+    check: (file) => {
+      const value = read(file);
+      if (value === undefined || Number.isNaN(value)) return skip('Not measured');
+      const shown = `${parseFloat(value.toFixed(2))} ${unit}`;
+      return value >= min && value <= max ? pass(shown) : fail(`${shown} (required ${requirement})`);
+    },
+  };
+};
+
+// Passes when every file in the set reports the same value
+export const consistencyRule = (
+  id: string,
+  label: string,
+  read: (file: ComplianceFile) => number | undefined,
+  unit: string,
+  allowed?: number[]
+): ComplianceRule => ({
+  id,
+  label,
+  requirement: allowed ? `Same across files, one of ${allowed.join('/')} ${unit}` : 'Same across files',
+  check: (file, set) => {
+    const value = read(file);
+    if (value === undefined) return skip('Not measured');
+    if (allowed && !allowed.includes(value)) return fail(`${value} ${unit} (allowed ${allowed.join('/')} ${unit})`);
+    const others = Array.from(new Set(set.map(read).filter((v): v is number => v !== undefined)));
+    return others.length <= 1 ? pass(`${value} ${unit}`) : fail(`${value} ${unit}; set mixes ${others.join(', ')} ${unit}`);
+  },
+});
+
+// --- PROFILES ---
+
+const bitrateConsistency = consistencyRule('bitrate', 'Bitrate', f => f.bitrate, 'kbps');
+const sampleRateConsistency = consistencyRule('sample-rate', 'Sample Rate', f => f.analysis.sourceRate, 'Hz', [44100]);
+
+export const ACX_PROFILE: ComplianceProfile = {
+  id: 'acx',
+  name: 'ACX / Audible',
+  rules: [
+    rangeRule('rms', 'RMS Level', f => f.analysis.estLufs, -23, -18, 'dB'),
+    rangeRule('peak', 'Peak Level', f => Math.max(f.analysis.peak, f.analysis.truePeak), -Infinity, -3, 'dB'),
+    rangeRule('noise-floor', 'Noise Floor', f => f.analysis.noiseFloor, -Infinity, -60, 'dB'),
+    {
+      ...sampleRateConsistency,
+      // The decoded rate is the device's when the header couldn't be read, so it proves nothing
+      check: (file, set) => file.analysis.sourceRate === undefined
+        ? skip('Unknown for this source; split export encodes 44100 Hz')
+        : sampleRateConsistency.check(file, set),
+    },
+    {
+      id: 'bitrate',
+      label: 'Bitrate',
+      requirement: '≥ 192 kbps CBR, same across files',
+      check: (file, set) => {
+        if (file.bitrate === undefined) return skip('Unknown for this source; split export encodes 192 kbps CBR');
+        if (file.bitrate < 192) return fail(`${file.bitrate} kbps (required ≥ 192 kbps)`);
+        return bitrateConsistency.check(file, set);
+      },
+    },
+    consistencyRule('channels', 'Mono/Stereo', f => f.analysis.channels, 'ch'),
+    rangeRule('head-room-tone', 'Head Room Tone', f => f.analysis.leadingSilence, 0.5, 1, 's'),
+    rangeRule('tail-room-tone', 'Tail Room Tone', f => f.analysis.trailingSilence, 1, 5, 's'),
+    rangeRule('max-length', 'File Length', f => f.analysis.duration / 60, 0, 120, 'min'),
+  ],
+};
+
+export const COMPLIANCE_PROFILES: ComplianceProfile[] = [ACX_PROFILE];
+
+// --- REPORTING ---
+
+export const runCompliance = (profile: ComplianceProfile, files: ComplianceFile[]): ComplianceReport => {
+  const reports = files.map(file => {
+    const results = profile.rules.map(rule => ({
+      ruleId: rule.id,
+      label: rule.label,
+      requirement: rule.requirement,
+      ...rule.check(file, files),
+    }));
+    return { name: file.name, passed: results.every(r => r.status !== 'fail'), results };
+  });
+
+  return {
+    version: 1,
+    profileId: profile.id,
+    profileName: profile.name,
+    generatedAt: new Date().toISOString(),
+    passed: reports.length > 0 && reports.every(r => r.passed),
+    files: reports,
+  };
+};
+
+export const complianceReportToJson = (report: ComplianceReport): string => JSON.stringify(report, null, 2);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export const complianceReportToHtml = (report: ComplianceReport): string => {
+  const color = { pass: '#15803d', fail: '#b91c1c', skip: '#6b7280' };
+  const sections = report.files.map(file => `
+  <h2>${escapeHtml(file.name)} — ${file.passed ? 'PASS' : 'FAIL'}</h2>
+  <table>
+    <tr><th>Check</th><th>Requirement</th><th>Result</th><th>Measured</th></tr>
+${file.results.map(r => `    <tr><td>${escapeHtml(r.label)}</td><td>${escapeHtml(r.requirement)}</td><td style="color:${color[r.status]};font-weight:bold">${r.status.toUpperCase()}</td><td>${escapeHtml(r.detail)}</td></tr>`).join('\n')}
+  </table>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(report.profileName)} Compliance Report</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; color: #111; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; font-size: 13px; }
+    th { background: #f3f4f6; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(report.profileName)} Compliance Report — ${report.passed ? 'PASS' : 'FAIL'}</h1>
+  <p>Generated ${escapeHtml(report.generatedAt)} · ${report.files.length} file(s)</p>
+${sections}
+</body>
+</html>
+`;
+};
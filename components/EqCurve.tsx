@@ -0,0 +1,116 @@
+import React, { useState, useRef } from 'react';
+import { EqBand, EQ_RANGES, MAX_EQ_BANDS } from '../types';
+import { bandGain, eqResponse, logFrequencies } from '../eq';
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const DB_SPAN = 15; // Visible ±dB
+const F_MIN = EQ_RANGES.freq.min;
+const F_MAX = EQ_RANGES.freq.max;
+const CURVE_POINTS = 200;
+const FREQ_GRID = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const GAIN_GRID = [-12, -6, 0, 6, 12];
+
+const freqToX = (f: number) => WIDTH * Math.log(f / F_MIN) / Math.log(F_MAX / F_MIN);
+const xToFreq = (x: number) => F_MIN * Math.pow(F_MAX / F_MIN, x / WIDTH);
+const gainToY = (g: number) => HEIGHT / 2 - Math.max(-DB_SPAN, Math.min(DB_SPAN, g)) * (HEIGHT / 2) / DB_SPAN;
+const yToGain = (y: number) => (HEIGHT / 2 - y) * DB_SPAN / (HEIGHT / 2);
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+// Frequency response of the EQ bands. Drag a handle to move frequency/gain; double-click to add a band.
+export const EqCurve: React.FC<{
+  bands: EqBand[];
+  selected: number | null;
+  highpassFreq: number;
+  lowpassFreq: number;
+  onChange: (bands: EqBand[]) => void;
+  onSelect: (index: number | null) => void;
+}> = ({ bands, selected, highpassFreq, lowpassFreq, onChange, onSelect }) => {
+  const [dragging, setDragging] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const freqs = logFrequencies(CURVE_POINTS, F_MIN, F_MAX);
+  const response = eqResponse(bands, freqs);
+  const path = freqs.map((f, i) => `${i === 0 ? 'M' : 'L'}${freqToX(f).toFixed(1)},${gainToY(response[i]).toFixed(1)}`).join(' ');
+
+  // Pointer position in viewBox units
+  const toSvg = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width * WIDTH, 0, WIDTH),
+      y: clamp((e.clientY - rect.top) / rect.height * HEIGHT, 0, HEIGHT),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging === null) return;
+    const { x, y } = toSvg(e);
+    const band = bands[dragging];
+    const next: EqBand = {
+      ...band,
+      freq: Math.round(clamp(xToFreq(x), F_MIN, F_MAX)),
+      gain: band.type === 'notch' ? band.gain : clamp(Math.round(yToGain(y) * 2) / 2, EQ_RANGES.gain.min, EQ_RANGES.gain.max),
+    };
+    onChange(bands.map((b, i) => i === dragging ? next : b));
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (bands.length >= MAX_EQ_BANDS) return;
+    const { x } = toSvg(e);
+    onChange([...bands, { type: 'peaking', freq: Math.round(xToFreq(x)), gain: 0, q: 1 }]);
+    onSelect(bands.length);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-44 bg-black border border-gray-800 select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerLeave={() => setDragging(null)}
+      onDoubleClick={handleDoubleClick}
+    >
+      {FREQ_GRID.map(f => (
+        <g key={f}>
+          <line x1={freqToX(f)} x2={freqToX(f)} y1={0} y2={HEIGHT} stroke="#1f2937" strokeWidth={1} />
+          <text x={freqToX(f) + 2} y={HEIGHT - 4} fill="#4b5563" fontSize={9} fontFamily="monospace">{f >= 1000 ? `${f / 1000}k` : f}</text>
+        </g>
+      ))}
+      {GAIN_GRID.map(g => (
+        <g key={g}>
+          <line x1={0} x2={WIDTH} y1={gainToY(g)} y2={gainToY(g)} stroke={g === 0 ? '#374151' : '#111827'} strokeWidth={1} />
+          <text x={2} y={gainToY(g) - 2} fill="#4b5563" fontSize={9} fontFamily="monospace">{g > 0 ? `+${g}` : g}</text>
+        </g>
+      ))}
+
+      {/* Highpass / lowpass corners for reference */}
+      <rect x={0} y={0} width={freqToX(highpassFreq)} height={HEIGHT} fill="#06b6d4" opacity={0.06} />
+      <rect x={freqToX(lowpassFreq)} y={0} width={WIDTH - freqToX(lowpassFreq)} height={HEIGHT} fill="#06b6d4" opacity={0.06} />
+
+      <path d={path} fill="none" stroke="#00ff41" strokeWidth={2} />
+
+      {bands.map((band, i) => (
+        <g key={i}>
+          <circle
+            cx={freqToX(band.freq)}
+            cy={gainToY(bandGain(band))}
+            r={selected === i ? 8 : 6}
+            fill={selected === i ? '#00ff41' : '#000'}
+            stroke="#00ff41"
+            strokeWidth={2}
+            className="cursor-move"
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              svgRef.current?.setPointerCapture(e.pointerId);
+              setDragging(i);
+              onSelect(i);
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+          />
+          <text x={freqToX(band.freq)} y={gainToY(bandGain(band)) - 11} fill="#9ca3af" fontSize={9} fontFamily="monospace" textAnchor="middle">{i + 1}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Square } from 'lucide-react';
+import { formatTimestamp } from '../utils';
+
+type Side = 'A' | 'B';
+
+interface Voice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+// Loops the original (A) and processed (B) clips in lockstep; the toggle crossfades between them
+export const PreviewPlayer: React.FC<{
+  original: AudioBuffer;
+  processed: AudioBuffer | null;
+  start: number; // Seconds into the source where the clip begins
+  isRendering: boolean;
+}> = ({ original, processed, start, isRendering }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [side, setSide] = useState<Side>('B');
+  const [position, setPosition] = useState(0);
+  const ctxRef = useRef<AudioContext | null>(null);
+  const voicesRef = useRef<Partial<Record<Side, Voice>>>({});
+  const startedAtRef = useRef(0);
+  const offsetRef = useRef(0);
+
+  const currentPosition = () => {
+    const ctx = ctxRef.current;
+    if (!ctx || !isPlaying) return offsetRef.current;
+    return (ctx.currentTime - startedAtRef.current) % original.duration;
+  };
+
+  const stopVoices = () => {
+    (Object.values(voicesRef.current) as Voice[]).forEach(v => {
+      v.source.stop();
+      v.source.disconnect();
+      v.gain.disconnect();
+    });
+    voicesRef.current = {};
+  };
+
+  const startVoices = (offset: number) => {
+    if (!ctxRef.current) {
+      const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
+      ctxRef.current = new AudioCtor();
+    }
+    const ctx = ctxRef.current!;
+    const buffers: Partial<Record<Side, AudioBuffer>> = { A: original, ...(processed ? { B: processed } : {}) };
+    const audible: Side = processed ? side : 'A';
+
+    (Object.keys(buffers) as Side[]).forEach(key => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffers[key]!;
+      source.loop = true;
+      const gain = ctx.createGain();
+      gain.gain.value = key === audible ? 1 : 0;
+      source.connect(gain).connect(ctx.destination);
+      source.start(0, offset);
+      voicesRef.current[key] = { source, gain };
+    });
+    startedAtRef.current = ctx.currentTime - offset;
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      offsetRef.current = currentPosition();
+      stopVoices();
+      setIsPlaying(false);
+    } else {
+      startVoices(offsetRef.current);
+      setIsPlaying(true);
+    }
+  };
+
+  const switchSide = (next: Side) => {
+    setSide(next);
+    const ctx = ctxRef.current;
+    if (!ctx) return;
+    // Short crossfade so the switch doesn't click
+    (['A', 'B'] as Side[]).forEach(key => {
+      voicesRef.current[key]?.gain.gain.setTargetAtTime(key === next ? 1 : 0, ctx.currentTime, 0.01);
+    });
+  };
+
+  // A new clip starts over from the top
+  useEffect(() => {
+    stopVoices();
+    offsetRef.current = 0;
+    setPosition(0);
+    setIsPlaying(false);
+  }, [original]);
+
+  // A fresh render replaces the B voice mid-loop at the same position
+  useEffect(() => {
+    if (!isPlaying) return;
+    const offset = currentPosition();
+    stopVoices();
+    startVoices(offset);
+  }, [processed]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => setPosition(currentPosition()), 100);
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  useEffect(() => () => {
+    stopVoices();
+    ctxRef.current?.close();
+  }, []);
+
+  const sideButton = (key: Side, label: string) => (
+    <button
+      onClick={() => switchSide(key)}
+      disabled={key === 'B' && !processed}
+      className={`px-3 py-1 text-[10px] font-mono uppercase border transition-all disabled:opacity-40 ${side === key ? 'bg-cyan-500 text-black border-cyan-500 font-bold' : 'bg-transparent text-gray-400 border-gray-700 hover:border-cyan-500'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <button
+        onClick={togglePlay}
+        className="w-10 h-10 flex items-center justify-center border-2 border-[#00ff41] text-[#00ff41] hover:bg-[#00ff41] hover:text-black transition-colors"
+      >
+        {isPlaying ? <Square size={16} /> : <Play size={16} />}
+      </button>
+      <div className="flex">
+        {sideButton('A', 'A: Original')}
+        {sideButton('B', 'B: Processed')}
+      </div>
+      <div className="flex-1 min-w-[120px]">
+        <div className="h-1 w-full bg-gray-800 rounded overflow-hidden">
+          <div className="h-full bg-cyan-400" style={{ width: `${(position / original.duration) * 100}%` }} />
+        </div>
+        <div className="flex justify-between text-[9px] font-mono text-gray-600 mt-1">
+          <span>{formatTimestamp(start + position)}</span>
+          <span>{isRendering ? <span className="text-yellow-400 animate-pulse">RE-RENDERING...</span> : `${Math.round(original.duration)}s CLIP`}</span>
+          <span>{formatTimestamp(start + original.duration)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
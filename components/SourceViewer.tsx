@@ -0,0 +1,110 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ViewerOverlays, ViewerStatus, WaveformViewer, MIN_VIEW_SECONDS } from '../waveform';
+import { formatTimestamp } from '../utils';
+
+const WAVE_HEIGHT = 90;
+const SPECTROGRAM_HEIGHT = 140;
+const ZOOM_STEP = 2;
+
+// Zoomable waveform over a spectrogram, both drawn by the viewer's worker. Click to set the preview start.
+export const SourceViewer: React.FC<{
+  viewer: WaveformViewer;
+  status: ViewerStatus;
+  duration: number;
+  overlays: ViewerOverlays;
+  silenceDb: number;
+  seek: number;
+  onSeek: (seconds: number) => void;
+}> = ({ viewer, status, duration, overlays, silenceDb, seek, onSeek }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const waveRef = useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [range, setRange] = useState<[number, number]>([0, duration]);
+  const total = Math.max(MIN_VIEW_SECONDS, duration);
+
+  useEffect(() => {
+    if (waveRef.current && spectrogramRef.current) viewer.attach(waveRef.current, spectrogramRef.current);
+  }, [viewer]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setWidth(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new source resets the view to the whole file
+  useEffect(() => {
+    setRange([0, total]);
+  }, [total]);
+
+  const [from, to] = range;
+
+  useEffect(() => {
+    if (width === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    viewer.render({
+      from,
+      to,
+      width: Math.round(width * dpr),
+      waveHeight: Math.round(WAVE_HEIGHT * dpr),
+      spectrogramHeight: Math.round(SPECTROGRAM_HEIGHT * dpr),
+      overlays,
+      silenceDb,
+      seek,
+    });
+  }, [viewer, width, from, to, overlays.highpassFreq, overlays.lowpassFreq, overlays.deesserFreq, silenceDb, seek]);
+
+  const setView = (start: number, span: number) => {
+    const clampedSpan = Math.min(total, Math.max(MIN_VIEW_SECONDS, span));
+    const clampedStart = Math.max(0, Math.min(total - clampedSpan, start));
+    setRange([clampedStart, clampedStart + clampedSpan]);
+  };
+
+  // Keeps the seek marker (or the centre) in place while zooming
+  const zoom = (factor: number) => {
+    const span = (to - from) / factor;
+    const anchor = seek >= from && seek <= to ? seek : (from + to) / 2;
+    setView(anchor - (anchor - from) / factor, span);
+  };
+
+  const pan = (direction: number) => setView(from + direction * (to - from) * 0.5, to - from);
+
+  const handleClick = (e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.floor(from + (e.clientX - rect.left) / rect.width * (to - from)));
+  };
+
+  const buttonClass = "text-gray-500 hover:text-[#00ff41] disabled:opacity-30 p-1";
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2 text-[10px] font-mono text-gray-500">
+        <span>
+          {formatTimestamp(from)} – {formatTimestamp(to)}
+          {status.seconds < duration - 1 && <span className="ml-2 text-cyan-600">drawn to {formatTimestamp(status.seconds)}</span>}
+          {status.clipped > 0 && <span className="ml-2 text-rose-500">{status.clipped} clipped region(s)</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => pan(-1)} disabled={from <= 0} className={buttonClass} title="Back"><ChevronLeft size={12} /></button>
+          <button onClick={() => pan(1)} disabled={to >= total} className={buttonClass} title="Forward"><ChevronRight size={12} /></button>
+          <button onClick={() => zoom(ZOOM_STEP)} disabled={to - from <= MIN_VIEW_SECONDS} className={buttonClass} title="Zoom in"><ZoomIn size={12} /></button>
+          <button onClick={() => zoom(1 / ZOOM_STEP)} disabled={to - from >= total} className={buttonClass} title="Zoom out"><ZoomOut size={12} /></button>
+          <button onClick={() => setView(0, total)} className={buttonClass} title="Whole file"><Maximize2 size={12} /></button>
+        </div>
+      </div>
+      <div ref={containerRef} className="cursor-crosshair border border-gray-800" onClick={handleClick}>
+        <canvas ref={waveRef} className="block w-full" style={{ height: WAVE_HEIGHT }} />
+        <canvas ref={spectrogramRef} className="block w-full border-t border-gray-800" style={{ height: SPECTROGRAM_HEIGHT }} />
+      </div>
+      <div className="flex gap-4 mt-1 text-[9px] font-mono text-gray-600">
+        <span><span className="text-rose-500">■</span> Clipping</span>
+        <span><span className="text-cyan-400">■</span> Silence</span>
+        <span><span className="text-yellow-400">|</span> Preview start {formatTimestamp(seek)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import { AudioConfig, EqBand, RANGES } from './types';
+import { STAGE_LABELS } from './filtergraph';
+
+// --- VERSION DIFFS ---
+// Parameter- and line-level comparison of two issued script versions.
+
+export interface ConfigChange {
+  key: keyof AudioConfig;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export type DiffOp = 'same' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+const LABELS: Record<keyof AudioConfig, string> = {
+  ...Object.fromEntries(Object.entries(RANGES).map(([key, range]) => [key, range.label])) as Record<keyof typeof RANGES, string>,
+  loudnormLra: 'LRA Target (LU)',
+  outputFormat: 'Output Format',
+  extraFormats: 'Extra Formats',
+  bitrateMode: 'Bitrate Mode',
+  sampleRate: 'Sample Rate (Hz)',
+  bitDepth: 'Bit Depth',
+  channels: 'Channels',
+  eqBands: 'Parametric EQ',
+  stageOrder: 'Stage Order',
+  bypassedStages: 'Bypassed Stages',
+};
+
+const formatBand = (band: EqBand) => `${band.type} ${band.freq}Hz ${band.type === 'notch' ? '' : `${band.gain > 0 ? '+' : ''}${band.gain}dB `}Q${band.q}`;
+
+const formatValue = (key: keyof AudioConfig, config: AudioConfig): string => {
+  if (key === 'eqBands') return config.eqBands.length > 0 ? config.eqBands.map(formatBand).join(', ') : 'flat';
+  if (key === 'stageOrder') return config.stageOrder.map(id => STAGE_LABELS[id]).join(' > ');
+  if (key === 'extraFormats') return config.extraFormats.length > 0 ? config.extraFormats.join(', ') : 'none';
+  if (key === 'bypassedStages') return config.bypassedStages.length > 0 ? config.bypassedStages.map(id => STAGE_LABELS[id]).join(', ') : 'none';
+  return String(config[key]);
+};
+
+export const diffConfigs = (a: AudioConfig, b: AudioConfig): ConfigChange[] =>
+  (Object.keys(LABELS) as (keyof AudioConfig)[])
+    .map(key => ({ key, label: LABELS[key], from: formatValue(key, a), to: formatValue(key, b) }))
+    .filter(change => change.from !== change.to);
+
+// Longest-common-subsequence line diff; quadratic, which is fine at script sizes
+export const diffLines = (a: string, b: string): DiffLine[] => {
+  const left = a.split('\n');
+  const right = b.split('\n');
+  const width = right.length + 1;
+  // lcs[i * width + j]: common lines between left[i..] and right[j..]
+  const lcs = new Uint32Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = left[i] === right[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      lines.push({ op: 'same', text: left[i] });
+      i++;
+      j++;
+    } else if (i < left.length && (j === right.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      lines.push({ op: 'remove', text: left[i++] });
+    } else {
+      lines.push({ op: 'add', text: right[j++] });
+    }
+  }
+  return lines;
+};
+
+// Unchanged runs longer than 2 * `context` lines collapse to a marker with their length
+export const collapseUnchanged = (lines: DiffLine[], context = 2): (DiffLine | { op: 'skip'; count: number })[] => {
+  const result: (DiffLine | { op: 'skip'; count: number })[] = [];
+  let run: DiffLine[] = [];
+  const flush = (atStart: boolean, atEnd: boolean) => {
+    const head = atStart ? 0 : context;
+    const tail = atEnd ? 0 : context;
+    if (run.length > head + tail + 1) {
+      result.push(...run.slice(0, head), { op: 'skip', count: run.length - head - tail }, ...run.slice(run.length - tail));
+    } else {
+      result.push(...run);
+    }
+    run = [];
+  };
+  lines.forEach(line => {
+    if (line.op === 'same') {
+      run.push(line);
+    } else {
+      flush(result.length === 0, false);
+      result.push(line);
+    }
+  });
+  flush(result.length === 0, true);
+  return result;
+};
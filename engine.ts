@@ -0,0 +1,170 @@
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg';
+import { toBlobURL } from '@ffmpeg/util';
+import { AudioConfig, ScriptMode } from './types';
+import { getPreviewDuration, getExcerptSeconds, formatTimestamp, PREVIEW_SEEK_SECONDS } from './utils';
+import { buildFilterGraph, createMeasurementNode, filterToString, graphToFFmpeg, joinedGraphToFFmpeg, LoudnormMeasurement } from './filtergraph';
+import { getEncoderArgs, OUTPUT_FORMAT_SPECS } from './formats';
+
+// --- IN-BROWSER FFMPEG ENGINE ---
+// Runs the same filter graph as the bash scripts through ffmpeg.wasm. The source is
+// mounted read-only (WORKERFS) so it is never copied into wasm memory; only the
+// output lives there until it is handed back.
+
+export interface EngineCallbacks {
+  onLog: (message: string) => void;
+  onProgress: (fraction: number) => void; // Whole run, 0-1
+}
+
+export interface EngineResult {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface FFmpegEngine {
+  run: (file: File, config: AudioConfig, mode: ScriptMode, callbacks: EngineCallbacks, previewStarts?: number[]) => Promise<EngineResult>;
+  cancel: () => void;
+}
+
+// Single-threaded core: the multi-threaded build needs cross-origin isolation headers
+const CORE_BASE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm';
+const INPUT_DIR = '/input';
+const PROGRESS_LOG_STEP = 0.1;
+
+// Modes the engine can run; per-chapter and split exports stay script-only
+export const canRunInBrowser = (mode: ScriptMode, perChapterLoudness: boolean): boolean =>
+  mode !== 'split-chapters' && !(mode === 'full' && perChapterLoudness);
+
+const LOUDNORM_FIELDS: (keyof LoudnormMeasurement)[] = ['input_i', 'input_tp', 'input_lra', 'input_thresh', 'target_offset'];
+
+// Pulls loudnorm's print_format=json block out of the first-pass log
+export const parseLoudnormJson = (log: string): Partial<LoudnormMeasurement> => {
+  const match = log.match(/\{[^{}]*"input_i"[^{}]*\}/);
+  if (!match) return {};
+  try {
+    const raw = JSON.parse(match[0]) as Record<string, string>;
+    const measured: Partial<LoudnormMeasurement> = {};
+    LOUDNORM_FIELDS.forEach(key => {
+      if (Number.isFinite(parseFloat(raw[key]))) measured[key] = raw[key];
+    });
+    return measured;
+  } catch {
+    return {};
+  }
+};
+
+// "Duration: 01:02:03.45" from ffmpeg's input banner
+const parseDuration = (log: string): number | null => {
+  const match = log.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+};
+
+export const createFFmpegEngine = (): FFmpegEngine => {
+  let ffmpeg: FFmpeg | null = null;
+
+  const load = async (onLog: (message: string) => void): Promise<FFmpeg> => {
+    if (ffmpeg) return ffmpeg;
+    onLog('LOADING FFMPEG.WASM CORE...');
+    const instance = new FFmpeg();
+    await instance.load({
+      coreURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+      wasmURL: await toBlobURL(`${CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+    });
+    ffmpeg = instance;
+    return instance;
+  };
+
+  // Runs one ffmpeg invocation, mapping its progress onto [from, to] of the whole run
+  const exec = async (
+    instance: FFmpeg,
+    args: string[],
+    label: string,
+    expected: number | null,
+    range: [number, number],
+    callbacks: EngineCallbacks
+  ): Promise<string> => {
+    const lines: string[] = [];
+    let nextLog = PROGRESS_LOG_STEP;
+    const onLog = ({ message }: { message: string }) => lines.push(message);
+    const onProgress = ({ progress, time }: { progress: number; time: number }) => {
+      // time is output microseconds; progress is only reliable when input and output lengths match
+      const fraction = Math.min(1, Math.max(0, expected ? time / 1e6 / expected : progress));
+      callbacks.onProgress(range[0] + (range[1] - range[0]) * fraction);
+      if (fraction >= nextLog) {
+        callbacks.onLog(`${label}: ${Math.round(fraction * 100)}%`);
+        while (nextLog <= fraction) nextLog += PROGRESS_LOG_STEP;
+      }
+    };
+
+    instance.on('log', onLog);
+    instance.on('progress', onProgress);
+    try {
+      const code = await instance.exec(args);
+      const log = lines.join('\n');
+      if (code !== 0) throw new Error(`ffmpeg exited with code ${code}: ${lines.slice(-1)[0] || 'no output'}`);
+      return log;
+    } finally {
+      instance.off('log', onLog);
+      instance.off('progress', onProgress);
+    }
+  };
+
+  const run = async (file: File, config: AudioConfig, mode: ScriptMode, callbacks: EngineCallbacks, previewStarts = [PREVIEW_SEEK_SECONDS]): Promise<EngineResult> => {
+    if (mode === 'split-chapters') throw new Error('Split export is script-only');
+    const instance = await load(callbacks.onLog);
+    const input = `${INPUT_DIR}/${file.name}`;
+    // One download per run, so only the primary format; extra formats are script-only
+    const format = OUTPUT_FORMAT_SPECS[config.outputFormat];
+    const outputFile = `output.${format.extension}`;
+    const encode = ['-map', '[out]', '-vn', ...getEncoderArgs(config.outputFormat, config)];
+
+    await instance.createDir(INPUT_DIR).catch(() => undefined);
+    await instance.mount(FFFSType.WORKERFS, { files: [file] }, INPUT_DIR);
+    try {
+      if (mode === 'full') {
+        callbacks.onLog('PASS 1/2: MEASURING LOUDNESS...');
+        const measureLog = await exec(instance, ['-i', input, '-af', filterToString(createMeasurementNode(config)), '-f', 'null', '-'], 'PASS 1/2', null, [0, 0.5], callbacks);
+
+        // Like the scripts, a missing or non-numeric value stops the run rather than skipping normalization
+        const parsed = parseLoudnormJson(measureLog);
+        const missing = LOUDNORM_FIELDS.filter(key => parsed[key] === undefined);
+        if (missing.length > 0) throw new Error(`Loudness analysis returned no usable ${missing.join(', ')}`);
+        const measured = parsed as LoudnormMeasurement;
+        callbacks.onLog(`CAPTURED: I=${measured.input_i} TP=${measured.input_tp} LRA=${measured.input_lra}`);
+
+        callbacks.onLog('PASS 2/2: PROCESSING...');
+        await exec(instance, [
+          '-i', input,
+          '-filter_complex', graphToFFmpeg(buildFilterGraph(config, measured)),
+          ...encode, '-map_metadata', '0',
+          outputFile,
+        ], 'PASS 2/2', parseDuration(measureLog), [0.5, 1], callbacks);
+      } else {
+        const duration = getPreviewDuration(mode);
+        callbacks.onLog(`RENDERING ${duration}s CLIP @ ${previewStarts.map(formatTimestamp).join(' + ')}...`);
+        const inputs = previewStarts.length === 1
+          ? ['-ss', formatTimestamp(previewStarts[0]), '-i', input, '-t', String(duration)]
+          : previewStarts.flatMap(start => ['-ss', formatTimestamp(start), '-t', String(getExcerptSeconds(mode, previewStarts.length)), '-i', input]);
+        await exec(instance, [
+          ...inputs,
+          '-filter_complex', joinedGraphToFFmpeg(buildFilterGraph(config), previewStarts.length),
+          ...encode,
+          outputFile,
+        ], 'RENDER', duration, [0, 1], callbacks);
+      }
+
+      const data = await instance.readFile(outputFile);
+      await instance.deleteFile(outputFile);
+      return { data: data as Uint8Array, mimeType: format.mimeType };
+    } finally {
+      await instance.unmount(INPUT_DIR).catch(() => undefined);
+    }
+  };
+
+  // Terminating the worker is the only way to stop a running exec; the core reloads on next run
+  const cancel = () => {
+    ffmpeg?.terminate();
+    ffmpeg = null;
+  };
+
+  return { run, cancel };
+};
@@ -0,0 +1,75 @@
+import { EqBand } from './types';
+
+// --- PARAMETRIC EQ RESPONSE ---
+// RBJ cookbook biquads, matching ffmpeg's equalizer/bass/treble filters, so the Studio
+// curve shows what the export will do.
+
+// Notches go out as a deep equalizer cut so the chain stays within equalizer/bass/treble
+export const NOTCH_DEPTH = -40; // dB
+
+// Gain actually applied by a band
+export const bandGain = (band: EqBand): number => band.type === 'notch' ? NOTCH_DEPTH : band.gain;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a0: number; a1: number; a2: number;
+}
+
+const coefficients = (band: EqBand, sampleRate: number): Biquad => {
+  const w0 = 2 * Math.PI * Math.min(band.freq, sampleRate / 2 - 1) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * band.q);
+  const A = Math.pow(10, bandGain(band) / 40);
+  const sqrtA2alpha = 2 * Math.sqrt(A) * alpha;
+
+  switch (band.type) {
+    case 'lowshelf':
+      return {
+        b0: A * ((A + 1) - (A - 1) * cos + sqrtA2alpha),
+        b1: 2 * A * ((A - 1) - (A + 1) * cos),
+        b2: A * ((A + 1) - (A - 1) * cos - sqrtA2alpha),
+        a0: (A + 1) + (A - 1) * cos + sqrtA2alpha,
+        a1: -2 * ((A - 1) + (A + 1) * cos),
+        a2: (A + 1) + (A - 1) * cos - sqrtA2alpha,
+      };
+    case 'highshelf':
+      return {
+        b0: A * ((A + 1) + (A - 1) * cos + sqrtA2alpha),
+        b1: -2 * A * ((A - 1) + (A + 1) * cos),
+        b2: A * ((A + 1) + (A - 1) * cos - sqrtA2alpha),
+        a0: (A + 1) - (A - 1) * cos + sqrtA2alpha,
+        a1: 2 * ((A - 1) - (A + 1) * cos),
+        a2: (A + 1) - (A - 1) * cos - sqrtA2alpha,
+      };
+    default: // peaking, and notch as a deep peaking cut
+      return {
+        b0: 1 + alpha * A,
+        b1: -2 * cos,
+        b2: 1 - alpha * A,
+        a0: 1 + alpha / A,
+        a1: -2 * cos,
+        a2: 1 - alpha / A,
+      };
+  }
+};
+
+const magnitudeDb = (c: Biquad, freq: number, sampleRate: number): number => {
+  const w = 2 * Math.PI * freq / sampleRate;
+  const cos1 = Math.cos(w), sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w), sin2 = Math.sin(2 * w);
+  const numRe = c.b0 + c.b1 * cos1 + c.b2 * cos2;
+  const numIm = -(c.b1 * sin1 + c.b2 * sin2);
+  const denRe = c.a0 + c.a1 * cos1 + c.a2 * cos2;
+  const denIm = -(c.a1 * sin1 + c.a2 * sin2);
+  return 10 * Math.log10((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+};
+
+// `count` frequencies spaced evenly on a log axis
+export const logFrequencies = (count: number, min = 20, max = 20000): number[] =>
+  Array.from({ length: count }, (_, i) => min * Math.pow(max / min, i / (count - 1)));
+
+// Combined response of all bands in dB at each frequency
+export const eqResponse = (bands: EqBand[], freqs: number[], sampleRate = 44100): number[] => {
+  const filters = bands.map(band => coefficients(band, sampleRate));
+  return freqs.map(f => filters.reduce((sum, c) => sum + magnitudeDb(c, f, sampleRate), 0));
+};
@@ -0,0 +1,249 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioConfig, DEFAULT_CONFIG, ScriptMode } from './types';
+import { buildFilterGraph, FilterGraph, FilterNode, graphToFFmpeg, joinedGraphToFFmpeg, LoudnormMeasurement } from './filtergraph';
+import { generateFFmpegCommand } from './utils';
+import { createFFmpegEngine } from './engine';
+import { renderPreview } from './preview';
+
+// Records what ffmpeg.wasm is asked to run; the first pass answers with a loudnorm report
+const wasm = vi.hoisted(() => ({
+  calls: [] as string[][],
+  report: '',
+}));
+
+vi.mock('@ffmpeg/util', () => ({ toBlobURL: async (url: string) => url }));
+vi.mock('@ffmpeg/ffmpeg', () => ({
+  FFFSType: { WORKERFS: 'WORKERFS' },
+  FFmpeg: class {
+    private logListeners: ((event: { message: string }) => void)[] = [];
+    load = async () => true;
+    on = (event: string, listener: (event: { message: string }) => void) => {
+      if (event === 'log') this.logListeners.push(listener);
+    };
+    off = () => undefined;
+    exec = async (args: string[]) => {
+      wasm.calls.push(args);
+      if (args.includes('null')) wasm.report.split('\n').forEach(message => this.logListeners.forEach(l => l({ message })));
+      return 0;
+    };
+    createDir = async () => true;
+    mount = async () => true;
+    unmount = async () => true;
+    readFile = async () => new Uint8Array(1);
+    deleteFile = async () => true;
+    terminate = () => undefined;
+  },
+}));
+
+const MEASURED: LoudnormMeasurement = {
+  input_i: '-24.31',
+  input_tp: '-5.02',
+  input_lra: '7.40',
+  input_thresh: '-34.55',
+  target_offset: '0.27',
+};
+
+const SHELL_VARIABLES: Record<string, keyof LoudnormMeasurement> = {
+  $MEASURED_I: 'input_i',
+  $MEASURED_TP: 'input_tp',
+  $MEASURED_LRA: 'input_lra',
+  $MEASURED_THRESH: 'input_thresh',
+  $OFFSET: 'target_offset',
+};
+
+const REPRESENTATIVE_CONFIGS: [string, AudioConfig][] = [
+  ['default', DEFAULT_CONFIG],
+  ['heavy cleanup', {
+    ...DEFAULT_CONFIG,
+    highpassFreq: 120,
+    noiseReduction: 0.8,
+    deesserAmount: 1,
+    deesserFreq: 7500,
+    compressionAmount: 1,
+    eqBands: [{ type: 'peaking', freq: 250, gain: -3, q: 1.4 }],
+  }],
+  ['reordered and bypassed', {
+    ...DEFAULT_CONFIG,
+    stageOrder: ['denoise', 'highpass', 'compressor', 'lowpass', 'eq', 'declick', 'deesser', 'loudnorm', 'limiter'],
+    bypassedStages: ['denoise', 'declick'],
+  }],
+];
+
+const findNode = (graph: FilterGraph, id: FilterNode['id']): FilterNode => {
+  const found = graph.nodes.find(n => n.id === id);
+  expect(found).toBeDefined();
+  return found!;
+};
+
+const values = (n: FilterNode) => Object.fromEntries(Object.entries(n.params).map(([key, p]) => [key, p.value]));
+
+// The -filter_complex argument of a bash script, with its line continuations undone
+const scriptGraph = (script: string): string => {
+  const match = script.match(/-filter_complex "\\\n([\s\S]*?)"/);
+  expect(match).not.toBeNull();
+  return match![1].replace(/,\\\n/g, ',');
+};
+
+describe('buildFilterGraph', () => {
+  it('wraps the stages in fixed format nodes', () => {
+    const graph = buildFilterGraph(DEFAULT_CONFIG);
+    expect(graph.nodes.map(n => n.id)).toEqual([
+      'format-in', 'highpass', 'denoise', 'lowpass', 'declick', 'deesser', 'compressor', 'loudnorm', 'limiter', 'format-out',
+    ]);
+    expect(values(graph.nodes[graph.nodes.length - 1])).toEqual({ sample_rates: 44100, channel_layouts: 'mono' });
+  });
+
+  it('sets the highpass cutoff', () => {
+    const node = findNode(buildFilterGraph({ ...DEFAULT_CONFIG, highpassFreq: 120 }), 'highpass');
+    expect(node.filter).toBe('highpass');
+    expect(values(node)).toEqual({ f: 120, poles: 2 });
+  });
+
+  it('scales the de-esser frequency to Nyquist', () => {
+    const node = findNode(buildFilterGraph({ ...DEFAULT_CONFIG, deesserFreq: 7500, deesserAmount: 0.8 }), 'deesser');
+    expect(values(node)).toMatchObject({ i: 0.8, f: 7500 / 22050 });
+  });
+
+  it.each([
+    [0, { ratio: 2, attack: 20, release: 250, makeup: 2 }],
+    [0.5, { ratio: 3.5, attack: 11, release: 150, makeup: 3 }],
+    [1, { ratio: 5, attack: 2, release: 50, makeup: 4 }],
+  ])('maps compression %s onto acompressor', (compressionAmount, expected) => {
+    const node = findNode(buildFilterGraph({ ...DEFAULT_CONFIG, compressionAmount }), 'compressor');
+    expect(values(node)).toEqual({ threshold: -20, ...expected });
+    expect(graphToFFmpeg(buildFilterGraph({ ...DEFAULT_CONFIG, compressionAmount }))).toContain('acompressor=threshold=-20dB:');
+  });
+
+  it('runs loudnorm single-pass without a measurement', () => {
+    const node = findNode(buildFilterGraph({ ...DEFAULT_CONFIG, loudnormTarget: -18, loudnormTp: -1.5, loudnormLra: 9 }), 'loudnorm');
+    expect(values(node)).toEqual({ I: -18, TP: -1.5, LRA: 9 });
+  });
+
+  it('runs loudnorm as a linear gain from a measurement', () => {
+    const node = findNode(buildFilterGraph(DEFAULT_CONFIG, MEASURED), 'loudnorm');
+    expect(values(node)).toEqual({
+      I: -19, TP: -3, LRA: 11,
+      measured_I: '-24.31', measured_TP: '-5.02', measured_LRA: '7.40', measured_thresh: '-34.55', offset: '0.27',
+      linear: 'true',
+    });
+  });
+
+  it.each([
+    [0, 0, -80],
+    [0.2, 8, -72],
+    [1, 40, -40],
+  ])('maps noise reduction %s onto afftdn', (noiseReduction, nr, nf) => {
+    const node = findNode(buildFilterGraph({ ...DEFAULT_CONFIG, noiseReduction }), 'denoise');
+    expect(node.enabled).toBe(true);
+    expect(values(node)).toEqual({ nr, nf, tn: 1 });
+  });
+
+  it('leaves bypassed noise reduction out of the ffmpeg string', () => {
+    const graph = buildFilterGraph({ ...DEFAULT_CONFIG, noiseReduction: 0.8, bypassedStages: ['denoise'] });
+    expect(findNode(graph, 'denoise').enabled).toBe(false);
+    expect(graphToFFmpeg(graph)).not.toContain('afftdn');
+    expect(graphToFFmpeg(buildFilterGraph({ ...DEFAULT_CONFIG, noiseReduction: 0.8 }))).toContain('afftdn=nr=32:nf=-48:tn=1');
+  });
+
+  it('follows the stage order and never moves the format nodes', () => {
+    const graph = buildFilterGraph(REPRESENTATIVE_CONFIGS[2][1]);
+    expect(graph.nodes.map(n => n.id)).toEqual([
+      'format-in', 'denoise', 'highpass', 'compressor', 'lowpass', 'declick', 'deesser', 'loudnorm', 'limiter', 'format-out',
+    ]);
+    expect(graph.nodes.filter(n => !n.enabled).map(n => n.id)).toEqual(['denoise', 'declick']);
+  });
+});
+
+describe('renderers', () => {
+  beforeEach(() => {
+    wasm.calls = [];
+    wasm.report = `[Parsed_loudnorm_0] \n{\n${Object.entries(MEASURED).map(([k, v]) => `"${k}" : "${v}"`).join(',\n')}\n}`;
+  });
+
+  const runEngine = async (config: AudioConfig, mode: ScriptMode, previewStarts?: number[]): Promise<string> => {
+    const file = new File([new Uint8Array(1)], 'book.m4b');
+    await createFFmpegEngine().run(file, config, mode, { onLog: () => undefined, onProgress: () => undefined }, previewStarts);
+    const last = wasm.calls[wasm.calls.length - 1];
+    return last[last.indexOf('-filter_complex') + 1];
+  };
+
+  describe.each(REPRESENTATIVE_CONFIGS)('%s config', (_, config) => {
+    it('gives the full export script and the wasm engine the same measured graph', async () => {
+      const expected = graphToFFmpeg(buildFilterGraph(config, MEASURED));
+      const script = scriptGraph(generateFFmpegCommand(config, '/data/book.m4b', 'full', '/data/out.m4b'))
+        .replace(/\$[A-Z_]+/g, name => MEASURED[SHELL_VARIABLES[name]]);
+      expect(script).toBe(expected);
+      expect(await runEngine(config, 'full')).toBe(expected);
+    });
+
+    it('gives the preview script and the wasm preview the same graph', async () => {
+      const expected = graphToFFmpeg(buildFilterGraph(config));
+      expect(scriptGraph(generateFFmpegCommand(config, '/data/book.m4b', 'test-45s', '/data/out.m4b'))).toBe(expected);
+      expect(await runEngine(config, 'test-45s')).toBe(expected);
+    });
+
+    it('joins excerpts ahead of the same graph in both', async () => {
+      const starts = [10, 200, 400];
+      const expected = joinedGraphToFFmpeg(buildFilterGraph(config), starts.length);
+      expect(scriptGraph(generateFFmpegCommand(config, '/data/book.m4b', 'test-10s', '/data/out.m4b', { previewStarts: starts }))).toBe(expected);
+      expect(await runEngine(config, 'test-10s', starts)).toBe(expected);
+    });
+  });
+});
+
+// --- WEB AUDIO PREVIEW ---
+// A stand-in OfflineAudioContext that logs the nodes the preview builds, in order.
+
+const param = () => ({ value: 0 });
+
+// Nodes log themselves when wired onwards, by which time their parameters are set
+const createAudioContextStub = (log: string[]) => class {
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {}
+  private source: { buffer: AudioBuffer | null } = { buffer: null };
+  readonly destination = {};
+  createBufferSource = () => Object.assign(this.source, { connect: (next: unknown) => next, start: () => undefined });
+  createBiquadFilter = () => {
+    const node = { type: '', frequency: param(), Q: param(), gain: param() };
+    return Object.assign(node, { connect: (next: unknown) => (log.push(`${node.type} ${node.frequency.value}`), next) });
+  };
+  createDynamicsCompressor = () => {
+    const node = { threshold: param(), ratio: param(), attack: param(), release: param(), knee: param() };
+    const ms = (p: { value: number }) => Math.round(p.value * 1e6) / 1e3;
+    return Object.assign(node, {
+      connect: (next: unknown) => (log.push(`compressor ${node.ratio.value} ${ms(node.attack)} ${ms(node.release)}`), next),
+    });
+  };
+  createGain = () => ({ gain: param(), connect: (next: unknown) => next });
+  startRendering = async () => this.source.buffer!;
+};
+
+const monoBuffer = (length: number, sampleRate: number): AudioBuffer => {
+  const data = new Float32Array(length).map((_, i) => 0.1 * Math.sin(i / 10));
+  return { length, sampleRate, numberOfChannels: 1, getChannelData: () => data } as unknown as AudioBuffer;
+};
+
+describe('renderPreview', () => {
+  it.each(REPRESENTATIVE_CONFIGS)('runs the %s graph stages in graph order', async (_, config) => {
+    const log: string[] = [];
+    vi.stubGlobal('window', { OfflineAudioContext: createAudioContextStub(log) });
+    try {
+      await renderPreview(monoBuffer(4410, 44100), config);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    // What the graph says the Web Audio stages should be, in its order
+    const expected = buildFilterGraph(config).nodes.filter(n => n.enabled).flatMap(n => {
+      const p = values(n);
+      switch (n.id) {
+        case 'highpass': return [`highpass ${p.f}`];
+        case 'lowpass': return [`lowpass ${p.f}`];
+        case 'eq': return [`${config.eqBands.find(b => b.freq === p.f)!.type} ${p.f}`];
+        case 'deesser': return [`peaking ${config.deesserFreq}`];
+        case 'compressor': return [`compressor ${p.ratio} ${Math.round(Number(p.attack) * 1e3) / 1e3} ${Math.round(Number(p.release) * 1e3) / 1e3}`];
+        default: return [];
+      }
+    });
+    expect(log).toEqual(expected);
+  });
+});
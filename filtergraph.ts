@@ -0,0 +1,256 @@
+import { AudioConfig, EqBand, EqBandType, StageId } from './types';
+import { bandGain } from './eq';
+
+// --- FILTER GRAPH MODEL ---
+// The processing chain as data: an ordered list of ffmpeg filters with named parameters.
+// Stages can be bypassed or reordered, and the graph serializes to an ffmpeg filtergraph
+// (shared by the bash scripts and the in-browser engine), JSON, or a readable summary.
+
+// Format conversions at either end of the chain; always on and never moved
+export type FixedNodeId = 'format-in' | 'format-out';
+
+export type ParamValue = number | string;
+
+export interface FilterParam {
+  value: ParamValue;
+  unit?: string;     // Shown in descriptions
+  inline?: boolean;  // Unit is written into the ffmpeg string (dB for options ffmpeg takes as linear gain)
+}
+
+export interface FilterNode {
+  id: StageId | FixedNodeId;
+  filter: string; // ffmpeg filter name
+  label: string;
+  enabled: boolean;
+  fixed: boolean;
+  params: Record<string, FilterParam>;
+}
+
+export interface FilterGraph {
+  input: string;  // Input pad label, e.g. '0:a'
+  output: string; // Output pad label
+  nodes: FilterNode[];
+}
+
+// loudnorm's first-pass JSON fields, as text so shell variables can stand in for numbers
+export interface LoudnormMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// --- PARAMETER MAPPINGS ---
+// Slider values (0-1) to filter parameters. Also used by the Web Audio preview.
+
+export const getNoiseReductionParams = (config: AudioConfig) => ({
+  nr: Math.round(config.noiseReduction * 40), // Reduction in dB
+  nf: Math.round(-80 + (config.noiseReduction * 40)), // Noise floor in dB
+});
+
+export const getCompressorParams = (config: AudioConfig) => ({
+  threshold: -20, // dB
+  ratio: 2 + (config.compressionAmount * 3),
+  attack: 20 - (config.compressionAmount * 18), // ms
+  release: 250 - (config.compressionAmount * 200), // ms
+  makeup: 2 + (config.compressionAmount * 2), // Linear gain
+});
+
+// --- NODE BUILDERS ---
+
+export const STAGE_LABELS: Record<StageId, string> = {
+  highpass: 'Rumble Cutoff',
+  denoise: 'Noise Reduction',
+  lowpass: 'Clarity Ceiling',
+  eq: 'Parametric EQ',
+  declick: 'De-click',
+  deesser: 'De-esser',
+  compressor: 'Compressor',
+  loudnorm: 'Loudness Normalization',
+  limiter: 'True Peak Limiter',
+};
+
+type ParamInput = ParamValue | [ParamValue, string] | FilterParam;
+
+// ffmpeg converts "NdB" to a linear factor for gain-type options
+const linearDb = (value: number): FilterParam => ({ value, unit: 'dB', inline: true });
+
+const node = (id: FilterNode['id'], filter: string, label: string, params: Record<string, ParamInput>): FilterNode => ({
+  id,
+  filter,
+  label,
+  enabled: true,
+  fixed: id === 'format-in' || id === 'format-out',
+  params: Object.fromEntries(Object.entries(params).map(([key, p]) =>
+    [key, Array.isArray(p) ? { value: p[0], unit: p[1] } : typeof p === 'object' ? p : { value: p }])),
+});
+
+const EQ_FILTERS: Record<EqBandType, string> = {
+  peaking: 'equalizer',
+  lowshelf: 'bass',
+  highshelf: 'treble',
+  notch: 'equalizer',
+};
+
+// One filter per band; all share the 'eq' stage so they bypass and move together
+const createEqNode = (band: EqBand, index: number): FilterNode =>
+  node('eq', EQ_FILTERS[band.type], `${STAGE_LABELS.eq} ${index + 1}`, {
+    f: [band.freq, 'Hz'],
+    t: 'q',
+    w: band.q,
+    g: [bandGain(band), 'dB'],
+  });
+
+const loudnormTargets = (config: AudioConfig): Record<string, ParamInput> => ({
+  I: [config.loudnormTarget, 'LUFS'],
+  TP: [config.loudnormTp, 'dBTP'],
+  LRA: [config.loudnormLra, 'LU'],
+});
+
+// First pass: measure only
+export const createMeasurementNode = (config: AudioConfig): FilterNode =>
+  node('loudnorm', 'loudnorm', 'Loudness Measurement', { ...loudnormTargets(config), print_format: 'json' });
+
+// Without a measurement loudnorm runs single-pass (dynamic); with one, as a linear gain
+const createLoudnormNode = (config: AudioConfig, m?: LoudnormMeasurement): FilterNode =>
+  node('loudnorm', 'loudnorm', STAGE_LABELS.loudnorm, m ? {
+    ...loudnormTargets(config),
+    measured_I: m.input_i,
+    measured_TP: m.input_tp,
+    measured_LRA: m.input_lra,
+    measured_thresh: m.input_thresh,
+    offset: m.target_offset,
+    linear: 'true',
+  } : loudnormTargets(config));
+
+/**
+ * The full chain for `config`: stereo float at 44.1kHz in, the processing stages in
+ * `config.stageOrder` with `config.bypassedStages` disabled, out at the configured sample
+ * rate and channel layout.
+ */
+export const buildFilterGraph = (config: AudioConfig, measured?: LoudnormMeasurement): FilterGraph => {
+  const { nr, nf } = getNoiseReductionParams(config);
+  const comp = getCompressorParams(config);
+
+  const graph: FilterGraph = {
+    input: '0:a',
+    output: 'out',
+    nodes: [
+      node('format-in', 'aformat', 'Input Format', { sample_fmts: 'fltp', sample_rates: 44100, channel_layouts: 'stereo' }),
+      node('highpass', 'highpass', STAGE_LABELS.highpass, { f: [config.highpassFreq, 'Hz'], poles: 2 }),
+      node('denoise', 'afftdn', STAGE_LABELS.denoise, { nr: [nr, 'dB'], nf: [nf, 'dB'], tn: 1 }),
+      node('lowpass', 'lowpass', STAGE_LABELS.lowpass, { f: [config.lowpassFreq, 'Hz'], poles: 2 }),
+      ...config.eqBands.map(createEqNode),
+      node('declick', 'adeclick', STAGE_LABELS.declick, { w: [55, 'ms'], o: [75, '%'], t: 25 }),
+      // f is 0-1 where 1 is Nyquist. Assuming 44100Hz sr, Nyquist is 22050Hz.
+      node('deesser', 'deesser', STAGE_LABELS.deesser, { i: config.deesserAmount, m: 0.5, f: config.deesserFreq / 22050, s: 'o' }),
+      node('compressor', 'acompressor', STAGE_LABELS.compressor, {
+        threshold: linearDb(comp.threshold),
+        ratio: comp.ratio,
+        attack: [comp.attack, 'ms'],
+        release: [comp.release, 'ms'],
+        makeup: [comp.makeup, 'x'],
+      }),
+      createLoudnormNode(config, measured),
+      node('limiter', 'alimiter', STAGE_LABELS.limiter, { limit: linearDb(config.loudnormTp), attack: [5, 'ms'], release: [50, 'ms'] }),
+      node('format-out', 'aformat', 'Output Format', { sample_rates: config.sampleRate, channel_layouts: config.channels }),
+    ],
+  };
+  return config.bypassedStages.reduce(
+    (g, id) => setStageEnabled(g, id, false),
+    reorderStages(graph, config.stageOrder)
+  );
+};
+
+// --- EDITING ---
+// Pure updates; fixed nodes are never bypassed or moved.
+
+export const setStageEnabled = (graph: FilterGraph, id: StageId, enabled: boolean): FilterGraph => ({
+  ...graph,
+  nodes: graph.nodes.map(n => n.id === id && !n.fixed ? { ...n, enabled } : n),
+});
+
+// Puts the movable stages in `order`; stages not listed keep their relative order at the end
+export const reorderStages = (graph: FilterGraph, order: StageId[]): FilterGraph => {
+  const movable = graph.nodes.filter(n => !n.fixed);
+  const rank = (n: FilterNode) => {
+    const i = order.indexOf(n.id as StageId);
+    return i === -1 ? order.length + movable.indexOf(n) : i;
+  };
+  const sorted = [...movable].sort((a, b) => rank(a) - rank(b));
+  let next = 0;
+  return { ...graph, nodes: graph.nodes.map(n => n.fixed ? n : sorted[next++]) };
+};
+
+export const moveStage = (graph: FilterGraph, id: StageId, toIndex: number): FilterGraph => {
+  const stages = Array.from(new Set(graph.nodes.filter(n => !n.fixed).map(n => n.id as StageId)));
+  const order = stages.filter(s => s !== id);
+  order.splice(Math.max(0, Math.min(toIndex, order.length)), 0, id);
+  return reorderStages(graph, order);
+};
+
+// --- ORDER CHECKS ---
+
+interface OrderRule {
+  before: StageId; // Should run ahead of `after`
+  after: StageId;
+  message: string;
+}
+
+const ORDER_RULES: OrderRule[] = [
+  { before: 'highpass', after: 'compressor', message: 'Compressor runs before the highpass: rumble drives gain reduction before it is filtered out.' },
+  { before: 'denoise', after: 'compressor', message: 'Compressor runs before noise reduction: the raised noise floor makes afftdn pump.' },
+  { before: 'compressor', after: 'loudnorm', message: 'Compressor runs after loudnorm: its makeup gain moves the level off the LUFS target.' },
+  { before: 'loudnorm', after: 'limiter', message: 'Limiter runs before loudnorm: the loudness gain afterwards can push peaks past the true-peak ceiling.' },
+];
+
+// Known-harmful orderings and bypasses for the chain in `config`
+export const getChainWarnings = (config: AudioConfig): string[] => {
+  const active = config.stageOrder.filter(id => !config.bypassedStages.includes(id));
+  const warnings = ORDER_RULES
+    .filter(rule => active.includes(rule.before) && active.includes(rule.after) && active.indexOf(rule.after) < active.indexOf(rule.before))
+    .map(rule => rule.message);
+
+  // Loudnorm already has its own rule above
+  const afterLimiter = active.slice(active.indexOf('limiter') + 1).filter(id => id !== 'loudnorm');
+  if (active.includes('limiter') && afterLimiter.length > 0) {
+    warnings.push(`${afterLimiter.map(id => STAGE_LABELS[id]).join(', ')} after the limiter can push peaks past the ceiling.`);
+  }
+  if (config.bypassedStages.includes('loudnorm')) warnings.push('Loudness normalization is bypassed: output will not hit the LUFS target.');
+  if (config.bypassedStages.includes('limiter')) warnings.push('Limiter is bypassed: true peaks are not capped.');
+  return warnings;
+};
+
+// --- SERIALIZATION ---
+
+const formatValue = (p: FilterParam): string => {
+  const text = typeof p.value === 'number' ? String(parseFloat(p.value.toFixed(3))) : p.value;
+  return p.inline ? `${text}${p.unit}` : text;
+};
+
+export const filterToString = (n: FilterNode): string => {
+  const args = Object.entries(n.params).map(([key, p]) => `${key}=${formatValue(p)}`).join(':');
+  return args ? `${n.filter}=${args}` : n.filter;
+};
+
+// ffmpeg -filter_complex syntax; bypassed stages are left out
+export const graphToFFmpeg = (graph: FilterGraph, separator = ','): string =>
+  `[${graph.input}]${graph.nodes.filter(n => n.enabled).map(filterToString).join(separator)}[${graph.output}]`;
+
+// Excerpts from several inputs are joined into one stream before the chain runs
+export const joinedGraphToFFmpeg = (graph: FilterGraph, inputs: number, separator = ','): string => {
+  if (inputs <= 1) return graphToFFmpeg(graph, separator);
+  const pads = Array.from({ length: inputs }, (_, i) => `[${i}:a]`).join('');
+  return `${pads}concat=n=${inputs}:v=0:a=1[joined];${graphToFFmpeg({ ...graph, input: 'joined' }, separator)}`;
+};
+
+export const graphToJson = (graph: FilterGraph): string => JSON.stringify(graph, null, 2);
+
+export const describeGraph = (graph: FilterGraph): string =>
+  graph.nodes.map((n, i) => {
+    const params = Object.entries(n.params)
+      .map(([key, p]) => `${key} ${typeof p.value === 'number' ? parseFloat(p.value.toFixed(3)) : p.value}${p.unit ? ` ${p.unit}` : ''}`)
+      .join(', ');
+    return `${i + 1}. ${n.label} (${n.filter})${n.enabled ? '' : ' [BYPASSED]'}: ${params}`;
+  }).join('\n');
@@ -0,0 +1,62 @@
+import { AudioConfig, OutputFormat } from './types';
+
+// --- OUTPUT FORMATS ---
+// Containers and encoders for every delivery format. Codec options come from the config;
+// options a format has no use for (bit depth for MP3, bitrate for WAV) are ignored by it.
+
+export interface OutputFormatSpec {
+  label: string;
+  extension: string;
+  mimeType: string;
+  lossless: boolean;
+  vbr: boolean;        // Has a VBR mode
+  chapters: boolean;   // Container keeps chapter markers
+  sampleRate?: number; // Fixed by the encoder
+}
+
+export const OUTPUT_FORMAT_SPECS: Record<OutputFormat, OutputFormatSpec> = {
+  aac: { label: 'AAC (M4B)', extension: 'm4b', mimeType: 'audio/mp4', lossless: false, vbr: false, chapters: true },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', lossless: false, vbr: true, chapters: true },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', lossless: false, vbr: true, chapters: true, sampleRate: 48000 },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', lossless: true, vbr: false, chapters: true },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', lossless: true, vbr: false, chapters: false },
+};
+
+// ACX chapter files are 192k CBR MP3 at 44.1kHz whatever the configured format; channels follow the config
+export const getAcxSplitArgs = (config: AudioConfig): string[] =>
+  ['-c:a', 'libmp3lame', '-b:a', '192k', '-ar', '44100', '-ac', config.channels === 'mono' ? '1' : '2'];
+
+const ENCODERS: Record<OutputFormat, (config: AudioConfig) => string[]> = {
+  aac: config => ['-c:a', 'aac', '-b:a', `${config.bitrate}k`, '-movflags', '+faststart'],
+  mp3: config => config.bitrateMode === 'vbr'
+    ? ['-c:a', 'libmp3lame', '-q:a', String(config.vbrQuality)]
+    : ['-c:a', 'libmp3lame', '-b:a', `${config.bitrate}k`],
+  // Opus VBR treats the bitrate as a target
+  opus: config => ['-c:a', 'libopus', '-b:a', `${config.bitrate}k`, '-vbr', config.bitrateMode === 'vbr' ? 'on' : 'off'],
+  flac: config => ['-c:a', 'flac', '-compression_level', String(config.flacCompressionLevel),
+    ...(config.bitDepth === 24 ? ['-sample_fmt', 's32', '-bits_per_raw_sample', '24'] : ['-sample_fmt', 's16'])],
+  wav: config => ['-c:a', config.bitDepth === 24 ? 'pcm_s24le' : 'pcm_s16le'],
+};
+
+// Encoder arguments for `format`; the chain's output format already sets rate and channels
+export const getEncoderArgs = (format: OutputFormat, config: AudioConfig): string[] => {
+  const rate = OUTPUT_FORMAT_SPECS[format].sampleRate;
+  return [...ENCODERS[format](config), ...(rate && rate !== config.sampleRate ? ['-ar', String(rate)] : [])];
+};
+
+// The primary format first, then each extra one once
+export const getOutputFormats = (config: AudioConfig): OutputFormat[] =>
+  [config.outputFormat, ...config.extraFormats].filter((format, i, all) => all.indexOf(format) === i);
+
+export const withExtension = (path: string, format: OutputFormat): string =>
+  `${path.replace(/\.[^./\\]*$/, '')}.${OUTPUT_FORMAT_SPECS[format].extension}`;
+
+// e.g. "MP3 V2 VBR · 44.1 kHz mono"
+export const describeFormat = (format: OutputFormat, config: AudioConfig): string => {
+  const spec = OUTPUT_FORMAT_SPECS[format];
+  const name = format === 'aac' ? 'AAC' : spec.label;
+  const quality = spec.lossless ? `${config.bitDepth}-bit`
+    : format === 'mp3' && config.bitrateMode === 'vbr' ? `V${config.vbrQuality} VBR`
+    : `${config.bitrate}k${spec.vbr ? ` ${config.bitrateMode.toUpperCase()}` : ''}`;
+  return `${name} ${quality} · ${(spec.sampleRate ?? config.sampleRate) / 1000} kHz ${config.channels}`;
+};
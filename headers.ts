@@ -0,0 +1,163 @@
+import { SAMPLING_RATES } from './mp4';
+
+// --- MP3 / ADTS / WAV / FLAC HEADERS ---
+// The source's own sample rate and frame layout, read from its headers. Web Audio decoders
+// resample to their context's rate, so decoding needs the real one up front.
+
+export type FrameCodec = 'mp3' | 'adts';
+
+export interface FrameHeader {
+  codec: FrameCodec;
+  size: number;        // Bytes, header included
+  samples: number;     // Samples per channel the frame decodes to
+  sampleRate: number;  // For HE-AAC in ADTS this is the core rate; SBR doubles it
+  channels: number;
+}
+
+export interface SyncFrame extends FrameHeader {
+  offset: number;      // Absolute offset of the frame header
+}
+
+const SCAN_WINDOW = 1024 * 1024; // Bytes read at a time while walking frames
+const MAX_FRAME_SIZE = 8192;     // Largest ADTS frame; MP3 frames are smaller
+
+const MPEG_RATES = [44100, 48000, 32000];
+// kbps by bitrate index: MPEG-1 layers I, II, III, then MPEG-2/2.5 layer I, then layers II and III
+const MPEG_BITRATES = [
+  [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+];
+
+const fourcc = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const readMpegHeader = (bytes: Uint8Array, pos: number): FrameHeader | null => {
+  const version = (bytes[pos + 1] >> 3) & 0x3; // 0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1
+  const layer = 4 - ((bytes[pos + 1] >> 1) & 0x3);
+  const bitrateIndex = bytes[pos + 2] >> 4;
+  const rateIndex = (bytes[pos + 2] >> 2) & 0x3;
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const sampleRate = MPEG_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = MPEG_BITRATES[mpeg1 ? layer - 1 : layer === 1 ? 3 : 4][bitrateIndex] * 1000;
+  const padding = (bytes[pos + 2] >> 1) & 0x1;
+  const samples = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const size = layer === 1
+    ? (Math.floor(12 * bitrate / sampleRate) + padding) * 4
+    : Math.floor(samples / 8 * bitrate / sampleRate) + padding;
+  return { codec: 'mp3', size, samples, sampleRate, channels: bytes[pos + 3] >> 6 === 3 ? 1 : 2 };
+};
+
+const readAdtsHeader = (bytes: Uint8Array, pos: number): FrameHeader | null => {
+  const rateIndex = (bytes[pos + 2] >> 2) & 0xf;
+  const channels = ((bytes[pos + 2] & 0x1) << 2) | (bytes[pos + 3] >> 6);
+  const size = ((bytes[pos + 3] & 0x3) << 11) | (bytes[pos + 4] << 3) | (bytes[pos + 5] >> 5);
+  if (rateIndex >= SAMPLING_RATES.length || size < 7) return null;
+  const blocks = (bytes[pos + 6] & 0x3) + 1;
+  return { codec: 'adts', size, samples: blocks * 1024, sampleRate: SAMPLING_RATES[rateIndex], channels: channels || 2 };
+};
+
+// An MP3 or ADTS frame header at `pos`, or null when the bytes there aren't one
+export const readFrameHeader = (bytes: Uint8Array, pos: number): FrameHeader | null => {
+  if (pos + 7 > bytes.length || bytes[pos] !== 0xff || (bytes[pos + 1] & 0xe0) !== 0xe0) return null;
+  return (bytes[pos + 1] & 0x16) === 0x10 ? readAdtsHeader(bytes, pos) : readMpegHeader(bytes, pos);
+};
+
+// Bytes taken by an ID3v2 tag starting at `pos` (0 when there isn't one)
+const id3Size = (bytes: Uint8Array, pos: number): number => {
+  if (pos + 10 > bytes.length || bytes[pos] !== 0x49 || bytes[pos + 1] !== 0x44 || bytes[pos + 2] !== 0x33) return 0;
+  const body = ((bytes[pos + 6] & 0x7f) << 21) | ((bytes[pos + 7] & 0x7f) << 14) | ((bytes[pos + 8] & 0x7f) << 7) | (bytes[pos + 9] & 0x7f);
+  const footer = bytes[pos + 5] & 0x10 ? 10 : 0;
+  return 10 + body + footer;
+};
+
+// A header only counts when the next frame follows it (or the data ends), so stray 0xFF bytes don't sync
+const isFrameAt = (bytes: Uint8Array, pos: number, end: boolean): FrameHeader | null => {
+  const header = readFrameHeader(bytes, pos);
+  if (!header) return null;
+  const next = pos + header.size;
+  if (next + 7 > bytes.length) return end ? header : null;
+  const following = readFrameHeader(bytes, next);
+  return following && following.codec === header.codec && following.sampleRate === header.sampleRate ? header : null;
+};
+
+const findFrame = (bytes: Uint8Array, from: number, end: boolean): number => {
+  for (let pos = from; pos + 7 <= bytes.length; pos++) {
+    if (isFrameAt(bytes, pos, end)) return pos;
+  }
+  return -1;
+};
+
+/**
+ * Walks every MP3 or ADTS frame in the file, reading SCAN_WINDOW bytes at a time.
+ * Leading ID3v2 tags are skipped and junk between frames is stepped over until the
+ * next header that matches the stream.
+ */
+export async function* iterateFrames(file: Blob): AsyncGenerator<SyncFrame> {
+  let base = 0;
+  let bytes = new Uint8Array(await file.slice(0, SCAN_WINDOW).arrayBuffer());
+  let pos = 0;
+  let stream: FrameHeader | null = null;
+
+  while (base + pos < file.size) {
+    if (pos + MAX_FRAME_SIZE + 7 > bytes.length && base + bytes.length < file.size) {
+      base += pos;
+      bytes = new Uint8Array(await file.slice(base, base + SCAN_WINDOW).arrayBuffer());
+      pos = 0;
+    }
+    const end = base + bytes.length >= file.size;
+
+    const tag = stream ? 0 : id3Size(bytes, pos);
+    if (tag > 0) {
+      base += pos + tag;
+      bytes = new Uint8Array(await file.slice(base, base + SCAN_WINDOW).arrayBuffer());
+      pos = 0;
+      continue;
+    }
+
+    const header = stream ? readFrameHeader(bytes, pos) : isFrameAt(bytes, pos, end);
+    if (header && (!stream || (header.codec === stream.codec && header.sampleRate === stream.sampleRate))) {
+      if (base + pos + header.size > file.size) return; // Cut-off last frame
+      stream = stream ?? header;
+      yield { ...header, offset: base + pos };
+      pos += header.size;
+      continue;
+    }
+
+    const next = findFrame(bytes, pos + 1, end);
+    if (next < 0) {
+      if (end) return;
+      pos = Math.max(pos + 1, bytes.length - MAX_FRAME_SIZE - 7);
+    } else {
+      pos = next;
+    }
+  }
+}
+
+const readWavRate = (bytes: Uint8Array): number | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let pos = 12; pos + 16 <= bytes.length; pos += 8 + view.getUint32(pos + 4, true) + (view.getUint32(pos + 4, true) & 1)) {
+    if (fourcc(bytes, pos) === 'fmt ') return view.getUint32(pos + 12, true);
+  }
+  return null;
+};
+
+// STREAMINFO is always the first metadata block; the rate is 20 bits at byte 10 of its body
+const readFlacRate = (bytes: Uint8Array, pos: number): number | null =>
+  pos + 21 <= bytes.length ? (bytes[pos + 18] << 12) | (bytes[pos + 19] << 4) | (bytes[pos + 20] >> 4) : null;
+
+/**
+ * The sample rate declared by a WAV, FLAC, MP3 or ADTS header at the start of `bytes`,
+ * or null for anything else (Ogg, MP4, unreadable data).
+ */
+export const readSampleRate = (bytes: Uint8Array): number | null => {
+  if (bytes.length >= 12 && fourcc(bytes, 0) === 'RIFF' && fourcc(bytes, 8) === 'WAVE') return readWavRate(bytes) || null;
+  const start = id3Size(bytes, 0);
+  if (start + 4 <= bytes.length && fourcc(bytes, start) === 'fLaC') return readFlacRate(bytes, start) || null;
+  const frame = findFrame(bytes, start, true);
+  return frame < 0 ? null : readFrameHeader(bytes, frame)!.sampleRate;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createLoudnessMeter, measureLoudness, PlanarAudio } from './loudness';
+
+const RATE = 48000;
+
+// Amplitude of a sine with the given peak level in dBFS
+const dbfs = (db: number) => Math.pow(10, db / 20);
+
+// Sine sections played back to back, e.g. [[10, -20], [10, -50]] is 10s at -20 dBFS then 10s at -50
+const sine = (sections: [number, number][], frequency = 1000, phase = 0): Float32Array => {
+  const total = sections.reduce((sum, [seconds]) => sum + Math.round(seconds * RATE), 0);
+  const data = new Float32Array(total);
+  let i = 0;
+  for (const [seconds, level] of sections) {
+    const amp = dbfs(level);
+    for (const end = i + Math.round(seconds * RATE); i < end; i++) {
+      data[i] = amp * Math.sin(2 * Math.PI * frequency * i / RATE + phase);
+    }
+  }
+  return data;
+};
+
+const planar = (...channels: Float32Array[]): PlanarAudio => ({
+  sampleRate: RATE,
+  numberOfChannels: channels.length,
+  getChannelData: (c: number) => channels[c],
+});
+
+describe('measureLoudness', () => {
+  it('reads a 1 kHz stereo sine at -20 dBFS as -20 LUFS', () => {
+    const tone = sine([[20, -20]]);
+    const stats = measureLoudness(planar(tone, tone));
+    expect(stats.integrated).toBeCloseTo(-20, 1);
+    expect(stats.momentaryMax).toBeCloseTo(-20, 1);
+    expect(stats.shortTermMax).toBeCloseTo(-20, 1);
+    expect(stats.samplePeak).toBeCloseTo(-20, 1);
+    expect(stats.lra).toBeLessThan(0.2);
+  });
+
+  it('reads the same sine in mono 3 LU quieter', () => {
+    expect(measureLoudness(planar(sine([[20, -20]]))).integrated).toBeCloseTo(-23, 1);
+  });
+
+  // Blocks straddling the cut still pass the gate, hence the 0.1 LU allowance (the BS.1770 tolerance)
+  it('leaves silence out of the integrated loudness', () => {
+    const tone = sine([[10, -20], [10, -Infinity]]);
+    expect(Math.abs(measureLoudness(planar(tone, tone)).integrated + 20)).toBeLessThan(0.1);
+  });
+
+  it('gates out passages more than 10 LU below the programme', () => {
+    // Ungated this would average to about -23 LUFS
+    const tone = sine([[10, -20], [10, -50]]);
+    expect(Math.abs(measureLoudness(planar(tone, tone)).integrated + 20)).toBeLessThan(0.1);
+  });
+
+  it('keeps passages within the relative gate', () => {
+    // -20 and -26 both pass the gate, so the result is their energy mean
+    const tone = sine([[10, -20], [10, -26]]);
+    const expected = 10 * Math.log10((1 + Math.pow(10, -0.6)) / 2) - 20;
+    expect(measureLoudness(planar(tone, tone)).integrated).toBeCloseTo(expected, 1);
+  });
+
+  it('reports -70 LUFS for digital silence', () => {
+    const silence = new Float32Array(RATE * 5);
+    const stats = measureLoudness(planar(silence, silence));
+    expect(stats.integrated).toBeLessThanOrEqual(-70);
+    expect(stats.lra).toBe(0);
+  });
+
+  it('measures the loudness range between a loud and a quiet section', () => {
+    const tone = sine([[30, -20], [30, -30]]);
+    expect(measureLoudness(planar(tone, tone)).lra).toBeCloseTo(10, 0);
+  });
+
+  it('finds the inter-sample peak above the sample peak', () => {
+    // fs/4 at 45° lands every sample at ±0.707 while the waveform reaches ±1
+    const tone = sine([[1, -1]], RATE / 4, Math.PI / 4);
+    const stats = measureLoudness(planar(tone));
+    expect(stats.samplePeak).toBeCloseTo(-4, 1);
+    expect(stats.truePeak).toBeGreaterThan(stats.samplePeak + 2.5);
+    expect(stats.truePeak).toBeCloseTo(-1, 0);
+  });
+
+  it('never puts the true peak below the sample peak', () => {
+    const tone = sine([[1, -6]], 1000);
+    const stats = measureLoudness(planar(tone));
+    expect(stats.truePeak).toBeGreaterThanOrEqual(stats.samplePeak);
+  });
+});
+
+describe('createLoudnessMeter', () => {
+  it('gives the same result fed in uneven chunks as in one go', () => {
+    const left = sine([[10, -18], [10, -30]]);
+    const right = sine([[10, -24], [10, -26]], 440);
+    const whole = measureLoudness(planar(left, right));
+
+    const meter = createLoudnessMeter(RATE, 2);
+    for (let start = 0, size = 1; start < left.length; start += size, size = (size * 7) % 9973 + 1) {
+      meter.push([left.subarray(start, start + size), right.subarray(start, start + size)]);
+    }
+    const streamed = meter.finish();
+
+    expect(streamed.integrated).toBeCloseTo(whole.integrated, 6);
+    expect(streamed.lra).toBeCloseTo(whole.lra, 6);
+    expect(streamed.truePeak).toBeCloseTo(whole.truePeak, 6);
+    expect(streamed.samplePeak).toBeCloseTo(whole.samplePeak, 6);
+  });
+});
@@ -0,0 +1,301 @@
+// --- ITU-R BS.1770-4 / EBU R128 LOUDNESS METER ---
+// Streaming implementation: feed planar channel data with push() as it is decoded,
+// then call finish() for the programme totals. Memory use is constant regardless of
+// programme length (gating is done on fixed-size loudness histograms).
+
+export interface LoudnessStats {
+  integrated: number;   // Gated integrated loudness (LUFS)
+  momentaryMax: number; // Max 400ms loudness (LUFS)
+  shortTermMax: number; // Max 3s loudness (LUFS)
+  lra: number;          // Loudness Range (LU)
+  truePeak: number;     // 4x oversampled peak (dBTP)
+  samplePeak: number;   // Sample peak (dBFS)
+}
+
+export interface LoudnessMeter {
+  push: (channels: Float32Array[]) => void;
+  finish: () => LoudnessStats;
+}
+
+// Minimal surface needed from a decoded buffer, so plain objects work in tests.
+export type PlanarAudio = Pick<AudioBuffer, 'sampleRate' | 'numberOfChannels' | 'getChannelData'>;
+
+const ABS_GATE = -70;            // LUFS
+const REL_GATE_INTEGRATED = -10; // LU below ungated mean
+const REL_GATE_LRA = -20;        // LU below ungated mean
+const MOMENTARY_SUBBLOCKS = 4;   // 400ms in 100ms steps (75% overlap)
+const SHORT_TERM_SUBBLOCKS = 30; // 3s in 100ms steps
+
+// Gating histogram: 0.1 LU bins from -70 to +30 LUFS
+const HIST_MIN = ABS_GATE;
+const HIST_STEP = 0.1;
+const HIST_BINS = 1000;
+
+// True peak interpolator: 4x polyphase windowed-sinc, 12 taps per phase (48 total, as Annex 2)
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+interface Biquad { b0: number; b1: number; b2: number; a1: number; a2: number; }
+
+interface GateHistogram { counts: Float64Array; energy: Float64Array; }
+
+interface ChannelState {
+  weight: number;
+  // Direct form II transposed state for the two K-weighting stages
+  s1: number; s2: number; s3: number; s4: number;
+  // History duplicated over 2x length so the FIR reads a contiguous window
+  history: Float64Array;
+  pos: number;
+  truePeak: number;
+  samplePeak: number;
+}
+
+export const energyToLufs = (energy: number): number =>
+  energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity;
+
+export const amplitudeToDb = (amp: number): number => 20 * Math.log10(amp || 0.00000001);
+
+// K-weighting (pre-filter shelf + RLB highpass) derived for any sample rate.
+// At 48kHz these reproduce the coefficients tabulated in BS.1770-4.
+const kWeightingFilters = (fs: number): [Biquad, Biquad] => {
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / fs);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / fs);
+  a0 = 1 + K / Q + K * K;
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highpass];
+};
+
+// Blackman-windowed sinc split into OVERSAMPLE phases, each normalised to unity DC gain.
+const buildInterpolator = (): Float64Array[] => {
+  const length = OVERSAMPLE * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: OVERSAMPLE }, () => new Float64Array(TAPS_PER_PHASE));
+  for (let n = 0; n < length; n++) {
+    const t = (n - center) / OVERSAMPLE;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const w = 0.42 - 0.5 * Math.cos(2 * Math.PI * n / (length - 1)) + 0.08 * Math.cos(4 * Math.PI * n / (length - 1));
+    phases[n % OVERSAMPLE][Math.floor(n / OVERSAMPLE)] = sinc * w;
+  }
+  for (const phase of phases) {
+    const sum = phase.reduce((acc, v) => acc + v, 0);
+    for (let k = 0; k < phase.length; k++) phase[k] /= sum;
+  }
+  return phases;
+};
+
+// BS.1770 channel weights. For 5.1 (L R C LFE Ls Rs) the LFE is excluded
+// and the surrounds are weighted +1.5dB.
+const channelWeight = (index: number, count: number): number => {
+  if (count !== 6) return 1;
+  if (index === 3) return 0;
+  return index >= 4 ? 1.41 : 1;
+};
+
+const createHistogram = (): GateHistogram => ({
+  counts: new Float64Array(HIST_BINS),
+  energy: new Float64Array(HIST_BINS),
+});
+
+const addToHistogram = (hist: GateHistogram, energy: number) => {
+  const lufs = energyToLufs(energy);
+  if (lufs < ABS_GATE) return;
+  const bin = Math.min(HIST_BINS - 1, Math.floor((lufs - HIST_MIN) / HIST_STEP));
+  hist.counts[bin] += 1;
+  hist.energy[bin] += energy;
+};
+
+const binForLufs = (lufs: number): number =>
+  Math.max(0, Math.min(HIST_BINS, Math.ceil((lufs - HIST_MIN) / HIST_STEP)));
+
+// Mean energy of all abs-gated blocks at or above the given bin
+const meanEnergyFrom = (hist: GateHistogram, fromBin: number): number => {
+  let count = 0;
+  let energy = 0;
+  for (let i = fromBin; i < HIST_BINS; i++) {
+    count += hist.counts[i];
+    energy += hist.energy[i];
+  }
+  return count > 0 ? energy / count : 0;
+};
+
+const integratedLoudness = (hist: GateHistogram): number => {
+  const ungated = meanEnergyFrom(hist, 0);
+  if (ungated === 0) return ABS_GATE;
+  const gate = energyToLufs(ungated) + REL_GATE_INTEGRATED;
+  const gated = meanEnergyFrom(hist, binForLufs(gate));
+  return gated > 0 ? energyToLufs(gated) : ABS_GATE;
+};
+
+// EBU Tech 3342: 10th to 95th percentile of relative-gated short-term loudness
+const loudnessRange = (hist: GateHistogram): number => {
+  const ungated = meanEnergyFrom(hist, 0);
+  if (ungated === 0) return 0;
+  const fromBin = binForLufs(energyToLufs(ungated) + REL_GATE_LRA);
+
+  let total = 0;
+  for (let i = fromBin; i < HIST_BINS; i++) total += hist.counts[i];
+  if (total === 0) return 0;
+
+  const percentile = (p: number): number => {
+    const target = total * p;
+    let seen = 0;
+    for (let i = fromBin; i < HIST_BINS; i++) {
+      seen += hist.counts[i];
+      if (seen > target) return HIST_MIN + (i + 0.5) * HIST_STEP;
+    }
+    return HIST_MIN + (HIST_BINS - 0.5) * HIST_STEP;
+  };
+
+  return Math.max(0, percentile(0.95) - percentile(0.1));
+};
+
+export const createLoudnessMeter = (sampleRate: number, channelCount: number): LoudnessMeter => {
+  const [shelf, highpass] = kWeightingFilters(sampleRate);
+  const phases = buildInterpolator();
+  const subBlockSize = Math.round(sampleRate * 0.1);
+
+  const channels: ChannelState[] = Array.from({ length: channelCount }, (_, i) => ({
+    weight: channelWeight(i, channelCount),
+    s1: 0, s2: 0, s3: 0, s4: 0,
+    history: new Float64Array(TAPS_PER_PHASE * 2),
+    pos: 0,
+    truePeak: 0,
+    samplePeak: 0,
+  }));
+
+  const recent = new Float64Array(SHORT_TERM_SUBBLOCKS);
+  let subBlocks = 0;
+  let subBlockFill = 0;
+  let subBlockEnergy = 0;
+  let momentaryMax = -Infinity;
+  let shortTermMax = -Infinity;
+  const blockHist = createHistogram();
+  const shortTermHist = createHistogram();
+
+  const windowEnergy = (count: number): number => {
+    let sum = 0;
+    for (let i = 0; i < count; i++) {
+      sum += recent[(subBlocks - 1 - i + SHORT_TERM_SUBBLOCKS) % SHORT_TERM_SUBBLOCKS];
+    }
+    return sum / count;
+  };
+
+  const closeSubBlock = () => {
+    recent[subBlocks % SHORT_TERM_SUBBLOCKS] = subBlockEnergy / subBlockSize;
+    subBlocks++;
+    subBlockFill = 0;
+    subBlockEnergy = 0;
+
+    if (subBlocks >= MOMENTARY_SUBBLOCKS) {
+      const energy = windowEnergy(MOMENTARY_SUBBLOCKS);
+      momentaryMax = Math.max(momentaryMax, energyToLufs(energy));
+      addToHistogram(blockHist, energy);
+    }
+    if (subBlocks >= SHORT_TERM_SUBBLOCKS) {
+      const energy = windowEnergy(SHORT_TERM_SUBBLOCKS);
+      shortTermMax = Math.max(shortTermMax, energyToLufs(energy));
+      addToHistogram(shortTermHist, energy);
+    }
+  };
+
+  // Filters `count` samples of one channel, tracks its peaks and returns the sum of squares
+  const processChannel = (ch: ChannelState, data: Float32Array, offset: number, count: number): number => {
+    let { s1, s2, s3, s4, pos, truePeak, samplePeak } = ch;
+    const history = ch.history;
+    let sum = 0;
+
+    for (let i = offset; i < offset + count; i++) {
+      const x = data[i];
+
+      // Stage 1: high shelf
+      const y1 = shelf.b0 * x + s1;
+      s1 = shelf.b1 * x - shelf.a1 * y1 + s2;
+      s2 = shelf.b2 * x - shelf.a2 * y1;
+      // Stage 2: RLB highpass
+      const y2 = highpass.b0 * y1 + s3;
+      s3 = highpass.b1 * y1 - highpass.a1 * y2 + s4;
+      s4 = highpass.b2 * y1 - highpass.a2 * y2;
+      sum += y2 * y2;
+
+      const abs = Math.abs(x);
+      if (abs > samplePeak) samplePeak = abs;
+
+      history[pos] = x;
+      history[pos + TAPS_PER_PHASE] = x;
+      pos = (pos + 1) % TAPS_PER_PHASE;
+      // Newest sample now sits at history[pos + TAPS_PER_PHASE - 1]
+      for (let p = 0; p < OVERSAMPLE; p++) {
+        const h = phases[p];
+        let acc = 0;
+        for (let k = 0; k < TAPS_PER_PHASE; k++) {
+          acc += h[k] * history[pos + TAPS_PER_PHASE - 1 - k];
+        }
+        const a = Math.abs(acc);
+        if (a > truePeak) truePeak = a;
+      }
+    }
+
+    Object.assign(ch, { s1, s2, s3, s4, pos, truePeak, samplePeak });
+    return sum;
+  };
+
+  const push = (data: Float32Array[]) => {
+    const length = data[0]?.length ?? 0;
+    let offset = 0;
+    while (offset < length) {
+      const count = Math.min(length - offset, subBlockSize - subBlockFill);
+      for (let c = 0; c < channelCount; c++) {
+        const sumSquares = processChannel(channels[c], data[c] ?? data[0], offset, count);
+        subBlockEnergy += channels[c].weight * sumSquares;
+      }
+      subBlockFill += count;
+      offset += count;
+      if (subBlockFill === subBlockSize) closeSubBlock();
+    }
+  };
+
+  const finish = (): LoudnessStats => {
+    const samplePeak = Math.max(0, ...channels.map(c => c.samplePeak));
+    // The interpolator can undershoot a sample it lands on, so true peak is never below sample peak
+    const truePeak = Math.max(samplePeak, ...channels.map(c => c.truePeak));
+    return {
+      integrated: integratedLoudness(blockHist),
+      momentaryMax: Math.max(ABS_GATE, momentaryMax),
+      shortTermMax: Math.max(ABS_GATE, shortTermMax),
+      lra: loudnessRange(shortTermHist),
+      truePeak: amplitudeToDb(truePeak),
+      samplePeak: amplitudeToDb(samplePeak),
+    };
+  };
+
+  return { push, finish };
+};
+
+export const measureLoudness = (audio: PlanarAudio): LoudnessStats => {
+  const meter = createLoudnessMeter(audio.sampleRate, audio.numberOfChannels);
+  meter.push(Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c)));
+  return meter.finish();
+};
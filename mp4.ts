@@ -0,0 +1,421 @@
+import { Chapter } from './types';
+
+// --- MP4 / M4B CONTAINER PARSING ---
+// Reads box headers straight from the File via slices, so only the `moov` metadata is ever
+// loaded into memory regardless of where it sits (start or end of file) or how big `mdat` is.
+
+export interface Mp4Box {
+  type: string;
+  start: number;      // Absolute offset of the box header
+  headerSize: number;
+  size: number;       // Total size including header
+}
+
+export interface AacConfig {
+  objectType: number;  // Core AAC object type (2 = LC)
+  sampleRate: number;  // Core sampling rate
+  samplingIndex: number;
+  channelConfig: number;
+}
+
+export interface Mp4AudioTrack {
+  timescale: number;
+  duration: number;    // Seconds
+  sampleRate: number;  // Output rate declared by the sample entry
+  channels: number;
+  codec: string;       // Sample entry fourcc, e.g. 'mp4a'
+  aac: AacConfig | null;
+  sampleCount: number;
+  // Views into the moov buffer; sample offsets are resolved lazily by iterateSamples()
+  stsz: DataView;
+  stsc: DataView;
+  chunkOffsets: number[];
+}
+
+export interface Mp4Sample {
+  index: number;
+  offset: number;
+  size: number;
+}
+
+export const SAMPLING_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const fourcc = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+
+const readHeader = (view: DataView, offset: number, limit: number): Mp4Box | null => {
+  if (offset + 8 > limit) return null;
+  let size = view.getUint32(offset);
+  const type = fourcc(view, offset + 4);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > limit) return null;
+    size = readUint64(view, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < headerSize) return null;
+  return { type, start: offset, headerSize, size };
+};
+
+// Top-level box scan over the file itself (16-byte reads per box)
+export const scanTopLevelBoxes = async (file: Blob): Promise<Mp4Box[]> => {
+  const boxes: Mp4Box[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const head = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    const box = readHeader(head, 0, Math.min(16, file.size - offset));
+    if (!box) break;
+    // size 0 means "to end of file", which readHeader can't know from a 16-byte window
+    const size = head.getUint32(0) === 0 ? file.size - offset : box.size;
+    boxes.push({ ...box, start: offset, size });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const isMp4 = async (file: Blob): Promise<boolean> => {
+  if (file.size < 12) return false;
+  const head = new DataView(await file.slice(0, 12).arrayBuffer());
+  return ['ftyp', 'moov', 'mdat', 'free', 'wide'].includes(fourcc(head, 4));
+};
+
+// Loads the moov box into memory. Returns a view whose offsets are relative to the moov start.
+export const readMoov = async (file: Blob): Promise<DataView | null> => {
+  const moov = (await scanTopLevelBoxes(file)).find(b => b.type === 'moov');
+  if (!moov) return null;
+  return new DataView(await file.slice(moov.start, moov.start + moov.size).arrayBuffer());
+};
+
+export const childBoxes = (view: DataView, parent: Mp4Box): Mp4Box[] => {
+  const children: Mp4Box[] = [];
+  const end = parent.start + parent.size;
+  let offset = parent.start + parent.headerSize;
+  while (offset < end) {
+    const box = readHeader(view, offset, end);
+    if (!box) break;
+    children.push(box);
+    offset += box.size;
+  }
+  return children;
+};
+
+// Depth-first search following a path of box types, e.g. ['trak', 'mdia', 'mdhd']
+export const findPath = (view: DataView, root: Mp4Box, path: string[]): Mp4Box | null => {
+  let current: Mp4Box | null = root;
+  for (const type of path) {
+    if (!current) return null;
+    current = childBoxes(view, current).find(b => b.type === type) || null;
+  }
+  return current;
+};
+
+export const rootBox = (view: DataView): Mp4Box => readHeader(view, 0, view.byteLength)!;
+
+export const boxView = (view: DataView, box: Mp4Box): DataView =>
+  new DataView(view.buffer, view.byteOffset + box.start + box.headerSize, box.size - box.headerSize);
+
+// AudioSpecificConfig (ISO 14496-3 1.6.2.1). HE-AAC (SBR/PS) is reduced to its AAC-LC core,
+// which is what an ADTS stream signals.
+const parseAudioSpecificConfig = (bytes: Uint8Array): AacConfig | null => {
+  let bitPos = 0;
+  const read = (n: number): number => {
+    let v = 0;
+    for (let i = 0; i < n; i++) {
+      const byte = bytes[bitPos >> 3];
+      if (byte === undefined) throw new Error('Truncated AudioSpecificConfig');
+      v = (v << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return v;
+  };
+  const readObjectType = () => {
+    const t = read(5);
+    return t === 31 ? 32 + read(6) : t;
+  };
+  const readRate = (): [number, number] => {
+    const idx = read(4);
+    return idx === 15 ? [idx, read(24)] : [idx, SAMPLING_RATES[idx] || 0];
+  };
+
+  try {
+    let objectType = readObjectType();
+    const [samplingIndex, sampleRate] = readRate();
+    const channelConfig = read(4);
+    if (objectType === 5 || objectType === 29) {
+      readRate(); // extension (SBR) rate
+      objectType = readObjectType();
+    }
+    return { objectType, sampleRate, samplingIndex, channelConfig };
+  } catch {
+    return null;
+  }
+};
+
+// Descriptor length: up to four 7-bit groups with continuation bit
+const readDescriptorLength = (view: DataView, offset: number): [number, number] => {
+  let length = 0;
+  let i = 0;
+  for (; i < 4; i++) {
+    const b = view.getUint8(offset + i);
+    length = (length << 7) | (b & 0x7f);
+    if (!(b & 0x80)) break;
+  }
+  return [length, i + 1];
+};
+
+const parseEsds = (esds: DataView): AacConfig | null => {
+  let offset = 4; // full box version/flags
+  while (offset < esds.byteLength - 2) {
+    const tag = esds.getUint8(offset);
+    const [length, lenBytes] = readDescriptorLength(esds, offset + 1);
+    const body = offset + 1 + lenBytes;
+    if (tag === 0x03) {
+      const flags = esds.getUint8(body + 2);
+      let next = body + 3;
+      if (flags & 0x80) next += 2;
+      if (flags & 0x40) next += 1 + esds.getUint8(next);
+      if (flags & 0x20) next += 2;
+      offset = next;
+    } else if (tag === 0x04) {
+      offset = body + 13;
+    } else if (tag === 0x05) {
+      return parseAudioSpecificConfig(new Uint8Array(esds.buffer, esds.byteOffset + body, length));
+    } else {
+      offset = body + length;
+    }
+  }
+  return null;
+};
+
+const parseSampleEntry = (view: DataView, stsd: Mp4Box) => {
+  const entry = readHeader(view, stsd.start + stsd.headerSize + 8, stsd.start + stsd.size);
+  if (!entry) return null;
+  const body = entry.start + entry.headerSize;
+  const version = view.getUint16(body + 8);
+  const channels = view.getUint16(body + 16);
+  const sampleRate = view.getUint32(body + 24) >>> 16;
+  // QuickTime sound description v1/v2 carry extra fields before the child boxes
+  const childStart = body + 28 + (version === 1 ? 16 : version === 2 ? 36 : 0);
+  const children = childBoxes(view, { ...entry, headerSize: childStart - entry.start });
+  const wave = children.find(b => b.type === 'wave');
+  const esds = children.find(b => b.type === 'esds') || (wave && childBoxes(view, wave).find(b => b.type === 'esds'));
+  return {
+    codec: entry.type,
+    channels,
+    sampleRate,
+    aac: esds ? parseEsds(boxView(view, esds)) : null,
+  };
+};
+
+const handlerType = (view: DataView, trak: Mp4Box): string | null => {
+  const hdlr = findPath(view, trak, ['mdia', 'hdlr']);
+  return hdlr ? fourcc(view, hdlr.start + hdlr.headerSize + 8) : null;
+};
+
+export const parseMediaHeader = (view: DataView, trak: Mp4Box): { timescale: number; duration: number } | null => {
+  const mdhd = findPath(view, trak, ['mdia', 'mdhd']);
+  if (!mdhd) return null;
+  const body = mdhd.start + mdhd.headerSize;
+  const version = view.getUint8(body);
+  const timescale = version === 1 ? view.getUint32(body + 20) : view.getUint32(body + 12);
+  const duration = version === 1 ? readUint64(view, body + 24) : view.getUint32(body + 16);
+  return { timescale, duration };
+};
+
+export const readChunkOffsets = (view: DataView, stbl: Mp4Box): number[] => {
+  const stco = findPath(view, stbl, ['stco']);
+  const co64 = findPath(view, stbl, ['co64']);
+  const box = stco || co64;
+  if (!box) return [];
+  const body = boxView(view, box);
+  const count = body.getUint32(4);
+  const offsets: number[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    offsets[i] = co64 && !stco ? readUint64(body, 8 + i * 8) : body.getUint32(8 + i * 4);
+  }
+  return offsets;
+};
+
+export const findTracks = (view: DataView, handler: string): Mp4Box[] =>
+  childBoxes(view, rootBox(view)).filter(b => b.type === 'trak' && handlerType(view, b) === handler);
+
+export const parseAudioTrack = (moov: DataView): Mp4AudioTrack | null => {
+  const trak = findTracks(moov, 'soun')[0];
+  if (!trak) return null;
+  const stbl = findPath(moov, trak, ['mdia', 'minf', 'stbl']);
+  const header = parseMediaHeader(moov, trak);
+  if (!stbl || !header) return null;
+
+  const stsd = findPath(moov, stbl, ['stsd']);
+  const stsz = findPath(moov, stbl, ['stsz']);
+  const stsc = findPath(moov, stbl, ['stsc']);
+  const entry = stsd && parseSampleEntry(moov, stsd);
+  if (!entry || !stsz || !stsc) return null;
+
+  const stszView = boxView(moov, stsz);
+  return {
+    timescale: header.timescale,
+    duration: header.duration / header.timescale,
+    sampleRate: entry.sampleRate || header.timescale,
+    channels: entry.channels,
+    codec: entry.codec,
+    aac: entry.aac,
+    sampleCount: stszView.getUint32(8),
+    stsz: stszView,
+    stsc: boxView(moov, stsc),
+    chunkOffsets: readChunkOffsets(moov, stbl),
+  };
+};
+
+// Walks the sample table (stsc + stsz + stco) without materialising per-sample arrays
+export function* iterateSamples(track: Mp4AudioTrack): Generator<Mp4Sample> {
+  const fixedSize = track.stsz.getUint32(4);
+  const sizeOf = (i: number) => fixedSize || track.stsz.getUint32(12 + i * 4);
+  const entries = track.stsc.getUint32(4);
+  let sample = 0;
+
+  for (let e = 0; e < entries; e++) {
+    const firstChunk = track.stsc.getUint32(8 + e * 12) - 1;
+    const perChunk = track.stsc.getUint32(12 + e * 12);
+    const lastChunk = e + 1 < entries ? track.stsc.getUint32(8 + (e + 1) * 12) - 1 : track.chunkOffsets.length;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      let offset = track.chunkOffsets[chunk];
+      for (let s = 0; s < perChunk && sample < track.sampleCount; s++, sample++) {
+        const size = sizeOf(sample);
+        yield { index: sample, offset, size };
+        offset += size;
+      }
+    }
+  }
+}
+
+// 7-byte ADTS header (no CRC) so raw AAC frames can be handed to decodeAudioData
+export const adtsHeader = (config: AacConfig, frameLength: number): Uint8Array => {
+  const len = frameLength + 7;
+  const profile = (config.objectType - 1) & 0x3;
+  const ch = config.channelConfig;
+  return new Uint8Array([
+    0xff,
+    0xf1,
+    (profile << 6) | ((config.samplingIndex & 0xf) << 2) | ((ch >> 2) & 0x1),
+    ((ch & 0x3) << 6) | ((len >> 11) & 0x3),
+    (len >> 3) & 0xff,
+    ((len & 0x7) << 5) | 0x1f,
+    0xfc,
+  ]);
+};
+
+// --- CHAPTERS ---
+
+const trackId = (view: DataView, trak: Mp4Box): number | null => {
+  const tkhd = findPath(view, trak, ['tkhd']);
+  if (!tkhd) return null;
+  const body = tkhd.start + tkhd.headerSize;
+  return view.getUint8(body) === 1 ? view.getUint32(body + 20) : view.getUint32(body + 12);
+};
+
+const decodeText = (bytes: Uint8Array): string => {
+  const utf16 = bytes.length >= 2 && ((bytes[0] === 0xfe && bytes[1] === 0xff) || (bytes[0] === 0xff && bytes[1] === 0xfe));
+  return new TextDecoder(utf16 ? 'utf-16' : 'utf-8').decode(bytes).replace(/\0+$/, '').trim();
+};
+
+// Sample start times (in track timescale units) from the time-to-sample table
+const sampleStartTimes = (view: DataView, stbl: Mp4Box): number[] => {
+  const stts = findPath(view, stbl, ['stts']);
+  if (!stts) return [];
+  const body = boxView(view, stts);
+  const times: number[] = [];
+  let t = 0;
+  for (let e = 0; e < body.getUint32(4); e++) {
+    const count = body.getUint32(8 + e * 8);
+    const delta = body.getUint32(12 + e * 8);
+    for (let i = 0; i < count; i++, t += delta) times.push(t);
+  }
+  return times;
+};
+
+// Nero chapters: moov/udta/chpl, start times in 100ns units
+const parseChpl = (view: DataView): { title: string; start: number }[] => {
+  const chpl = findPath(view, rootBox(view), ['udta', 'chpl']);
+  if (!chpl) return [];
+  const body = boxView(view, chpl);
+  let offset = body.getUint8(0) === 1 ? 8 : 4;
+  const count = body.getUint8(offset++);
+  const marks: { title: string; start: number }[] = [];
+  for (let i = 0; i < count && offset + 9 <= body.byteLength; i++) {
+    const start = readUint64(body, offset) / 10000000;
+    const len = body.getUint8(offset + 8);
+    const title = decodeText(new Uint8Array(body.buffer, body.byteOffset + offset + 9, len));
+    marks.push({ title, start });
+    offset += 9 + len;
+  }
+  return marks;
+};
+
+// QuickTime chapters: a text track referenced from the audio track's tref/chap
+const parseChapterTrack = async (file: Blob, view: DataView): Promise<{ title: string; start: number }[]> => {
+  const audio = findTracks(view, 'soun')[0];
+  const chap = audio && findPath(view, audio, ['tref', 'chap']);
+  if (!chap) return [];
+  const ids = new Set<number>();
+  for (let o = chap.start + chap.headerSize; o + 4 <= chap.start + chap.size; o += 4) ids.add(view.getUint32(o));
+
+  const trak = childBoxes(view, rootBox(view)).find(b => b.type === 'trak' && ids.has(trackId(view, b) ?? -1));
+  const stbl = trak && findPath(view, trak, ['mdia', 'minf', 'stbl']);
+  const header = trak && parseMediaHeader(view, trak);
+  const stsz = stbl && findPath(view, stbl, ['stsz']);
+  const stsc = stbl && findPath(view, stbl, ['stsc']);
+  if (!stbl || !header || !stsz || !stsc) return [];
+
+  const stszView = boxView(view, stsz);
+  const textTrack: Mp4AudioTrack = {
+    timescale: header.timescale,
+    duration: header.duration / header.timescale,
+    sampleRate: header.timescale,
+    channels: 0,
+    codec: 'text',
+    aac: null,
+    sampleCount: stszView.getUint32(8),
+    stsz: stszView,
+    stsc: boxView(view, stsc),
+    chunkOffsets: readChunkOffsets(view, stbl),
+  };
+  const times = sampleStartTimes(view, stbl);
+
+  const marks: { title: string; start: number }[] = [];
+  for (const sample of iterateSamples(textTrack)) {
+    const raw = new DataView(await file.slice(sample.offset, sample.offset + sample.size).arrayBuffer());
+    const len = raw.byteLength >= 2 ? Math.min(raw.getUint16(0), raw.byteLength - 2) : 0;
+    const title = decodeText(new Uint8Array(raw.buffer, 2, len)) || `Chapter ${sample.index + 1}`;
+    marks.push({ title, start: (times[sample.index] ?? 0) / header.timescale });
+  }
+  return marks;
+};
+
+/**
+ * Reads the chapter list of an M4B/MP4. Nero `chpl` is preferred, then the QuickTime
+ * chapter track. Returns [] for files without chapters or that aren't MP4.
+ */
+export const readChapters = async (file: Blob): Promise<Chapter[]> => {
+  if (!(await isMp4(file))) return [];
+  const moov = await readMoov(file);
+  if (!moov) return [];
+
+  let marks = parseChpl(moov);
+  if (marks.length === 0) marks = await parseChapterTrack(file, moov);
+  if (marks.length === 0) return [];
+
+  const audio = parseAudioTrack(moov);
+  const total = audio ? audio.duration : marks[marks.length - 1].start;
+  marks.sort((a, b) => a.start - b.start);
+  return marks.map((m, i) => ({
+    title: m.title || `Chapter ${i + 1}`,
+    start: m.start,
+    end: i + 1 < marks.length ? marks[i + 1].start : total,
+  }));
+};
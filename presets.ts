@@ -0,0 +1,133 @@
+import { AudioConfig, AudioPreset } from './types';
+import { validateConfig } from './validate';
+
+// --- USER PRESET LIBRARY ---
+// Custom presets live in localStorage and travel between machines as versioned JSON
+// files. Unlike the built-in presets they snapshot the whole config.
+
+export interface UserPreset extends AudioPreset {
+  tags: string[];    // Narrator, genre, ...
+  updatedAt: string; // ISO timestamp
+}
+
+export interface PresetLibraryFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: UserPreset[];
+}
+
+export interface PresetImport {
+  presets: UserPreset[];
+  errors: string[];
+}
+
+const STORAGE_KEY = 'audioforge.userPresets';
+export const PRESET_FILE_FORMAT = 'audio-forge-presets';
+export const PRESET_FILE_VERSION = 1;
+
+const newPresetId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Comma-separated input to a clean, de-duplicated tag list
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const createUserPreset = (name: string, config: AudioConfig, tags: string[] = [], description = ''): UserPreset => ({
+  id: newPresetId(),
+  name: name.trim(),
+  description,
+  tags,
+  config: { ...config, eqBands: config.eqBands.map(band => ({ ...band })) },
+  updatedAt: new Date().toISOString(),
+});
+
+export const duplicateUserPreset = (preset: UserPreset): UserPreset => ({
+  ...preset,
+  id: newPresetId(),
+  name: `${preset.name} (copy)`,
+  tags: [...preset.tags],
+  updatedAt: new Date().toISOString(),
+});
+
+// One preset from a file or storage; `label` names it in error messages
+const parsePreset = (raw: unknown, label: string): { preset?: UserPreset; errors: string[] } => {
+  if (typeof raw !== 'object' || raw === null) return { errors: [`${label}: not a preset`] };
+  const p = raw as Record<string, unknown>;
+  if (typeof p.name !== 'string' || !p.name.trim()) return { errors: [`${label}: missing name`] };
+  if (p.tags !== undefined && (!Array.isArray(p.tags) || p.tags.some(t => typeof t !== 'string'))) {
+    return { errors: [`"${p.name}": tags must be a list of strings`] };
+  }
+
+  const { config, errors } = validateConfig(p.config);
+  if (errors.length > 0) return { errors: errors.map(e => `"${p.name}": ${e}`) };
+  return {
+    errors: [],
+    preset: {
+      id: typeof p.id === 'string' && p.id ? p.id : newPresetId(),
+      name: p.name.trim(),
+      description: typeof p.description === 'string' ? p.description : '',
+      tags: parseTags(((p.tags as string[] | undefined) || []).join(',')),
+      config,
+      updatedAt: typeof p.updatedAt === 'string' ? p.updatedAt : new Date().toISOString(),
+    },
+  };
+};
+
+// --- PERSISTENCE ---
+
+export const loadUserPresets = (): UserPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored.map((raw, i) => parsePreset(raw, `stored preset ${i + 1}`).preset).filter((p): p is UserPreset => !!p)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: UserPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportPresetLibrary = (presets: UserPreset[]): string => {
+  const file: PresetLibraryFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Valid presets are returned even when others in the file are rejected
+export const importPresetLibrary = (text: string): PresetImport => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { presets: [], errors: ['Not a JSON file'] };
+  }
+  const f = file as Partial<PresetLibraryFile>;
+  if (typeof file !== 'object' || file === null || f.format !== PRESET_FILE_FORMAT) {
+    return { presets: [], errors: ['Not an Audio Forge preset library'] };
+  }
+  if (typeof f.version !== 'number' || f.version > PRESET_FILE_VERSION) {
+    return { presets: [], errors: [`Unsupported library version ${f.version} (this app reads up to ${PRESET_FILE_VERSION})`] };
+  }
+  if (!Array.isArray(f.presets)) return { presets: [], errors: ['Library has no preset list'] };
+
+  const parsed = f.presets.map((raw, i) => parsePreset(raw, `preset ${i + 1}`));
+  return {
+    presets: parsed.map(r => r.preset).filter((p): p is UserPreset => !!p),
+    errors: parsed.flatMap(r => r.errors),
+  };
+};
+
+// Imported presets replace local ones with the same id, so re-importing a team library updates it
+export const mergePresets = (existing: UserPreset[], incoming: UserPreset[]): UserPreset[] => {
+  const byId = new Map(incoming.map(p => [p.id, p]));
+  return [...existing.map(p => byId.get(p.id) || p), ...incoming.filter(p => !existing.some(e => e.id === p.id))];
+};
@@ -0,0 +1,169 @@
+import { AudioConfig, StageId } from './types';
+import { measureLoudness } from './loudness';
+import { bandGain } from './eq';
+import { getNoiseReductionParams, getCompressorParams } from './filtergraph';
+
+// --- IN-BROWSER PREVIEW ---
+// Approximates the ffmpeg chain so settings can be auditioned without running a script.
+// Filters and the compressor are native Web Audio nodes rendered offline; the noise gate,
+// loudness gain and limiter run in JS on the rendered samples. Output is mono, like the
+// delivered file.
+
+const BUTTERWORTH_Q_DB = -3.01;  // Web Audio lowpass/highpass Q is in dB; this is Q 0.707 (poles=2)
+const GATE_KNEE = 12;            // dB above the noise floor where the gate is fully open
+const GATE_ATTACK = 0.005;       // s
+const GATE_RELEASE = 0.1;        // s
+const DEESSER_MAX_CUT = 9;       // dB at full strength
+const COMPRESSOR_KNEE = 2.8;     // dB, acompressor default
+const LIMITER_LOOKAHEAD = 0.005; // s, matches alimiter attack=5
+const LIMITER_RELEASE = 0.05;    // s, matches alimiter release=50
+const SILENCE_LUFS = -70;        // Below this the clip is treated as silent and left alone
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const renderGraph = (input: AudioBuffer, build: (ctx: OfflineAudioContext, source: AudioNode) => AudioNode): Promise<AudioBuffer> => {
+  const OfflineCtor = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  const ctx: OfflineAudioContext = new OfflineCtor(1, input.length, input.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = input;
+  build(ctx, source).connect(ctx.destination);
+  source.start();
+  return ctx.startRendering();
+};
+
+// Downward expander standing in for afftdn: quiet passages are pulled down by `nr` dB
+const applyNoiseGate = (data: Float32Array, sampleRate: number, config: AudioConfig) => {
+  const { nr, nf } = getNoiseReductionParams(config);
+  if (nr <= 0) return;
+  const closed = dbToGain(-nr);
+  const attack = Math.exp(-1 / (GATE_ATTACK * sampleRate));
+  const release = Math.exp(-1 / (GATE_RELEASE * sampleRate));
+  let envelope = 0;
+  let gain = 1;
+
+  for (let i = 0; i < data.length; i++) {
+    const power = data[i] * data[i];
+    envelope = power > envelope ? power + attack * (envelope - power) : power + release * (envelope - power);
+    const level = 10 * Math.log10(envelope + 1e-12);
+    const open = Math.min(1, Math.max(0, (level - nf) / GATE_KNEE));
+    const target = closed + (1 - closed) * open;
+    gain = target + (target < gain ? attack : release) * (gain - target);
+    data[i] *= gain;
+  }
+};
+
+// Loudest |sample| in [i, i + lookahead] for every i, via a monotonic queue
+const lookaheadPeaks = (data: Float32Array, lookahead: number): Float32Array => {
+  const peaks = new Float32Array(data.length);
+  const queue = new Int32Array(data.length);
+  let head = 0;
+  let tail = 0;
+  for (let j = 0; j < data.length + lookahead; j++) {
+    if (j < data.length) {
+      const v = Math.abs(data[j]);
+      while (tail > head && Math.abs(data[queue[tail - 1]]) <= v) tail--;
+      queue[tail++] = j;
+    }
+    const i = j - lookahead;
+    if (i < 0) continue;
+    while (queue[head] < i) head++;
+    peaks[i] = Math.abs(data[queue[head]]);
+  }
+  return peaks;
+};
+
+const applyLimiter = (data: Float32Array, sampleRate: number, limitDb: number) => {
+  const limit = dbToGain(limitDb);
+  const peaks = lookaheadPeaks(data, Math.round(LIMITER_LOOKAHEAD * sampleRate));
+  const release = Math.exp(-1 / (LIMITER_RELEASE * sampleRate));
+  let gain = 1;
+  for (let i = 0; i < data.length; i++) {
+    const target = peaks[i] > limit ? limit / peaks[i] : 1;
+    gain = target < gain ? target : target + release * (gain - target);
+    data[i] *= gain;
+  }
+};
+
+const biquad = (ctx: BaseAudioContext, type: BiquadFilterType, frequency: number): BiquadFilterNode => {
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = Math.min(frequency, ctx.sampleRate / 2);
+  filter.Q.value = BUTTERWORTH_Q_DB;
+  return filter;
+};
+
+type PreviewStage = (buffer: AudioBuffer, config: AudioConfig) => Promise<AudioBuffer>;
+
+// One entry per ffmpeg stage. JS stages work in place on buffers rendered by an earlier pass.
+const PREVIEW_STAGES: Record<StageId, PreviewStage | null> = {
+  highpass: (buffer, config) => renderGraph(buffer, (ctx, input) => input.connect(biquad(ctx, 'highpass', config.highpassFreq))),
+
+  denoise: async (buffer, config) => {
+    applyNoiseGate(buffer.getChannelData(0), buffer.sampleRate, config);
+    return buffer;
+  },
+
+  lowpass: (buffer, config) => renderGraph(buffer, (ctx, input) => input.connect(biquad(ctx, 'lowpass', config.lowpassFreq))),
+
+  eq: (buffer, config) => renderGraph(buffer, (ctx, input) =>
+    config.eqBands.reduce<AudioNode>((prev, band) => {
+      // Notches use the same deep peaking cut as the export
+      const filter = biquad(ctx, band.type === 'notch' ? 'peaking' : band.type, band.freq);
+      filter.Q.value = band.q;
+      filter.gain.value = bandGain(band);
+      return prev.connect(filter);
+    }, input)),
+
+  declick: null, // No browser equivalent; clicks pass through
+
+  // Static cut at the sibilance band in place of the dynamic deesser
+  deesser: (buffer, config) => renderGraph(buffer, (ctx, input) => {
+    const deesser = biquad(ctx, 'peaking', config.deesserFreq);
+    deesser.Q.value = 2;
+    deesser.gain.value = -config.deesserAmount * DEESSER_MAX_CUT;
+    return input.connect(deesser);
+  }),
+
+  compressor: (buffer, config) => renderGraph(buffer, (ctx, input) => {
+    const params = getCompressorParams(config);
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = params.threshold;
+    compressor.ratio.value = params.ratio;
+    compressor.attack.value = params.attack / 1000;
+    compressor.release.value = params.release / 1000;
+    compressor.knee.value = COMPRESSOR_KNEE;
+
+    const makeup = ctx.createGain();
+    makeup.gain.value = params.makeup;
+    return input.connect(compressor).connect(makeup);
+  }),
+
+  // A single linear gain to the LUFS target, like the second loudnorm pass of the full export
+  loudnorm: async (buffer, config) => {
+    const { integrated } = measureLoudness(buffer);
+    if (integrated > SILENCE_LUFS) {
+      const data = buffer.getChannelData(0);
+      const gain = dbToGain(config.loudnormTarget - integrated);
+      for (let i = 0; i < data.length; i++) data[i] *= gain;
+    }
+    return buffer;
+  },
+
+  limiter: async (buffer, config) => {
+    applyLimiter(buffer.getChannelData(0), buffer.sampleRate, config.loudnormTp);
+    return buffer;
+  },
+};
+
+/**
+ * Downmixes `source` to mono, then runs the stages in `config.stageOrder`, skipping
+ * bypassed ones, so the preview follows the same chain as the scripts.
+ */
+export const renderPreview = async (source: AudioBuffer, config: AudioConfig): Promise<AudioBuffer> => {
+  let buffer = await renderGraph(source, (_ctx, input) => input);
+  for (const id of config.stageOrder) {
+    const stage = PREVIEW_STAGES[id];
+    if (stage && !config.bypassedStages.includes(id)) buffer = await stage(buffer, config);
+  }
+  return buffer;
+};
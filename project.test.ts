@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalysis, DEFAULT_CONFIG } from './types';
+import { loadProject, migrateProject, PROJECT_FILE_FORMAT, PROJECT_VERSION, ProjectState, readProject, saveProject } from './project';
+
+// The measurements every analysis has
+const MEASURED: AudioAnalysis = {
+  estLufs: -22,
+  peak: -4,
+  integratedLufs: -21,
+  shortTermMax: -16,
+  momentaryMax: -14,
+  lra: 10,
+  truePeak: -3.5,
+  noiseFloor: -70,
+  duration: 3600,
+  sampleRate: 44100,
+  sourceRate: 44100,
+  channels: 1,
+  leadingSilence: 0.8,
+  trailingSilence: 3,
+  isEst: false,
+};
+
+const ANALYSIS: AudioAnalysis = {
+  ...MEASURED,
+  spectrum: { bands: [{ freq: 1000, db: -20 }], windows: 10 },
+  sections: { blockSeconds: 5, loudness: [-20], noise: [-60], sibilance: [-30] },
+  chapters: [{ chapter: { title: 'One', start: 0, end: 3600 }, analysis: MEASURED }],
+};
+
+const STATE: ProjectState = {
+  mode: 'studio',
+  baseDir: '~/Books/',
+  inputPath: '~/Books/raw.m4b',
+  exportPath: '~/Books/out/',
+  config: { ...DEFAULT_CONFIG, highpassFreq: 100, outputFormat: 'mp3' },
+  analysis: ANALYSIS,
+  aiInsight: 'Some hiss.',
+  chapters: [{ title: 'One', start: 0, end: 3600 }],
+  fileVersion: 4,
+  perChapterLoudness: true,
+  splitCredits: false,
+  verifyOutput: true,
+  complianceProfileId: 'acx',
+  studioScriptMode: 'full',
+  scriptTarget: 'powershell',
+  batchItems: [{ id: 'a', path: '/data/a.m4b', overrides: { highpassFreq: 90 }, analysis: null, error: 'Could not decode' }],
+  scriptHistory: [{ version: 3, mode: 'full', createdAt: '2026-01-01T00:00:00.000Z', script: 'echo', config: DEFAULT_CONFIG, note: 'first' }],
+  transcript: [{ start: 0, end: 2, text: 'Hello.', words: [{ word: 'Hello.', start: 0, end: 1 }] }],
+  previewSeek: 120,
+  previewMode: 'loudest',
+};
+
+const projectFile = (state: unknown, version = PROJECT_VERSION) => ({ format: PROJECT_FILE_FORMAT, version, savedAt: '', state });
+
+describe('readProject', () => {
+  it('round-trips a saved project', () => {
+    expect(loadProject(saveProject(STATE))).toEqual({ state: STATE, warnings: [] });
+  });
+
+  it('fills fields missing from older files with defaults, without warnings', () => {
+    const { state, warnings } = readProject(projectFile({ inputPath: '/data/book.m4b' }));
+    expect(warnings).toEqual([]);
+    expect(state).toMatchObject({ mode: 'upload', inputPath: '/data/book.m4b', studioScriptMode: 'test-45s', scriptTarget: 'bash', chapters: [] });
+  });
+
+  it.each([
+    ['mode', 'wizard', 'mode: must be one of upload, dashboard, studio, export, batch'],
+    ['studioScriptMode', 'test-5s', 'studioScriptMode: must be one of test-45s, test-10s, full, split-chapters'],
+    ['scriptTarget', 'toString', 'scriptTarget: must be one of bash, powershell'],
+    ['previewMode', 'quietest', 'previewMode: must be one of manual, loudest, noisiest, sibilant, multi'],
+    ['inputPath', 42, 'inputPath: must be text'],
+    ['fileVersion', 2.5, 'fileVersion: must be a whole number from 1'],
+    ['verifyOutput', 'yes', 'verifyOutput: must be true or false'],
+    ['previewSeek', -10, 'previewSeek: must be a time in seconds'],
+    ['aiInsight', { text: 'hi' }, 'aiInsight: must be text or null'],
+  ])('resets an invalid %s', (key, value, warning) => {
+    const { state, warnings } = readProject(projectFile({ ...STATE, [key]: value }));
+    expect(warnings).toEqual([warning]);
+    expect(state).toEqual({ ...STATE, [key]: readProject(projectFile({})).state![key as keyof ProjectState] });
+  });
+
+  it('reports invalid settings and keeps the valid ones', () => {
+    const { state, warnings } = readProject(projectFile({ ...STATE, config: { highpassFreq: 500, lowpassFreq: 9000 } }));
+    expect(warnings).toEqual(['highpassFreq: 500 is outside 20..200']);
+    expect(state!.config).toEqual({ ...DEFAULT_CONFIG, lowpassFreq: 9000 });
+  });
+
+  it('drops and reports settings named after Object.prototype members', () => {
+    const saved = JSON.parse(saveProject(STATE));
+    saved.state.config = JSON.parse('{"toString": 1, "__proto__": {"valueOf": 2}, "highpassFreq": 100}');
+    saved.state.batchItems[0].overrides = JSON.parse('{"toString": 1, "highpassFreq": 90}');
+    saved.state.scriptHistory[0].config = JSON.parse('{"constructor": 1}');
+
+    const { state, warnings } = readProject(saved);
+    expect(warnings).toEqual(['toString: unknown setting', '__proto__: unknown setting']);
+    expect(state!.config).toEqual({ ...DEFAULT_CONFIG, highpassFreq: 100 });
+    expect(Object.hasOwn(state!.config, 'toString')).toBe(false);
+    expect(String(state!.config)).toBe('[object Object]');
+    expect(state!.batchItems[0].overrides).toEqual({ highpassFreq: 90 });
+    expect(state!.scriptHistory[0].config).toBeNull();
+  });
+
+  it('drops unreadable list entries', () => {
+    const { state, warnings } = readProject(projectFile({
+      ...STATE,
+      chapters: [...STATE.chapters, { title: 'Two', start: '3600' }],
+      batchItems: [...STATE.batchItems, { path: '/data/no-id.m4b' }, null],
+      scriptHistory: [...STATE.scriptHistory, { version: 4, mode: 'deploy', createdAt: '', script: '' }],
+      transcript: [...STATE.transcript, { start: null, end: 3, text: 'NaN' }],
+    }));
+    expect(state).toEqual(STATE);
+    expect(warnings).toEqual([
+      'chapters: dropped 1 unreadable entry',
+      'batchItems: dropped 2 unreadable entries',
+      'scriptHistory: dropped 1 unreadable entry',
+      'transcript: dropped 1 unreadable entry',
+    ]);
+  });
+
+  it('checks what it takes from list entries', () => {
+    const { state } = readProject(projectFile({
+      ...STATE,
+      batchItems: [{ id: 'a', path: '/a.m4b', overrides: { highpassFreq: 500, noiseReduction: 0.4, bitrate: 64 }, analysis: { peak: 'loud' }, status: 'done', extra: 1 }],
+      scriptHistory: [{ ...STATE.scriptHistory[0], config: { highpassFreq: 500 } }],
+    }));
+    expect(state!.batchItems).toEqual([{ id: 'a', path: '/a.m4b', overrides: { noiseReduction: 0.4 }, analysis: null }]);
+    expect(state!.scriptHistory[0].config).toBeNull();
+  });
+
+  it('drops an unreadable analysis but keeps a readable one without its damaged parts', () => {
+    const broken = readProject(projectFile({ ...STATE, analysis: { ...ANALYSIS, lra: null } }));
+    expect(broken.state!.analysis).toBeNull();
+    expect(broken.warnings).toEqual(['analysis: unreadable, scan the source again']);
+
+    const partial = readProject(projectFile({ ...STATE, analysis: { ...ANALYSIS, spectrum: { bands: [{ freq: 'x' }], windows: 1 }, chapters: [{}] } }));
+    expect(partial.state!.analysis).toEqual({ ...MEASURED, sections: ANALYSIS.sections });
+  });
+
+  it.each([
+    ['not an object', null, 'Not an Audio Forge project file'],
+    ['another format', { format: 'other', version: 1, state: {} }, 'Not an Audio Forge project file'],
+    ['a newer version', projectFile({}, PROJECT_VERSION + 1), `Unsupported project version ${PROJECT_VERSION + 1} (this app reads up to ${PROJECT_VERSION})`],
+    ['no state', projectFile('state'), 'Project has no saved state'],
+  ])('rejects %s', (_, file, error) => {
+    expect(readProject(file)).toEqual({ state: null, warnings: [], error });
+  });
+});
+
+describe('migrateProject', () => {
+  it('gives version 1 history entries an empty config and note', () => {
+    const v1 = { scriptHistory: [{ version: 1, mode: 'full', createdAt: '', script: 'echo' }] };
+    expect(migrateProject(v1, 1)).toEqual({ scriptHistory: [{ version: 1, mode: 'full', createdAt: '', script: 'echo', config: null, note: '' }] });
+    expect(migrateProject(v1, 2)).toBe(v1);
+  });
+
+  it('reads a version 1 file', () => {
+    const { state, warnings } = readProject(projectFile({ ...STATE, scriptHistory: [{ version: 1, mode: 'batch', createdAt: '', script: 'echo' }] }, 1));
+    expect(warnings).toEqual([]);
+    expect(state!.scriptHistory).toEqual([{ version: 1, mode: 'batch', createdAt: '', script: 'echo', config: null, note: '' }]);
+  });
+});
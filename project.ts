@@ -0,0 +1,350 @@
+import {
+  APP_MODES, AppMode, AudioAnalysis, AudioConfig, BATCH_OVERRIDE_KEYS, BatchItem, BatchOverrideKey, Chapter, ChapterAnalysis,
+  DEFAULT_CONFIG, PreviewStartMode, SCRIPT_MODES, ScriptMode, ScriptTarget, SectionProfile, SpectralProfile,
+} from './types';
+import { validateConfig } from './validate';
+import { TranscriptSegment, TranscriptWord } from './transcript';
+import { PREVIEW_SEEK_SECONDS } from './utils';
+import { PREVIEW_START_MODES } from './sections';
+import { SCRIPT_TARGETS } from './shell';
+
+// --- PROJECT FILES ---
+// The whole workspace as one versioned JSON document: paths, settings, analysis and the
+// scripts handed out so far. Older files are upgraded step by step through MIGRATIONS
+// before they are read. Local audio (File objects) can't be saved; it is re-linked.
+
+export interface ScriptHistoryEntry {
+  version: number; // fileVersion the script was issued as
+  mode: ScriptMode | 'batch';
+  createdAt: string;
+  script: string;
+  config: AudioConfig | null; // Null for versions saved before settings were recorded
+  note: string;
+}
+
+// Batch entries without their File; analysis survives, the file is re-linked by path
+export type SavedBatchItem = Omit<BatchItem, 'file' | 'status'>;
+
+export interface ProjectState {
+  mode: AppMode;
+  baseDir: string;
+  inputPath: string;
+  exportPath: string;
+  config: AudioConfig;
+  analysis: AudioAnalysis | null;
+  aiInsight: string | null;
+  chapters: Chapter[];
+  fileVersion: number;
+  perChapterLoudness: boolean;
+  splitCredits: boolean;
+  verifyOutput: boolean;
+  complianceProfileId: string;
+  studioScriptMode: ScriptMode;
+  scriptTarget: ScriptTarget;
+  batchItems: SavedBatchItem[];
+  scriptHistory: ScriptHistoryEntry[];
+  transcript: TranscriptSegment[];
+  previewSeek: number;
+  previewMode: PreviewStartMode;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  state: ProjectState;
+}
+
+export interface ProjectLoad {
+  state: ProjectState | null;
+  warnings: string[]; // Fields that failed validation and were reset or dropped
+  error?: string;     // Set when nothing could be loaded
+}
+
+export const PROJECT_FILE_FORMAT = 'audio-forge-project';
+export const PROJECT_FILE_EXTENSION = '.forge.json';
+export const PROJECT_VERSION = 2;
+export const MAX_SCRIPT_HISTORY = 50;
+
+// A saved state before readProject has checked it: only known to be an object
+type RawState = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawState =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// MIGRATIONS[n] upgrades a version n + 1 state to version n + 2
+const MIGRATIONS: ((state: RawState) => RawState)[] = [
+  // 1 -> 2: history entries carry their settings and a note
+  state => ({
+    ...state,
+    scriptHistory: Array.isArray(state.scriptHistory)
+      ? state.scriptHistory.map((entry: unknown) => isRecord(entry) ? { ...entry, config: null, note: '' } : entry)
+      : [],
+  }),
+];
+
+const createProjectFile = (state: ProjectState): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  state,
+});
+
+export const saveProject = (state: ProjectState): string => JSON.stringify(createProjectFile(state), null, 2);
+
+export const migrateProject = (state: RawState, fromVersion: number): RawState =>
+  MIGRATIONS.slice(fromVersion - 1).reduce((s, migrate) => migrate(s), state);
+
+// Fields missing from older files fall back to a fresh workspace
+const DEFAULT_STATE: ProjectState = {
+  mode: 'upload',
+  baseDir: '~/Desktop/',
+  inputPath: '',
+  exportPath: '~/Desktop/',
+  config: DEFAULT_CONFIG,
+  analysis: null,
+  aiInsight: null,
+  chapters: [],
+  fileVersion: 1,
+  perChapterLoudness: false,
+  splitCredits: true,
+  verifyOutput: false,
+  complianceProfileId: '',
+  studioScriptMode: 'test-45s',
+  scriptTarget: 'bash',
+  batchItems: [],
+  scriptHistory: [],
+  transcript: [],
+  previewSeek: PREVIEW_SEEK_SECONDS,
+  previewMode: 'manual',
+};
+
+// --- READING ---
+// Every field is checked before it reaches the app. Unusable values are reported and keep
+// their defaults; unreadable list entries are dropped.
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+
+const oneOf = <T>(choices: readonly T[]): Guard<T> => (value: unknown): value is T => choices.includes(value as T);
+
+// All or nothing: null if any entry is unreadable
+const readAll = <T>(values: unknown[], read: (value: unknown) => T | null): T[] | null => {
+  const items = values.map(read);
+  return items.every((item): item is T => item !== null) ? items : null;
+};
+
+type AnalysisNumber = Exclude<keyof AudioAnalysis, 'isEst' | 'sourceRate' | 'spectrum' | 'sections' | 'chapters'>;
+
+const ANALYSIS_NUMBERS: AnalysisNumber[] = [
+  'estLufs', 'peak', 'integratedLufs', 'shortTermMax', 'momentaryMax', 'lra', 'truePeak', 'noiseFloor',
+  'duration', 'sampleRate', 'channels', 'leadingSilence', 'trailingSilence',
+];
+
+const readChapter = (value: unknown): Chapter | null =>
+  isRecord(value) && isString(value.title) && isNumber(value.start) && isNumber(value.end)
+    ? { title: value.title, start: value.start, end: value.end }
+    : null;
+
+const readBand = (value: unknown): SpectralProfile['bands'][number] | null =>
+  isRecord(value) && isNumber(value.freq) && isNumber(value.db) ? { freq: value.freq, db: value.db } : null;
+
+const readSpectrum = (value: unknown): SpectralProfile | null => {
+  if (!isRecord(value) || !isNumber(value.windows) || !Array.isArray(value.bands)) return null;
+  const bands = readAll(value.bands, readBand);
+  return bands ? { bands, windows: value.windows } : null;
+};
+
+const readSections = (value: unknown): SectionProfile | null =>
+  isRecord(value) && isNumber(value.blockSeconds) && isNumberList(value.loudness) && isNumberList(value.noise) && isNumberList(value.sibilance)
+    ? { blockSeconds: value.blockSeconds, loudness: value.loudness, noise: value.noise, sibilance: value.sibilance }
+    : null;
+
+// The measurements are required; a damaged spectrum, section or chapter breakdown is left off
+const readAnalysis = (value: unknown): AudioAnalysis | null => {
+  if (!isRecord(value) || !isBoolean(value.isEst) || !ANALYSIS_NUMBERS.every(key => isNumber(value[key]))) return null;
+  const analysis = { isEst: value.isEst } as AudioAnalysis;
+  ANALYSIS_NUMBERS.forEach(key => { analysis[key] = value[key] as number; });
+  if (isNumber(value.sourceRate)) analysis.sourceRate = value.sourceRate;
+
+  const spectrum = readSpectrum(value.spectrum);
+  const sections = readSections(value.sections);
+  const chapters = Array.isArray(value.chapters) ? readAll(value.chapters, readChapterAnalysis) : null;
+  if (spectrum) analysis.spectrum = spectrum;
+  if (sections) analysis.sections = sections;
+  if (chapters && chapters.length > 0) analysis.chapters = chapters;
+  return analysis;
+};
+
+const readChapterAnalysis = (value: unknown): ChapterAnalysis | null => {
+  if (!isRecord(value)) return null;
+  const chapter = readChapter(value.chapter);
+  const analysis = readAnalysis(value.analysis);
+  return chapter && analysis ? { chapter, analysis } : null;
+};
+
+// Overrides outside the batch keys or their ranges are dropped
+const readOverrides = (value: unknown): SavedBatchItem['overrides'] => {
+  const { config } = validateConfig(isRecord(value) ? value : {});
+  return Object.fromEntries(
+    Object.entries(config).filter(([key]) => BATCH_OVERRIDE_KEYS.includes(key as BatchOverrideKey))
+  ) as SavedBatchItem['overrides'];
+};
+
+const readBatchItem = (value: unknown): SavedBatchItem | null => {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.path)) return null;
+  return {
+    id: value.id,
+    path: value.path,
+    overrides: readOverrides(value.overrides),
+    analysis: readAnalysis(value.analysis),
+    ...(isString(value.error) ? { error: value.error } : {}),
+  };
+};
+
+const isHistoryMode = oneOf<ScriptHistoryEntry['mode']>([...SCRIPT_MODES, 'batch']);
+
+// A recorded config that no longer validates is dropped rather than restored
+const readHistoryEntry = (value: unknown): ScriptHistoryEntry | null => {
+  if (!isRecord(value) || !isNumber(value.version) || !isHistoryMode(value.mode) || !isString(value.createdAt) || !isString(value.script)) {
+    return null;
+  }
+  const recorded = isRecord(value.config) ? validateConfig(value.config) : null;
+  return {
+    version: value.version,
+    mode: value.mode,
+    createdAt: value.createdAt,
+    script: value.script,
+    config: recorded && recorded.errors.length === 0 ? { ...DEFAULT_CONFIG, ...recorded.config } : null,
+    note: isString(value.note) ? value.note : '',
+  };
+};
+
+const readWord = (value: unknown): TranscriptWord | null =>
+  isRecord(value) && isString(value.word) && isNumber(value.start) && isNumber(value.end)
+    ? { word: value.word, start: value.start, end: value.end }
+    : null;
+
+const readSegment = (value: unknown): TranscriptSegment | null => {
+  if (!isRecord(value) || !isNumber(value.start) || !isNumber(value.end) || !isString(value.text)) return null;
+  const words = Array.isArray(value.words) ? value.words.map(readWord).filter((w): w is TranscriptWord => w !== null) : [];
+  return { start: value.start, end: value.end, text: value.text, ...(words.length > 0 ? { words } : {}) };
+};
+
+const isFileVersion = (value: unknown): value is number => isNumber(value) && Number.isInteger(value) && value >= 1;
+const isSeek = (value: unknown): value is number => isNumber(value) && value >= 0;
+const isInsight = (value: unknown): value is string | null => value === null || isString(value);
+
+// Accepts a parsed ProjectFile (from disk or the autosave store)
+export const readProject = (file: unknown): ProjectLoad => {
+  if (!isRecord(file) || file.format !== PROJECT_FILE_FORMAT) {
+    return { state: null, warnings: [], error: 'Not an Audio Forge project file' };
+  }
+  if (!isNumber(file.version) || file.version < 1 || file.version > PROJECT_VERSION) {
+    return { state: null, warnings: [], error: `Unsupported project version ${file.version} (this app reads up to ${PROJECT_VERSION})` };
+  }
+  if (!isRecord(file.state)) return { state: null, warnings: [], error: 'Project has no saved state' };
+
+  const raw = migrateProject(file.state, file.version);
+  // Settings are validated like an imported preset; bad fields keep their defaults
+  const { config, errors } = validateConfig(raw.config ?? {});
+  const warnings = [...errors];
+
+  // Missing fields (older files) take the default quietly; present but unusable ones are reported
+  const field = <K extends keyof ProjectState>(key: K, valid: Guard<ProjectState[K]>, expected: string): ProjectState[K] => {
+    const value = raw[key];
+    if (value === undefined) return DEFAULT_STATE[key];
+    if (valid(value)) return value;
+    warnings.push(`${key}: must be ${expected}`);
+    return DEFAULT_STATE[key];
+  };
+  const list = <T>(key: keyof ProjectState, read: (value: unknown) => T | null): T[] => {
+    const value = raw[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      warnings.push(`${key}: must be a list`);
+      return [];
+    }
+    const items = value.map(read).filter((item): item is T => item !== null);
+    if (items.length < value.length) warnings.push(`${key}: dropped ${value.length - items.length} unreadable entr${value.length - items.length === 1 ? 'y' : 'ies'}`);
+    return items;
+  };
+
+  const saved = raw.analysis !== undefined && raw.analysis !== null;
+  const analysis = saved ? readAnalysis(raw.analysis) : null;
+  if (saved && !analysis) warnings.push('analysis: unreadable, scan the source again');
+
+  const state: ProjectState = {
+    mode: field('mode', oneOf(APP_MODES), `one of ${APP_MODES.join(', ')}`),
+    baseDir: field('baseDir', isString, 'text'),
+    inputPath: field('inputPath', isString, 'text'),
+    exportPath: field('exportPath', isString, 'text'),
+    config: { ...DEFAULT_CONFIG, ...config },
+    analysis,
+    aiInsight: field('aiInsight', isInsight, 'text or null'),
+    chapters: list('chapters', readChapter),
+    fileVersion: field('fileVersion', isFileVersion, 'a whole number from 1'),
+    perChapterLoudness: field('perChapterLoudness', isBoolean, 'true or false'),
+    splitCredits: field('splitCredits', isBoolean, 'true or false'),
+    verifyOutput: field('verifyOutput', isBoolean, 'true or false'),
+    complianceProfileId: field('complianceProfileId', isString, 'text'),
+    studioScriptMode: field('studioScriptMode', oneOf(SCRIPT_MODES), `one of ${SCRIPT_MODES.join(', ')}`),
+    scriptTarget: field('scriptTarget', oneOf(Object.keys(SCRIPT_TARGETS) as ScriptTarget[]), `one of ${Object.keys(SCRIPT_TARGETS).join(', ')}`),
+    batchItems: list('batchItems', readBatchItem),
+    scriptHistory: list('scriptHistory', readHistoryEntry),
+    transcript: list('transcript', readSegment),
+    previewSeek: field('previewSeek', isSeek, 'a time in seconds'),
+    previewMode: field('previewMode', oneOf(Object.keys(PREVIEW_START_MODES) as PreviewStartMode[]), `one of ${Object.keys(PREVIEW_START_MODES).join(', ')}`),
+  };
+  return { state, warnings };
+};
+
+export const loadProject = (text: string): ProjectLoad => {
+  try {
+    return readProject(JSON.parse(text));
+  } catch {
+    return { state: null, warnings: [], error: 'Not a JSON file' };
+  }
+};
+
+export const isProjectFile = (file: File) => file.name.toLowerCase().endsWith('.json');
+
+// --- AUTOSAVE ---
+// Last session in IndexedDB, so a refresh doesn't lose work. One record, overwritten.
+
+const DB_NAME = 'audio-forge';
+const STORE = 'autosave';
+const SESSION_KEY = 'session';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const writeAutosave = (state: ProjectState): Promise<void> =>
+  withStore<IDBValidKey>('readwrite', store => store.put(createProjectFile(state), SESSION_KEY)).then(() => undefined);
+
+export const readAutosave = async (): Promise<ProjectFile | null> =>
+  (await withStore<ProjectFile | undefined>('readonly', store => store.get(SESSION_KEY))) || null;
+
+export const clearAutosave = (): Promise<void> =>
+  withStore<undefined>('readwrite', store => store.delete(SESSION_KEY)).then(() => undefined);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalysis } from './types';
+import { MULTI_EXCERPTS, resolvePreviewStarts, SECTION_SECONDS, SILENT_DB } from './sections';
+
+const MEASURED: AudioAnalysis = {
+  estLufs: -22,
+  peak: -4,
+  integratedLufs: -21,
+  shortTermMax: -16,
+  momentaryMax: -14,
+  lra: 10,
+  truePeak: -3.5,
+  noiseFloor: -70,
+  duration: 3600,
+  sampleRate: 44100,
+  channels: 1,
+  leadingSilence: 0.8,
+  trailingSilence: 3,
+  isEst: false,
+};
+
+// One loudness value per SECTION_SECONDS block; the last block may be partial
+const analysis = (duration: number, loudness: number[]): AudioAnalysis => ({
+  ...MEASURED,
+  duration,
+  sections: { blockSeconds: SECTION_SECONDS, loudness, noise: loudness.map(() => -70), sibilance: loudness.map(() => SILENT_DB) },
+});
+
+describe('resolvePreviewStarts', () => {
+  it('keeps every multi excerpt inside a source barely longer than the clip', () => {
+    // 46s source, 45s clip: 11.25s excerpts, and the last part's only run starts at 35s
+    const source = analysis(46, [-20, -20, -20, -20, -20, -20, -20, -20, -20, -10]);
+    const starts = resolvePreviewStarts('multi', 0, source, 45);
+    expect(starts).toEqual([0, 10, 25, 34]);
+    starts.forEach(start => expect(start + 45 / MULTI_EXCERPTS).toBeLessThanOrEqual(46));
+  });
+
+  it('pulls single windows back so the whole clip fits', () => {
+    const source = analysis(46, [-20, -20, -20, -20, -20, -20, -20, -20, -20, -10]);
+    expect(resolvePreviewStarts('loudest', 0, source, 45)).toEqual([1]);
+    expect(resolvePreviewStarts('manual', 30.6, source, 10)).toEqual([31]);
+    expect(resolvePreviewStarts('manual', 40, source, 10)).toEqual([36]);
+    expect(resolvePreviewStarts('manual', 40, analysis(8, [-20, -20]), 10)).toEqual([0]);
+  });
+});
@@ -0,0 +1,149 @@
+import { AudioAnalysis, PreviewStartMode, SectionProfile } from './types';
+
+// --- PREVIEW SECTIONS ---
+// A coarse level map of the book, built during the scan, from which test clips pick the
+// passage that best shows a problem: the loudest, noisiest or most sibilant stretch, or
+// a handful of excerpts spread across the whole book.
+
+export interface SectionAccumulator {
+  push: (mono: Float32Array, length: number, db: number, isSpeech: boolean) => void; // One analysis window
+  finish: () => SectionProfile;
+}
+
+export const SECTION_SECONDS = 5;
+export const MULTI_EXCERPTS = 4;
+export const SILENT_DB = -100;
+
+export const PREVIEW_START_MODES: Record<PreviewStartMode, string> = {
+  manual: 'Manual',
+  loudest: 'Loudest section',
+  noisiest: 'Noisiest section',
+  sibilant: 'Most sibilant section',
+  multi: `${MULTI_EXCERPTS} excerpts across the book`,
+};
+
+const SIBILANCE_CUTOFF = 4000; // Hz
+
+const toDb = (power: number) => parseFloat((10 * Math.log10(power + 1e-12)).toFixed(1));
+
+export const createSectionAccumulator = (sampleRate: number): SectionAccumulator => {
+  const blockSamples = SECTION_SECONDS * sampleRate;
+  const loudness: number[] = [];
+  const noise: number[] = [];
+  const sibilance: number[] = [];
+
+  // Second-order Butterworth highpass (RBJ) isolating the sibilance band
+  const w0 = 2 * Math.PI * Math.min(SIBILANCE_CUTOFF, sampleRate * 0.45) / sampleRate;
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const a0 = 1 + alpha;
+  const b0 = (1 + Math.cos(w0)) / 2 / a0;
+  const b1 = -(1 + Math.cos(w0)) / a0;
+  const b2 = b0;
+  const a1 = -2 * Math.cos(w0) / a0;
+  const a2 = (1 - alpha) / a0;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+
+  let blockFill = 0;
+  let blockPower = 0;
+  let blockQuietest = Infinity;
+  let speechPower = 0;
+  let speechHigh = 0;
+
+  const closeBlock = () => {
+    loudness.push(toDb(blockPower / blockFill));
+    noise.push(parseFloat(Math.max(SILENT_DB, blockQuietest).toFixed(1)));
+    sibilance.push(speechPower > 0 ? toDb(speechHigh / speechPower) : SILENT_DB);
+    blockFill = 0;
+    blockPower = 0;
+    blockQuietest = Infinity;
+    speechPower = 0;
+    speechHigh = 0;
+  };
+
+  const push = (mono: Float32Array, length: number, db: number, isSpeech: boolean) => {
+    let power = 0;
+    let high = 0;
+    for (let i = 0; i < length; i++) {
+      const x = mono[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      power += x * x;
+      high += y * y;
+    }
+    blockPower += power;
+    blockFill += length;
+    blockQuietest = Math.min(blockQuietest, db);
+    if (isSpeech) {
+      speechPower += power;
+      speechHigh += high;
+    }
+    if (blockFill >= blockSamples) closeBlock();
+  };
+
+  const finish = (): SectionProfile => {
+    if (blockFill > 0) closeBlock();
+    return { blockSeconds: SECTION_SECONDS, loudness, noise, sibilance };
+  };
+
+  return { push, finish };
+};
+
+// --- PICKING ---
+
+// Start block of the `width`-block run with the highest mean score, within [from, to)
+const bestRun = (scores: number[], width: number, from = 0, to = scores.length): number => {
+  const span = Math.max(1, Math.min(width, to - from));
+  let best = from;
+  let bestSum = -Infinity;
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    sum += scores[i];
+    if (i - from >= span) sum -= scores[i - span];
+    if (i - from >= span - 1 && sum > bestSum) {
+      bestSum = sum;
+      best = i - span + 1;
+    }
+  }
+  return best;
+};
+
+// Linear power, so one loud block doesn't outweigh a consistently loud stretch
+const power = (db: number[]) => db.map(v => Math.pow(10, v / 10));
+
+/**
+ * Start times (seconds) of the window(s) a `clipSeconds` test clip should cover, pulled
+ * back so the clip fits in a short source. 'multi' returns MULTI_EXCERPTS starts, one per
+ * equal part of the book, each for clipSeconds / count.
+ */
+export const resolvePreviewStarts = (
+  mode: PreviewStartMode,
+  manualStart: number,
+  analysis: AudioAnalysis | null,
+  clipSeconds: number
+): number[] => {
+  const duration = analysis?.duration;
+  // Whole seconds, pulled back so `length` seconds from the start stay inside the source
+  const fit = (start: number, length = clipSeconds) =>
+    Math.max(0, duration ? Math.min(Math.round(start), Math.floor(duration - length)) : Math.round(start));
+  const profile = analysis?.sections;
+  if (mode === 'manual' || !profile || profile.loudness.length === 0) return [fit(manualStart)];
+
+  const { blockSeconds } = profile;
+  const width = Math.ceil(clipSeconds / blockSeconds);
+  const toStart = (block: number) => fit(block * blockSeconds);
+
+  if (mode === 'loudest') return [toStart(bestRun(power(profile.loudness), width))];
+  if (mode === 'noisiest') return [toStart(bestRun(power(profile.noise), width))];
+  if (mode === 'sibilant') return [toStart(bestRun(profile.sibilance.map(v => v > SILENT_DB ? Math.pow(10, v / 10) : 0), width))];
+
+  // Multi: the loudest (most clearly spoken) excerpt in each part
+  const blocks = profile.loudness.length;
+  const excerptWidth = Math.ceil(clipSeconds / MULTI_EXCERPTS / blockSeconds);
+  const scores = power(profile.loudness);
+  return Array.from({ length: MULTI_EXCERPTS }, (_, part) => {
+    const from = Math.floor(part * blocks / MULTI_EXCERPTS);
+    const to = Math.max(from + 1, Math.floor((part + 1) * blocks / MULTI_EXCERPTS));
+    return fit(bestRun(scores, excerptWidth, from, to) * blockSeconds, clipSeconds / MULTI_EXCERPTS);
+  });
+};
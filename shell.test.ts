@@ -0,0 +1,86 @@
+import { spawnSync } from 'child_process';
+import { describe, expect, it } from 'vitest';
+import { getPathProblem, quoteBash, quoteBashPath, quotePowerShell, quotePowerShellPath } from './shell';
+
+// Names that break or hijack a naively quoted command line
+const HOSTILE_NAMES = [
+  'Book "1".m4b',
+  'Book $(touch /tmp/pwned).m4b',
+  'Book `touch /tmp/pwned`.m4b',
+  'Back\\slash\\.m4b',
+  "Author's Cut.m4b",
+  'My Audio Book.m4b',
+  '$HOME and ${PATH}.m4b',
+  'Dollar$.m4b',
+  '!history!.m4b',
+  '* glob ?.m4b',
+  'semi;colon && pipe | amp &.m4b',
+  'Ünïcödé 本.m4b',
+];
+
+// What bash makes of a quoted word
+const bashEcho = (word: string) => spawnSync('bash', ['-c', `printf '%s' ${word}`], { encoding: 'utf8' }).stdout;
+
+describe('quoteBash', () => {
+  it.each(HOSTILE_NAMES)('keeps %s one literal word', name => {
+    expect(bashEcho(quoteBash(name))).toBe(name);
+  });
+
+  it('escapes everything bash expands inside double quotes', () => {
+    expect(quoteBash('a"b$c`d\\e')).toBe('"a\\"b\\$c\\`d\\\\e"');
+  });
+});
+
+describe('quoteBashPath', () => {
+  it('expands a leading ~/ to $HOME and keeps the rest literal', () => {
+    expect(quoteBashPath('~/Books/$(x).m4b')).toBe('"$HOME/Books/\\$(x).m4b"');
+    expect(bashEcho(quoteBashPath('~/Books/`x` "y".m4b'))).toBe(`${process.env.HOME}/Books/\`x\` "y".m4b`);
+  });
+
+  it('leaves a ~ anywhere else alone', () => {
+    expect(bashEcho(quoteBashPath('/a/~/b~.m4b'))).toBe('/a/~/b~.m4b');
+    expect(bashEcho(quoteBashPath('~user/x.m4b'))).toBe('~user/x.m4b');
+  });
+
+  it.each(HOSTILE_NAMES)('keeps /data/%s literal', name => {
+    expect(bashEcho(quoteBashPath(`/data/${name}`))).toBe(`/data/${name}`);
+  });
+});
+
+describe('quotePowerShell', () => {
+  it('doubles straight and typographic single quotes', () => {
+    expect(quotePowerShell("Author's Cut")).toBe("'Author''s Cut'");
+    expect(quotePowerShell('Author’s ‘Cut‚‛')).toBe("'Author’’s ‘‘Cut‚‚‛‛'");
+  });
+
+  it('leaves characters PowerShell expands in double quotes alone', () => {
+    expect(quotePowerShell('$(Get-Date) `n "x"')).toBe('\'$(Get-Date) `n "x"\'');
+  });
+
+  it('resolves ~/ and ~\\ against $HOME', () => {
+    expect(quotePowerShellPath("~/Books/It's.m4b")).toBe("(Join-Path $HOME 'Books/It''s.m4b')");
+    expect(quotePowerShellPath('~\\Books\\a.m4b')).toBe("(Join-Path $HOME 'Books\\a.m4b')");
+    expect(quotePowerShellPath('C:\\~\\a.m4b')).toBe("'C:\\~\\a.m4b'");
+  });
+});
+
+describe('getPathProblem', () => {
+  it.each(HOSTILE_NAMES)('accepts %s', name => {
+    expect(getPathProblem(`/data/${name}`)).toBeNull();
+  });
+
+  it.each([
+    ['a newline', '/data/Book\n1.m4b'],
+    ['a carriage return', '/data/Book\r1.m4b'],
+    ['a tab', '/data/Book\t1.m4b'],
+    ['a DEL', '/data/Book\x7f.m4b'],
+  ])('rejects %s', (_, path) => {
+    expect(getPathProblem(path)).toMatch(/control character/);
+  });
+
+  it('rejects a leading -, also after spaces', () => {
+    expect(getPathProblem('-i.m4b')).toMatch(/option/);
+    expect(getPathProblem('  -y')).toMatch(/option/);
+    expect(getPathProblem('/data/-i.m4b')).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { ScriptTarget } from './types';
+
+// --- SHELL QUOTING ---
+// Every path and user-typed value a generated script embeds goes through here, so a
+// file called `Book "1" $(rm -rf ~).m4b` stays one literal argument. Values are written
+// as bash double-quoted words: only " $ ` and \ keep a meaning there, and each is escaped.
+
+// Backslash-escapes what bash still expands inside double quotes
+const escapeDoubleQuoted = (value: string) => value.replace(/["$`\\]/g, '\\$&');
+
+// Any value as one literal double-quoted word
+export const quoteBash = (value: string): string => `"${escapeDoubleQuoted(value)}"`;
+
+// A leading ~/ becomes $HOME (tilde doesn't expand in quotes); the rest stays literal
+export const quoteBashPath = (path: string): string =>
+  path.startsWith('~/') ? `"$HOME${escapeDoubleQuoted(path.slice(1))}"` : quoteBash(path);
+
+// Text for a `#` comment line: anything after a line break would run as code
+export const toCommentText = (value: string): string => value.replace(/[\x00-\x1f\x7f]+/g, ' ');
+
+/**
+ * Why a path can't go into a script, or null when it can. Quoting covers every printable
+ * character; line breaks and control characters would still break the line-based chapter
+ * maps and batch state file, and a leading '-' makes ffmpeg read the path as an option.
+ */
+export const getPathProblem = (path: string): string | null => {
+  if (/[\x00-\x1f\x7f]/.test(path)) return 'contains a line break or control character';
+  if (/^\s*-/.test(path)) return "starts with '-', which ffmpeg would read as an option";
+  return null;
+};
+
+// --- POWERSHELL QUOTING ---
+// Single-quoted PowerShell strings are literal except for the quote itself, which is
+// doubled. PowerShell also closes a single-quoted string on the typographic quotes.
+
+export const quotePowerShell = (value: string): string => `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`;
+
+// A leading ~/ or ~\ resolves against $HOME; the rest stays literal
+export const quotePowerShellPath = (path: string): string =>
+  /^~[/\\]/.test(path) ? `(Join-Path $HOME ${quotePowerShell(path.slice(2))})` : quotePowerShell(path);
+
+// --- TARGETS ---
+
+export const SCRIPT_TARGETS: Record<ScriptTarget, { label: string; extension: string; mimeType: string }> = {
+  bash: { label: 'Bash', extension: 'sh', mimeType: 'text/x-shellscript' },
+  powershell: { label: 'PowerShell', extension: 'ps1', mimeType: 'text/plain' },
+};
+
+// Windows PowerShell 5.1 reads a .ps1 without a byte order mark as ANSI, mangling non-ASCII paths
+export const toScriptFile = (script: string, target: ScriptTarget): string =>
+  target === 'powershell' ? `\uFEFF${script.replace(/\r?\n/g, '\r\n')}` : script;
@@ -0,0 +1,93 @@
+import { SpectralProfile } from './types';
+
+// --- LONG-TERM SPECTRUM ---
+// Average speech spectrum in third-octave bands, built from a sparse sample of analysis
+// windows so it adds little to a full-book scan.
+
+export interface SpectrumAccumulator {
+  push: (window: Float32Array) => void; // One mono window of FFT_SIZE samples
+  finish: () => SpectralProfile | undefined;
+}
+
+export const FFT_SIZE = 4096;
+
+// ISO third-octave centres covered by the voice chain
+const BAND_CENTERS = [
+  25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250,
+  1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500, 16000,
+];
+const BAND_EDGE = Math.pow(2, 1 / 6);
+
+// In-place iterative radix-2 FFT; length must be a power of two
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+export const createSpectrumAccumulator = (sampleRate: number): SpectrumAccumulator => {
+  const hann = Float64Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FFT_SIZE - 1)));
+  const power = new Float64Array(FFT_SIZE / 2 + 1);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  let windows = 0;
+
+  const push = (window: Float32Array) => {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = (window[i] ?? 0) * hann[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < power.length; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    windows++;
+  };
+
+  // Mean power per bin in each band, so wide and narrow bands compare fairly.
+  // The lowest bands are narrower than a bin and read the nearest one above.
+  const finish = (): SpectralProfile | undefined => {
+    if (windows === 0) return undefined;
+    const binHz = sampleRate / FFT_SIZE;
+    const bands = BAND_CENTERS.filter(fc => fc * BAND_EDGE < sampleRate / 2).map(fc => {
+      const lo = Math.max(1, Math.ceil(fc / BAND_EDGE / binHz));
+      const hi = Math.max(lo, Math.min(power.length - 1, Math.floor(fc * BAND_EDGE / binHz)));
+      let sum = 0;
+      for (let k = lo; k <= hi; k++) sum += power[k];
+      const mean = sum / (hi - lo + 1) / windows;
+      return { freq: fc, db: parseFloat((10 * Math.log10(mean + 1e-20)).toFixed(1)) };
+    });
+    return { bands, windows };
+  };
+
+  return { push, finish };
+};
+
+// Mean level of the bands in [from, to] Hz
+export const bandLevel = (profile: SpectralProfile, from: number, to: number): number => {
+  const inRange = profile.bands.filter(b => b.freq >= from && b.freq <= to);
+  if (inRange.length === 0) return -Infinity;
+  return 10 * Math.log10(inRange.reduce((sum, b) => sum + Math.pow(10, b.db / 10), 0) / inRange.length);
+};
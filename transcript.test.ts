@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMockSpeechClient, createWhisperClient, DEFAULT_TRANSCRIPTION_SETTINGS, findTranscriptIssues, issuesToAudacityLabels,
+  issuesToCsv, parseTranscription, transcribeFile, TranscriptSegment,
+} from './transcript';
+
+// A 400s source: decoding hands back the requested window, cut short at the end
+const SOURCE_SECONDS = 400;
+
+vi.mock('./analysis', () => ({
+  decodeSegment: async (_file: Blob, start: number, duration: number) => ({
+    start,
+    buffer: { duration: Math.min(duration, SOURCE_SECONDS - start) },
+  }),
+}));
+vi.mock('./ai', () => ({ encodeSpeechWav: async () => new Blob() }));
+
+const CHAPTER: TranscriptSegment[] = [
+  { start: 0, end: 4, text: 'Chapter one. The house on the hill.' },
+  { start: 4.5, end: 9, text: 'It was a dark and stormy night.' },
+  { start: 9.5, end: 13, text: 'It was a dark and stormy night, and the wind howled.' },
+  { start: 13.2, end: 16, text: 'Um, the door [lip smack] creaked open.' },
+  { start: 21, end: 25, text: 'She stepped inside (breath) and waited.' },
+  { start: 25.2, end: 29, text: 'Nothing moved in the hall, in the hall.' },
+];
+
+const transcribe = (segments: TranscriptSegment[], duration = SOURCE_SECONDS) =>
+  transcribeFile(new File([], 'book.m4b'), createMockSpeechClient(segments), duration);
+
+describe('transcribeFile', () => {
+  it('times each chunk from where it starts in the source', async () => {
+    const segments = await transcribe([{ start: 1, end: 2, text: 'Hello there.', words: [{ word: 'Hello', start: 1, end: 1.4 }] }]);
+    expect(segments.map(s => [s.start, s.end])).toEqual([[1, 2], [301, 302]]);
+    expect(segments[1].words).toEqual([{ word: 'Hello', start: 301, end: 301.4 }]);
+  });
+
+  it('reports progress through the source', async () => {
+    const progress: number[] = [];
+    await transcribeFile(new File([], 'book.m4b'), createMockSpeechClient([]), SOURCE_SECONDS, s => progress.push(s));
+    expect(progress).toEqual([300, 400]);
+  });
+});
+
+describe('findTranscriptIssues', () => {
+  it('flags mouth noises and fillers the recognizer wrote out', async () => {
+    const noises = findTranscriptIssues(await transcribe(CHAPTER, 60), 3).filter(i => i.type === 'noise');
+    expect(noises.map(i => [i.start, i.detail])).toEqual([
+      [13.2, 'lip smack, filler "um"'],
+      [21, 'breath'],
+    ]);
+  });
+
+  it('ignores bracketed text that is not a noise', () => {
+    const issues = findTranscriptIssues([{ start: 0, end: 3, text: 'He said [quietly] (and meant it) the umbrella was hmmm... fine.' }], 3);
+    expect(issues.map(i => i.detail)).toEqual(['filler "hmmm"']);
+  });
+
+  it('flags retakes, stutters and gaps in time order', async () => {
+    const issues = findTranscriptIssues(await transcribe(CHAPTER, 60), 3);
+    expect(issues.map(i => [i.type, i.start, i.end])).toEqual([
+      ['retake', 4.5, 13],
+      ['noise', 13.2, 16],
+      ['gap', 16, 21],
+      ['noise', 21, 25],
+      ['retake', 25.2, 29],
+    ]);
+    expect(issues[0].detail).toBe('repeats "It was a dark and stormy night."');
+    expect(issues[2].detail).toBe('5.0s of silence');
+    expect(issues[4].detail).toBe('"in the hall" twice');
+  });
+
+  it('uses the gap threshold', async () => {
+    const segments = await transcribe(CHAPTER, 60);
+    expect(findTranscriptIssues(segments, 6).some(i => i.type === 'gap')).toBe(false);
+  });
+});
+
+describe('QC report', () => {
+  it('writes Audacity labels and CSV from the transcript', async () => {
+    const issues = findTranscriptIssues(await transcribe(CHAPTER, 60), 3).filter(i => i.type !== 'retake');
+    expect(issuesToAudacityLabels(issues)).toBe([
+      '13.200000\t16.000000\tMouth Noise: lip smack, filler "um" | Um, the door [lip smack] creaked open.',
+      '16.000000\t21.000000\tGap: 5.0s of silence',
+      '21.000000\t25.000000\tMouth Noise: breath | She stepped inside (breath) and waited.',
+      '',
+    ].join('\n'));
+    expect(issuesToCsv(issues)).toBe([
+      'type,start,end,timecode,detail,text',
+      'noise,13.20,16.00,00:00:13,"lip smack, filler ""um""","Um, the door [lip smack] creaked open."',
+      'gap,16.00,21.00,00:00:16,5.0s of silence,',
+      'noise,21.00,25.00,00:00:21,breath,She stepped inside (breath) and waited.',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('parseTranscription', () => {
+  it('reads segments and puts word timings in the segment they start in', () => {
+    expect(parseTranscription({
+      segments: [{ start: 0, end: 2, text: ' One two. ' }, { start: 2, end: 4, text: 'Three.' }],
+      words: [{ word: ' One', start: 0.1, end: 0.5 }, { word: 'two.', start: 0.6, end: 1.9 }, { word: 'Three.', start: 2.2, end: 3 }],
+    })).toEqual([
+      { start: 0, end: 2, text: 'One two.', words: [{ word: 'One', start: 0.1, end: 0.5 }, { word: 'two.', start: 0.6, end: 1.9 }] },
+      { start: 2, end: 4, text: 'Three.', words: [{ word: 'Three.', start: 2.2, end: 3 }] },
+    ]);
+  });
+
+  it('drops segments and words without finite timings', () => {
+    const segments = parseTranscription({
+      segments: [
+        { start: 0, end: 2, text: 'Kept.' },
+        { end: 4, text: 'No start.' },
+        { start: '4', end: 6, text: 'String start.' },
+        { start: 6, end: null, text: 'No end.' },
+        { start: 8, end: Infinity, text: 'Endless.' },
+        'not a segment',
+        null,
+        { start: 10, end: 12 },
+      ],
+      words: [{ word: 'Kept.', start: 0.2, end: 1 }, { word: 'lost', start: 'soon', end: 1 }, { word: 'lost' }, 7],
+    });
+    expect(segments).toEqual([
+      { start: 0, end: 2, text: 'Kept.', words: [{ word: 'Kept.', start: 0.2, end: 1 }] },
+      { start: 10, end: 12, text: '' },
+    ]);
+    segments.forEach(s => {
+      expect(Number.isFinite(s.start)).toBe(true);
+      expect(Number.isFinite(s.end)).toBe(true);
+    });
+  });
+
+  it('falls back to the whole text when there are no segments', () => {
+    expect(parseTranscription({ text: ' All of it. ', duration: 12.5 })).toEqual([{ start: 0, end: 12.5, text: 'All of it.', words: [] }]);
+    expect(parseTranscription({ text: 'All of it.', duration: 'long' })).toEqual([{ start: 0, end: 0, text: 'All of it.', words: [] }]);
+    expect(parseTranscription({ text: 42 })).toEqual([]);
+  });
+
+  it.each([null, 'text', [], 3])('returns nothing for a %s body', body => {
+    expect(parseTranscription(body)).toEqual([]);
+  });
+});
+
+describe('createWhisperClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps NaN timings out of the QC list', async () => {
+    vi.stubGlobal('fetch', async () => new Response(JSON.stringify({
+      segments: [{ start: 0, end: 3, text: 'Uh, hello.' }, { text: 'Um, lost.' }, { start: 10, end: 12, text: 'Erm, again.' }],
+    })));
+    const segments = await createWhisperClient(DEFAULT_TRANSCRIPTION_SETTINGS).transcribe(new Blob());
+    const issues = findTranscriptIssues(segments, 3);
+    expect(issues.map(i => [i.type, i.start, i.end])).toEqual([['noise', 0, 3], ['gap', 3, 10], ['noise', 10, 12]]);
+  });
+});
@@ -0,0 +1,268 @@
+import { decodeSegment } from './analysis';
+import { encodeSpeechWav } from './ai';
+import { formatTimestamp } from './utils';
+
+// --- TRANSCRIPT QC ---
+// The book is transcribed in chunks through any OpenAI-style /audio/transcriptions server
+// (whisper.cpp, faster-whisper, ...). The timed text is then scanned for the things an
+// editor fixes by hand: retakes, mouth noises and dead air.
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  start: number; // Seconds into the source
+  end: number;
+  text: string;
+  words?: TranscriptWord[]; // When the backend returns word timings
+}
+
+// Turns one chunk of 16 kHz WAV into segments timed from the chunk's start
+export interface SpeechClient {
+  name: string;
+  transcribe: (audio: Blob) => Promise<TranscriptSegment[]>;
+}
+
+export interface TranscriptionSettings {
+  endpoint: string;   // Base URL, e.g. http://localhost:8080/v1
+  model: string;
+  apiKey: string;
+  language: string;   // ISO code; blank lets the model detect it
+  gapSeconds: number; // Silences at least this long are flagged
+}
+
+export type TranscriptIssueType = 'retake' | 'noise' | 'gap';
+
+export interface TranscriptIssue {
+  type: TranscriptIssueType;
+  start: number;
+  end: number;
+  text: string;   // What was said (or heard) there
+  detail: string;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  endpoint: 'http://localhost:8080/v1',
+  model: 'whisper-1',
+  apiKey: '',
+  language: '',
+  gapSeconds: 3,
+};
+
+export const GAP_RANGE = { min: 1, max: 10, step: 0.5, label: "Gap Threshold (s)" };
+
+export const ISSUE_LABELS: Record<TranscriptIssueType, string> = {
+  retake: 'Retake',
+  noise: 'Mouth Noise',
+  gap: 'Gap',
+};
+
+const CHUNK_SECONDS = 300;        // ~9.6 MB of WAV per request
+const RETAKE_LOOKAHEAD = 3;       // Segments compared after each one
+const RETAKE_WINDOW = 20;         // Seconds; repeats further apart are deliberate
+const RETAKE_MIN_WORDS = 3;
+const RETAKE_SIMILARITY = 0.8;    // Shared words over the shorter phrase
+const NOISE_TAG = /[\[(*]\s*([^\])*]+?)\s*[\])*]/g;
+const NOISE_WORDS = /click|smack|lip|breath|mouth|tongue|swallow|gulp|sigh|cough|sniff|noise/i;
+const FILLER = /\b(u+m+|u+h+|e+rm|hm+|mm+)\b/gi;
+
+const STORAGE_KEY = 'audioforge.transcription';
+
+export const loadTranscriptionSettings = (): TranscriptionSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...(typeof stored === 'object' && stored !== null ? stored : {}) };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- CLIENT ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const seconds = (value: unknown): number | null => typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const textOf = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// verbose_json body to segments. Words and segments without usable timings are dropped
+// rather than carried into the QC list as NaN.
+export const parseTranscription = (body: unknown): TranscriptSegment[] => {
+  if (!isRecord(body)) return [];
+  const words: TranscriptWord[] = (Array.isArray(body.words) ? body.words : []).flatMap((w: unknown) => {
+    if (!isRecord(w)) return [];
+    const start = seconds(w.start);
+    const end = seconds(w.end);
+    return start === null || end === null ? [] : [{ word: textOf(w.word), start, end }];
+  });
+  if (!Array.isArray(body.segments)) {
+    const text = textOf(body.text);
+    return text ? [{ start: 0, end: seconds(body.duration) ?? 0, text, words }] : [];
+  }
+  return body.segments.flatMap((s: unknown) => {
+    if (!isRecord(s)) return [];
+    const start = seconds(s.start);
+    const end = seconds(s.end);
+    if (start === null || end === null) return [];
+    const inside = words.filter(w => w.start >= start && w.start < end);
+    return [{ start, end, text: textOf(s.text), ...(inside.length > 0 ? { words: inside } : {}) }];
+  });
+};
+
+// verbose_json: segment timings, plus word timings where the server supports them
+export const createWhisperClient = (settings: TranscriptionSettings): SpeechClient => ({
+  name: `${settings.model} @ ${settings.endpoint}`,
+  transcribe: async (audio) => {
+    const form = new FormData();
+    form.append('file', audio, 'chunk.wav');
+    form.append('model', settings.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    form.append('timestamp_granularities[]', 'word');
+    if (settings.language.trim()) form.append('language', settings.language.trim());
+
+    const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+      body: form,
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}: ${(await response.text()).slice(0, 200)}`);
+    return parseTranscription(await response.json());
+  },
+});
+
+// Canned segments for offline work and tests
+export const createMockSpeechClient = (segments: TranscriptSegment[]): SpeechClient => ({
+  name: 'mock',
+  transcribe: async () => segments,
+});
+
+// --- TRANSCRIPTION ---
+
+const shiftSegment = (segment: TranscriptSegment, offset: number): TranscriptSegment => ({
+  ...segment,
+  start: segment.start + offset,
+  end: segment.end + offset,
+  ...(segment.words ? { words: segment.words.map(w => ({ ...w, start: w.start + offset, end: w.end + offset })) } : {}),
+});
+
+export const transcribeFile = async (
+  file: File,
+  client: SpeechClient,
+  duration: number | null,
+  onProgress?: (seconds: number) => void
+): Promise<TranscriptSegment[]> => {
+  const segments: TranscriptSegment[] = [];
+  for (let start = 0; duration === null || start < duration; start += CHUNK_SECONDS) {
+    const chunk = await decodeSegment(file, start, CHUNK_SECONDS);
+    const parts = await client.transcribe(await encodeSpeechWav(chunk.buffer));
+    // decodeSegment pulls a window that would run past the end back, over text we already have
+    segments.push(...parts.map(p => shiftSegment(p, chunk.start)).filter(p => p.start >= start - 0.05));
+    onProgress?.(chunk.start + chunk.buffer.duration);
+    if (chunk.start < start - 0.05 || chunk.buffer.duration < CHUNK_SECONDS - 1) break;
+  }
+  return segments;
+};
+
+// --- DETECTION ---
+
+const toWords = (text: string): string[] =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+const commonWords = (a: string[], b: string[]): number => {
+  let prev = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// A line started again shortly after: most of the shorter phrase recurs in the other
+const findRetakes = (segments: TranscriptSegment[]): TranscriptIssue[] => {
+  const issues: TranscriptIssue[] = [];
+  const words = segments.map(s => toWords(s.text));
+  segments.forEach((segment, i) => {
+    if (words[i].length < RETAKE_MIN_WORDS) return;
+    for (let j = i + 1; j <= i + RETAKE_LOOKAHEAD && j < segments.length; j++) {
+      if (segments[j].start - segment.end > RETAKE_WINDOW) break;
+      if (words[j].length < RETAKE_MIN_WORDS) continue;
+      if (commonWords(words[i], words[j]) / Math.min(words[i].length, words[j].length) >= RETAKE_SIMILARITY) {
+        issues.push({ type: 'retake', start: segment.start, end: segments[j].end, text: segments[j].text, detail: `repeats "${segment.text}"` });
+        break;
+      }
+    }
+  });
+  return issues;
+};
+
+// Stumbles inside one segment: a phrase of two or more words said twice in a row
+const findStutters = (segments: TranscriptSegment[]): TranscriptIssue[] =>
+  segments.flatMap(segment => {
+    const words = toWords(segment.text);
+    for (let n = Math.floor(words.length / 2); n >= 2; n--) {
+      for (let k = 0; k + 2 * n <= words.length; k++) {
+        if (words.slice(k, k + n).join(' ') === words.slice(k + n, k + 2 * n).join(' ')) {
+          return [{ type: 'retake' as const, start: segment.start, end: segment.end, text: segment.text, detail: `"${words.slice(k, k + n).join(' ')}" twice` }];
+        }
+      }
+    }
+    return [];
+  });
+
+// Non-speech tags the recognizer writes out ("[lip smack]", "(breath)") and fillers
+const findNoises = (segments: TranscriptSegment[]): TranscriptIssue[] =>
+  segments.flatMap(segment => {
+    const tags = Array.from(segment.text.matchAll(NOISE_TAG), m => m[1]).filter(tag => NOISE_WORDS.test(tag));
+    const fillers = Array.from(segment.text.matchAll(FILLER), m => m[1].toLowerCase());
+    const found = [...tags, ...fillers.map(f => `filler "${f}"`)];
+    return found.length > 0 ? [{ type: 'noise' as const, start: segment.start, end: segment.end, text: segment.text, detail: found.join(', ') }] : [];
+  });
+
+const findGaps = (segments: TranscriptSegment[], gapSeconds: number): TranscriptIssue[] =>
+  segments.slice(1).flatMap((segment, i) => {
+    const before = segments[i];
+    const gap = segment.start - before.end;
+    return gap >= gapSeconds ? [{ type: 'gap' as const, start: before.end, end: segment.start, text: '', detail: `${gap.toFixed(1)}s of silence` }] : [];
+  });
+
+export const findTranscriptIssues = (segments: TranscriptSegment[], gapSeconds: number): TranscriptIssue[] => {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  return [...findRetakes(sorted), ...findStutters(sorted), ...findNoises(sorted), ...findGaps(sorted, gapSeconds)]
+    .sort((a, b) => a.start - b.start);
+};
+
+// --- EXPORT ---
+
+const issueLabel = (issue: TranscriptIssue) =>
+  `${ISSUE_LABELS[issue.type]}: ${issue.detail}${issue.text ? ` | ${issue.text}` : ''}`.replace(/[\t\r\n]+/g, ' ');
+
+// Audacity: File > Import > Labels
+export const issuesToAudacityLabels = (issues: TranscriptIssue[]): string =>
+  issues.map(issue => `${issue.start.toFixed(6)}\t${issue.end.toFixed(6)}\t${issueLabel(issue)}`).join('\n') + '\n';
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const issuesToCsv = (issues: TranscriptIssue[]): string =>
+  [
+    'type,start,end,timecode,detail,text',
+    ...issues.map(issue => [
+      issue.type,
+      issue.start.toFixed(2),
+      issue.end.toFixed(2),
+      formatTimestamp(issue.start),
+      csvField(issue.detail),
+      csvField(issue.text),
+    ].join(',')),
+  ].join('\n') + '\n';
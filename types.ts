@@ -1,7 +1,33 @@
+// Processing stages in the ffmpeg chain, in their default order
+export type StageId = 'highpass' | 'denoise' | 'lowpass' | 'eq' | 'declick' | 'deesser' | 'compressor' | 'loudnorm' | 'limiter';
+
+export const DEFAULT_STAGE_ORDER: StageId[] = ['highpass', 'denoise', 'lowpass', 'eq', 'declick', 'deesser', 'compressor', 'loudnorm', 'limiter'];
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'notch';
+
+export interface EqBand {
+  type: EqBandType;
+  freq: number; // Hz (centre, or corner for shelves)
+  gain: number; // dB, unused for notch
+  q: number;
+}
+
+// Delivery formats; containers and encoders are in formats.ts
+export type OutputFormat = 'aac' | 'mp3' | 'opus' | 'flac' | 'wav';
+export type BitrateMode = 'cbr' | 'vbr';
+export type ChannelLayout = 'mono' | 'stereo';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['aac', 'mp3', 'opus', 'flac', 'wav'];
+export const BITRATE_MODES: BitrateMode[] = ['cbr', 'vbr'];
+export const CHANNEL_LAYOUTS: ChannelLayout[] = ['mono', 'stereo'];
+export const SAMPLE_RATES = [44100, 48000];
+export const BIT_DEPTHS = [16, 24];
+
 export interface AudioConfig {
   // Frequency Shaping
   highpassFreq: number; // Rumble Cutoff
   lowpassFreq: number; // Clarity Ceiling
+  eqBands: EqBand[]; // Parametric EQ, applied in order
   
   // Sibilance
   deesserFreq: number;
@@ -17,24 +43,113 @@ export interface AudioConfig {
   loudnormLra: number; // Loudness Range
   
   // Output
-  bitrate: number;
+  outputFormat: OutputFormat;
+  extraFormats: OutputFormat[]; // Also encoded from the same master by full exports
+  bitrate: number; // kbps: AAC, MP3 CBR, Opus
+  bitrateMode: BitrateMode; // MP3 and Opus
+  vbrQuality: number; // MP3 VBR: LAME V0 (best) to V9
+  sampleRate: number; // Hz; Opus always encodes at 48 kHz
+  bitDepth: number; // FLAC and WAV
+  channels: ChannelLayout;
   flacCompressionLevel: number;
+
+  // Split Delivery (ACX / Findaway)
+  headSilence: number; // Seconds of room tone before each file
+  tailSilence: number; // Seconds of room tone after each file
+
+  // Processing Chain
+  stageOrder: StageId[];
+  bypassedStages: StageId[];
 }
 
-export type AppMode = 'upload' | 'dashboard' | 'studio' | 'export';
+export type AppMode = 'upload' | 'dashboard' | 'studio' | 'export' | 'batch';
+
+export const APP_MODES: AppMode[] = ['upload', 'dashboard', 'studio', 'export', 'batch'];
+
+export type ScriptMode = 'test-45s' | 'test-10s' | 'full' | 'split-chapters';
+
+export const SCRIPT_MODES: ScriptMode[] = ['test-45s', 'test-10s', 'full', 'split-chapters'];
+
+export type ScriptTarget = 'bash' | 'powershell';
 
 export interface AudioAnalysis {
-  estLufs: number; // Estimated RMS/Loudness
-  peak: number;    // True Peak dB
+  estLufs: number; // Unweighted RMS dB (all channels)
+  peak: number;    // Sample Peak dBFS
+  integratedLufs: number; // BS.1770-4 gated integrated loudness (LUFS)
+  shortTermMax: number; // Max 3s loudness (LUFS)
+  momentaryMax: number; // Max 400ms loudness (LUFS)
+  lra: number; // Loudness Range (LU)
+  truePeak: number; // 4x oversampled True Peak (dBTP)
   noiseFloor: number; // Estimated Noise Floor dB
   duration: number; // Seconds
-  sampleRate: number;
+  sampleRate: number; // Rate the audio was decoded and measured at
+  sourceRate?: number; // Rate declared by the source's header; unset when it couldn't be read
+  channels: number;
+  leadingSilence: number;  // Seconds of room tone before the first speech
+  trailingSilence: number; // Seconds of room tone after the last speech
   isEst: boolean;   // Is this an estimate or full scan?
+  spectrum?: SpectralProfile; // Average speech spectrum; whole-file scans only
+  sections?: SectionProfile;   // Per-block levels for picking preview windows; whole-file scans only
+  chapters?: ChapterAnalysis[]; // Per-chapter metrics when the source has chapter markers
+}
+
+// Levels per SECTION_SECONDS block, in dB. Blocks without speech have sibilance SILENT_DB.
+export interface SectionProfile {
+  blockSeconds: number;
+  loudness: number[];  // Mean level
+  noise: number[];     // Quietest analysis window, i.e. the room between words
+  sibilance: number[]; // Energy above 4 kHz relative to the whole band, speech only
+}
+
+// Where test clips start: a fixed time, or picked from the scan
+export type PreviewStartMode = 'manual' | 'loudest' | 'noisiest' | 'sibilant' | 'multi';
+
+// Third-octave band levels (dB, relative) averaged over speech windows
+export interface SpectralProfile {
+  bands: { freq: number; db: number }[]; // Centre frequency in Hz
+  windows: number; // FFT windows averaged
+}
+
+export interface Chapter {
+  title: string;
+  start: number; // Seconds
+  end: number;   // Seconds
+}
+
+export interface ChapterAnalysis {
+  chapter: Chapter;
+  analysis: AudioAnalysis;
+}
+
+export interface ScriptOptions {
+  perChapterLoudness?: boolean; // Full mode: normalize each chapter separately, then reassemble
+  splitCredits?: boolean; // Split mode: deliver first/last chapters as opening/closing credits
+  previewStarts?: number[]; // Test clips: seconds into the source (default [PREVIEW_SEEK_SECONDS]); several are joined
+  target?: ScriptTarget; // Shell the script is written for (default bash)
+  verify?: boolean; // Full/split: re-measure the delivered files, write a QC report and fail on anything off target
+}
+
+// --- BATCH ---
+
+// Settings a single file in a batch may change from the shared config
+export type BatchOverrideKey = 'highpassFreq' | 'noiseReduction' | 'deesserAmount' | 'compressionAmount' | 'loudnormTarget';
+
+export const BATCH_OVERRIDE_KEYS: BatchOverrideKey[] = ['highpassFreq', 'noiseReduction', 'deesserAmount', 'compressionAmount', 'loudnormTarget'];
+
+export interface BatchItem {
+  id: string;
+  path: string;       // Source path as the script will see it
+  file: File | null;  // Null for entries from a pasted listing; those can't be analyzed
+  overrides: Partial<Pick<AudioConfig, BatchOverrideKey>>;
+  status: 'pending' | 'analyzing' | 'analyzed' | 'error';
+  analysis: AudioAnalysis | null;
+  error?: string;
 }
 
 export const DEFAULT_CONFIG: AudioConfig = {
   highpassFreq: 80,
   lowpassFreq: 12000, // Default open, prompt suggested 3800 for specific "Voice Impact" but 12k is safer default
+  eqBands: [], // Flat
   deesserFreq: 6000,
   deesserAmount: 0.5, // Moderate
   noiseReduction: 0.2, // Light/Moderate equivalent
@@ -42,8 +157,19 @@ export const DEFAULT_CONFIG: AudioConfig = {
   loudnormTarget: -19,
   loudnormTp: -3.0,
   loudnormLra: 11,
+  outputFormat: 'aac',
+  extraFormats: [],
   bitrate: 128,
+  bitrateMode: 'cbr',
+  vbrQuality: 2,
+  sampleRate: 44100,
+  bitDepth: 16,
+  channels: 'mono',
   flacCompressionLevel: 6,
+  headSilence: 0.75,
+  tailSilence: 2.5,
+  stageOrder: DEFAULT_STAGE_ORDER,
+  bypassedStages: [],
 };
 
 export interface AudioPreset {
@@ -72,6 +198,10 @@ export const PRESETS: AudioPreset[] = [
     config: {
       highpassFreq: 60,
       lowpassFreq: 8000,
+      eqBands: [
+        { type: 'peaking', freq: 250, gain: 2.5, q: 1.0 }, // Body
+        { type: 'peaking', freq: 3500, gain: -1.5, q: 1.2 }, // Soften edge
+      ],
       compressionAmount: 0.2,
       loudnormTarget: -20
     }
@@ -83,6 +213,10 @@ export const PRESETS: AudioPreset[] = [
     config: {
       highpassFreq: 90,
       lowpassFreq: 14000,
+      eqBands: [
+        { type: 'peaking', freq: 300, gain: -2, q: 1.2 }, // Clear mud
+        { type: 'highshelf', freq: 8000, gain: 2, q: 0.7 }, // Air
+      ],
       deesserAmount: 0.7,
       compressionAmount: 0.4
     }
@@ -94,6 +228,9 @@ export const PRESETS: AudioPreset[] = [
     config: {
       noiseReduction: 0.6,
       highpassFreq: 100,
+      eqBands: [
+        { type: 'peaking', freq: 400, gain: -3, q: 1.4 }, // Untreated-room boxiness
+      ],
       compressionAmount: 0.5
     }
   },
@@ -105,7 +242,11 @@ export const PRESETS: AudioPreset[] = [
       loudnormTarget: -16,
       loudnormTp: -1.0,
       compressionAmount: 0.8,
-      lowpassFreq: 10000
+      lowpassFreq: 10000,
+      eqBands: [
+        { type: 'lowshelf', freq: 120, gain: 2, q: 0.7 }, // Proximity weight
+        { type: 'peaking', freq: 3000, gain: 2, q: 1.0 }, // Presence
+      ]
     }
   }
 ];
@@ -119,6 +260,17 @@ export const RANGES = {
   compressionAmount: { min: 0, max: 1, step: 0.1, label: "Compression Style" },
   loudnormTarget: { min: -30, max: -14, step: 0.5, label: "LUFS Target" },
   loudnormTp: { min: -6.0, max: -0.1, step: 0.1, label: "True Peak Limit (dB)" },
-  bitrate: { min: 96, max: 256, step: 32, label: "Bitrate (kbps)" },
+  bitrate: { min: 32, max: 320, step: 32, label: "Bitrate (kbps)" },
+  vbrQuality: { min: 0, max: 9, step: 1, label: "MP3 VBR Quality (V)" },
   flacCompressionLevel: { min: 0, max: 12, step: 1, label: "Intermediate FLAC Level" },
-};
\ No newline at end of file
+  headSilence: { min: 0.5, max: 1, step: 0.05, label: "Head Room Tone (s)" },
+  tailSilence: { min: 1, max: 5, step: 0.5, label: "Tail Room Tone (s)" },
+};
+
+export const EQ_RANGES = {
+  freq: { min: 20, max: 20000, step: 1, label: "Frequency (Hz)" },
+  gain: { min: -12, max: 12, step: 0.5, label: "Gain (dB)" },
+  q: { min: 0.1, max: 10, step: 0.1, label: "Q" },
+};
+
+export const MAX_EQ_BANDS = 6;
\ No newline at end of file
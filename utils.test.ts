@@ -0,0 +1,106 @@
+import { spawnSync } from 'child_process';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, ScriptMode, ScriptOptions } from './types';
+import { generateFFmpegCommand, generateMasteringSteps } from './utils';
+import { getPathProblem } from './shell';
+
+const HOSTILE_PATHS = [
+  '/data/Book "1".m4b',
+  '/data/Book $(touch /tmp/audioforge-pwned).m4b',
+  '/data/Book `touch /tmp/audioforge-pwned`.m4b',
+  '/data/Back\\slash.m4b',
+  "/data/Author's Cut.m4b",
+  '/data/My Audio Book.m4b',
+  '~/Audio Books/$HOME.m4b',
+];
+
+const SCRIPTS: [string, ScriptMode, ScriptOptions][] = [
+  ['whole-file', 'full', {}],
+  ['per-chapter', 'full', { perChapterLoudness: true }],
+  ['split', 'split-chapters', { splitCredits: true }],
+  ['verified', 'full', { verify: true }],
+  ['45s preview', 'test-45s', {}],
+  ['multi-excerpt preview', 'test-10s', { previewStarts: [10, 200, 400] }],
+];
+
+const checkSyntax = (script: string) => spawnSync('bash', ['-n'], { input: script, encoding: 'utf8' });
+
+// Runs the script's own `NAME=...` line and prints what bash stored
+const readVariable = (script: string, name: string) => {
+  const line = script.split('\n').find(l => l.startsWith(`${name}=`));
+  expect(line).toBeDefined();
+  return spawnSync('bash', ['-c', `${line}; printf '%s' "$${name}"`], { encoding: 'utf8' }).stdout;
+};
+
+const expandHome = (path: string) => path.replace(/^~\//, `${process.env.HOME}/`);
+
+describe('generateFFmpegCommand paths', () => {
+  describe.each(SCRIPTS)('%s script', (_, mode, options) => {
+    it.each(HOSTILE_PATHS)('carries %s as input and output', path => {
+      const output = mode === 'split-chapters' ? path.replace(/\.m4b$/, '') : path;
+      const script = generateFFmpegCommand(DEFAULT_CONFIG, path, mode, output, options);
+      const syntax = checkSyntax(script);
+      expect(syntax.stderr).toBe('');
+      expect(syntax.status).toBe(0);
+
+      if (mode === 'full' || mode === 'split-chapters') {
+        expect(readVariable(script, 'INPUT')).toBe(expandHome(path));
+        expect(readVariable(script, mode === 'full' ? 'OUTPUT' : 'OUTPUT_PREFIX')).toBe(expandHome(output));
+      } else {
+        // A preview is one ffmpeg command; every word of it must come back literal
+        const words = spawnSync('bash', ['-c', `set -- ${script.replace(/\\\n/g, ' ')}; printf '%s\\n' "$@"`], { encoding: 'utf8' })
+          .stdout.split('\n');
+        expect(words).toContain(expandHome(path));
+      }
+    });
+  });
+});
+
+describe('generateMasteringSteps paths', () => {
+  it.each(HOSTILE_PATHS)('keeps %s literal and syntax-clean', path => {
+    const { script } = generateMasteringSteps(DEFAULT_CONFIG, path, 'full', path, { perChapterLoudness: true, verify: true });
+    expect(checkSyntax(script).status).toBe(0);
+    expect(readVariable(script, 'INPUT')).toBe(expandHome(path));
+    expect(readVariable(script, 'OUTPUT')).toBe(expandHome(path));
+  });
+
+  it('never runs command substitutions from a path while setting up', () => {
+    const path = '/data/$(echo INJECTED >&2)`echo INJECTED >&2`.m4b';
+    const { script } = generateMasteringSteps(DEFAULT_CONFIG, path, 'full', path);
+    const line = script.split('\n').find(l => l.startsWith('INPUT='));
+    const run = spawnSync('bash', ['-c', `${line}; printf '%s' "$INPUT"`], { encoding: 'utf8' });
+    expect(run.stderr).not.toContain('INJECTED');
+    expect(run.stdout).toBe(path);
+  });
+});
+
+describe('paths scripts cannot carry', () => {
+  it.each([
+    ['a newline', '/data/Book\n$(reboot).m4b'],
+    ['a carriage return', '/data/Book\r.m4b'],
+    ['a leading -', '-filter_complex.m4b'],
+  ])('rejects a path with %s', (_, path) => {
+    expect(getPathProblem(path)).not.toBeNull();
+  });
+});
+
+describe('ACX chapter split', () => {
+  const splitScript = (target: ScriptOptions['target'], config = DEFAULT_CONFIG) =>
+    generateFFmpegCommand(config, '/data/book.m4b', 'split-chapters', '/data/book', { target });
+  const splitArgs = (target: ScriptOptions['target'], config = DEFAULT_CONFIG) =>
+    splitScript(target, config).split('\n').find(l => l.includes('libmp3lame -b:a 192k'))!.trim();
+
+  it.each(['bash', 'powershell'] as const)('cuts the recorded room tone back instead of padding with silence (%s)', target => {
+    const script = splitScript(target);
+    expect(script).toContain(
+      'silenceremove=start_periods=1:start_threshold=-60dB:start_silence=0.75,areverse,'
+      + 'silenceremove=start_periods=1:start_threshold=-60dB:start_silence=2.5,areverse',
+    );
+    expect(script).not.toMatch(/adelay|apad/);
+  });
+
+  it.each(['bash', 'powershell'] as const)('encodes with the configured channel count (%s)', target => {
+    expect(splitArgs(target)).toMatch(/^-c:a libmp3lame -b:a 192k -ar 44100 -ac 1 /);
+    expect(splitArgs(target, { ...DEFAULT_CONFIG, channels: 'stereo' })).toMatch(/^-c:a libmp3lame -b:a 192k -ar 44100 -ac 2 /);
+  });
+});
@@ -1,13 +1,7 @@
-import { AudioConfig, RANGES } from './types';
-
-// Helper to replace ~ with $HOME for shell expansion inside double quotes
-const resolveShellPath = (path: string): string => {
-  if (!path) return path;
-  if (path.startsWith('~/')) {
-    return path.replace(/^~\//, '$HOME/');
-  }
-  return path;
-};
+import { AudioConfig, OutputFormat, RANGES, ScriptMode, ScriptOptions } from './types';
+import { buildFilterGraph, createMeasurementNode, filterToString, graphToFFmpeg, joinedGraphToFFmpeg, FilterGraph, LoudnormMeasurement } from './filtergraph';
+import { quoteBashPath, quotePowerShellPath } from './shell';
+import { getAcxSplitArgs, OUTPUT_FORMAT_SPECS, describeFormat, getEncoderArgs, getOutputFormats } from './formats';
 
 // --- VOICE IMPACT HELPERS ---
 export const getFrequencyImpact = (val: number): string => {
@@ -52,120 +46,776 @@ export const getLoudnessImpact = (val: number): string => {
   return "Music Streaming / Loud";
 };
 
-// --- FFMPEG GENERATOR ---
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = total % 60;
+  return [h, m, sec].map(v => String(v).padStart(2, '0')).join(':');
+};
 
-export const generateFFmpegCommand = (
-  config: AudioConfig,
-  inputPath: string,
-  mode: 'test-45s' | 'test-10s' | 'full',
-  outputFilePath?: string
-): string => {
-  const inputFile = inputPath || "input.m4b";
-  const safeInput = resolveShellPath(inputFile);
-  
-  // MAPPINGS
-  // Noise Reduction
-  const nr = Math.round(config.noiseReduction * 40); 
-  const nf = Math.round(-80 + (config.noiseReduction * 40)); 
-  const afftdn = `afftdn=nr=${nr}:nf=${nf}:tn=1`;
-
-  // Compressor (acompressor logic)
-  const ratio = 2 + (config.compressionAmount * 3); 
-  const attack = 20 - (config.compressionAmount * 18);
-  const release = 250 - (config.compressionAmount * 200);
-  const makeup = 2 + (config.compressionAmount * 2);
-  
-  const compressor = `acompressor=threshold=-20dB:ratio=${ratio.toFixed(1)}:attack=${attack.toFixed(1)}:release=${release.toFixed(0)}:makeup=${makeup.toFixed(1)}`;
+// Accepts hh:mm:ss, mm:ss or plain seconds; null when the text isn't a time
+export const parseTimestamp = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((total, p) => total * 60 + parseFloat(p), 0);
+};
 
-  // De-esser
-  // f is 0-1 where 1 is Nyquist. Assuming 44100Hz sr, Nyquist is 22050Hz.
-  const deesserFreqVal = (config.deesserFreq / 22050).toFixed(3);
-  const deesser = `deesser=i=${config.deesserAmount.toFixed(2)}:m=0.5:f=${deesserFreqVal}:s=o`;
+// --- SHELL FILTER GRAPHS ---
 
-  // Limiter
-  const limiter = `alimiter=limit=${config.loudnormTp}dB:attack=5:release=50`;
+// Filled in by measure_loudness in the bash scripts
+const SHELL_MEASUREMENT: LoudnormMeasurement = {
+  input_i: '$MEASURED_I',
+  input_tp: '$MEASURED_TP',
+  input_lra: '$MEASURED_LRA',
+  input_thresh: '$MEASURED_THRESH',
+  target_offset: '$OFFSET',
+};
 
-  // EQ & Cleanup
-  const highpass = `highpass=f=${config.highpassFreq}:poles=2`;
-  const lowpass = `lowpass=f=${config.lowpassFreq}:poles=2`;
-  const click = `adeclick=w=55:o=75:t=25`;
+// Line-continued so long graphs stay readable inside a double-quoted bash argument
+const SHELL_GRAPH_SEPARATOR = ',\\\n';
 
-  if (mode === 'full') {
-    const safeOutput = resolveShellPath(outputFilePath || "processed_audiobook.m4b");
-    
-    return `#!/bin/bash
-# VOICE ENHANCEMENT STUDIO - AUDIOBOOK MASTERING SCRIPT (FLAC Workflow)
+const shellFilterGraph = (graph: FilterGraph) => `"\\\n${graphToFFmpeg(graph, SHELL_GRAPH_SEPARATOR)}"`;
+
+// Test clips start five minutes in, past any opening credits
+export const PREVIEW_SEEK_SECONDS = 300;
+
+export const getPreviewDuration = (mode: ScriptMode): number => mode === 'test-10s' ? 10 : 45;
+
+// A clip cut from several starts splits its length evenly between them
+export const getExcerptSeconds = (mode: ScriptMode, count: number): number =>
+  parseFloat((getPreviewDuration(mode) / Math.max(1, count)).toFixed(2));
 
-INPUT="${safeInput}"
-OUTPUT="${safeOutput}"
-TEMP_FLAC="/tmp/temp_analysis_$(date +%s).flac"
+// --- FULL-MODE SCRIPT SECTIONS ---
+// Shared bash fragments for the whole-file, per-chapter and split exports.
 
-echo ">> 🎧 PHASE 1: ANALYSIS & MEASUREMENT"
+interface MasterTarget {
+  file: string;      // Quoted bash expression for the processed master
+  codecArgs: string; // Encoder arguments for the master
+}
+
+// Target loudness, recorded in the measurement sidecar
+const targetJson = (config: AudioConfig) =>
+  `{"I": ${config.loudnormTarget}, "TP": ${config.loudnormTp}, "LRA": ${config.loudnormLra}}`;
+
+// Defined up front: a clear abort, and loudnorm's first pass parsed field by field with
+// every value checked, so a failed analysis never turns into an unnormalized "master"
+const measurementHelpers = (config: AudioConfig) => `fail() {
+  echo ">> ❌ ERROR: $*" >&2
+  exit 1
+}
+
+# One field of loudnorm's JSON block, e.g. "input_i" : "-23.41"
+json_field() {
+  printf '%s\\n' "$1" | sed -n 's/^[[:space:]]*"'"$2"'"[[:space:]]*:[[:space:]]*"\\([^"]*\\)".*/\\1/p'
+}
+
+# loudnorm reports -inf on digital silence; only plain numbers are usable
+is_number() {
+  [[ "$1" =~ ^-?[0-9]+(\\.[0-9]+)?$ ]]
+}
+
+require_number() {
+  is_number "$2" || fail "loudness analysis returned no usable $1 ('$2')"
+}
+
+# First pass over the given input options; sets MEASURED_* and OFFSET
+measure_loudness() {
+  local LOG JSON
+  if ! LOG=$(ffmpeg -nostdin -hide_banner "$@" -af ${filterToString(createMeasurementNode(config))} -f null - 2>&1); then
+    printf '%s\\n' "$LOG" | tail -n 5 >&2
+    fail "loudness analysis failed"
+  fi
+  JSON=$(printf '%s\\n' "$LOG" | sed -n '/^{/,/^}/p')
+  [ -n "$JSON" ] || fail "ffmpeg printed no loudnorm measurement"
+  MEASURED_I=$(json_field "$JSON" input_i)
+  MEASURED_TP=$(json_field "$JSON" input_tp)
+  MEASURED_LRA=$(json_field "$JSON" input_lra)
+  MEASURED_THRESH=$(json_field "$JSON" input_thresh)
+  OFFSET=$(json_field "$JSON" target_offset)
+  require_number input_i "$MEASURED_I"
+  require_number input_tp "$MEASURED_TP"
+  require_number input_lra "$MEASURED_LRA"
+  require_number input_thresh "$MEASURED_THRESH"
+  require_number target_offset "$OFFSET"
+}
+
+# The values just measured, for the sidecar
+measurement_json() {
+  printf '{"input_i": %s, "input_tp": %s, "input_lra": %s, "input_thresh": %s, "target_offset": %s}' \\
+    "$MEASURED_I" "$MEASURED_TP" "$MEASURED_LRA" "$MEASURED_THRESH" "$OFFSET"
+}`;
+
+const extractionStep = (config: AudioConfig, heading: string) => `echo ">> 🎧 PHASE 1: ${heading}"
 # Extract to temporary FLAC (Lossless, Compressed Level ${config.flacCompressionLevel})
 # -map_metadata 0 preserves chapters and tags from source
 # -nostdin prevents ffmpeg from consuming the rest of this script as input
 echo "   ...extracting to intermediate FLAC..."
-ffmpeg -nostdin -v warning -i "$INPUT" -vn -acodec flac -compression_level ${config.flacCompressionLevel} -ar 44100 -map_metadata 0 "$TEMP_FLAC" -y
+ffmpeg -nostdin -v warning -i "$INPUT" -vn -acodec flac -compression_level ${config.flacCompressionLevel} -ar 44100 -map_metadata 0 "$TEMP_FLAC" -y \\
+  || fail "extraction to FLAC failed"`;
+
+// Two-pass loudnorm over the whole programme
+const wholeFileSections = (config: AudioConfig, master: MasterTarget) => `${extractionStep(config, 'ANALYSIS & MEASUREMENT')}
 
 # Analyze loudness and noise floor from FLAC
 echo "   ...measuring dynamics and spectrum..."
-LOUDNESS_DATA=$(ffmpeg -nostdin -i "$TEMP_FLAC" -af loudnorm=I=${config.loudnormTarget}:TP=${config.loudnormTp}:LRA=${config.loudnormLra}:print_format=json -f null - 2>&1 | grep -A 12 "loudnorm" | tail -n 12)
-
-# Extract measured values
-# Uses escaped newline for tr to prevent multiline syntax errors in bash
-MEASURED_I=$(echo "$LOUDNESS_DATA" | grep '"input_i"' | cut -d : -f 2 | tr -d '", \\n')
-MEASURED_TP=$(echo "$LOUDNESS_DATA" | grep '"input_tp"' | cut -d : -f 2 | tr -d '", \\n')
-MEASURED_LRA=$(echo "$LOUDNESS_DATA" | grep '"input_lra"' | cut -d : -f 2 | tr -d '", \\n')
-MEASURED_THRESH=$(echo "$LOUDNESS_DATA" | grep '"input_thresh"' | cut -d : -f 2 | tr -d '", \\n')
-OFFSET=$(echo "$LOUDNESS_DATA" | grep '"target_offset"' | cut -d : -f 2 | tr -d '", \\n')
-
+measure_loudness -i "$TEMP_FLAC"
 echo "   ...Captured: I=$MEASURED_I TP=$MEASURED_TP LRA=$MEASURED_LRA"
 
-# Fallback values in case analysis failed (prevents syntax errors in next step)
-: \${MEASURED_I:=${config.loudnormTarget}}
-: \${MEASURED_TP:=${config.loudnormTp}}
-: \${MEASURED_LRA:=${config.loudnormLra}}
-: \${MEASURED_THRESH:=-70.0}
-: \${OFFSET:=0.0}
-
 echo ">> 🎹 PHASE 2: PRECISION PROCESSING"
 # Process from the intermediate FLAC
 # Map metadata from it to ensure chapters are preserved
-ffmpeg -nostdin -i "$TEMP_FLAC" -filter_complex "\\
-[0:a]aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo,\\
-${highpass},\\
-${afftdn},\\
-${lowpass},\\
-${click},\\
-${deesser},\\
-${compressor},\\
-loudnorm=I=${config.loudnormTarget}:TP=${config.loudnormTp}:LRA=${config.loudnormLra}:measured_I=$MEASURED_I:measured_TP=$MEASURED_TP:measured_LRA=$MEASURED_LRA:measured_thresh=$MEASURED_THRESH:offset=$OFFSET:linear=true:print_format=summary,\\
-${limiter},\\
-aformat=channel_layouts=mono[out]" \\
+ffmpeg -nostdin -i "$TEMP_FLAC" -filter_complex ${shellFilterGraph(buildFilterGraph(config, SHELL_MEASUREMENT))} \\
 -map "[out]" \\
 -vn -map_metadata 0 \\
--c:a aac -b:a ${config.bitrate}k -movflags +faststart \\
-"$OUTPUT"
+${master.codecArgs} \\
+${master.file} -y \\
+  || fail "processing failed"
+
+printf '{\\n  "target": %s,\\n  "measured": %s\\n}\\n' '${targetJson(config)}' "$(measurement_json)" > "$SIDECAR"
+`;
+
+// Measures and normalizes each chapter on its own, then concatenates them
+const perChapterSections = (config: AudioConfig, master: MasterTarget) => `${extractionStep(config, 'EXTRACTION & CHAPTER MAP')}
+
+# Chapter boundaries as "start,end" seconds; a book without chapters is one chapter
+CHAPTERS=$(ffprobe -v error -show_entries chapter=start_time,end_time -of csv=p=0 "$INPUT") || fail "could not read chapters"
+if [ -z "$CHAPTERS" ]; then
+  CHAPTERS="0,$(ffprobe -v error -show_entries format=duration -of csv=p=0 "$TEMP_FLAC")"
+fi
+echo "   ...found $(echo "$CHAPTERS" | wc -l | tr -d ' ') chapter(s)"
+
+echo ">> 🎹 PHASE 2: PER-CHAPTER MEASUREMENT & PROCESSING"
+: > "$WORK_DIR/parts.txt"
+MEASUREMENTS=""
+N=0
+while IFS=, read -r START END; do
+  N=$((N+1))
+  PART="$WORK_DIR/part_$(printf '%04d' $N).flac"
+  echo "   ...chapter $N ($START - $END)"
+
+  measure_loudness -ss "$START" -to "$END" -i "$TEMP_FLAC"
+  echo "      I=$MEASURED_I TP=$MEASURED_TP LRA=$MEASURED_LRA"
+  MEASUREMENTS="$MEASUREMENTS\${MEASUREMENTS:+,}
+    {\\"chapter\\": $N, \\"start\\": $START, \\"end\\": $END, \\"measured\\": $(measurement_json)}"
 
-# Cleanup
-rm "$TEMP_FLAC"
-echo ">> ✅ PROCESSING COMPLETE: $OUTPUT"
+  ffmpeg -nostdin -v warning -ss "$START" -to "$END" -i "$TEMP_FLAC" -filter_complex ${shellFilterGraph(buildFilterGraph(config, SHELL_MEASUREMENT))} \\
+  -map "[out]" -c:a flac "$PART" -y \\
+    || fail "processing chapter $N failed"
+
+  echo "file '$PART'" >> "$WORK_DIR/parts.txt"
+done <<< "$CHAPTERS"
+
+echo ">> 📚 PHASE 3: REASSEMBLY"
+# Concatenate processed chapters; chapters and tags come from the original source
+ffmpeg -nostdin -v warning -f concat -safe 0 -i "$WORK_DIR/parts.txt" -i "$INPUT" \\
+-map 0:a -map_metadata 1 -map_chapters 1 \\
+${master.codecArgs} \\
+${master.file} -y \\
+  || fail "reassembly failed"
+
+printf '{\\n  "target": %s,\\n  "chapters": [%s\\n  ]\\n}\\n' '${targetJson(config)}' "$MEASUREMENTS" > "$SIDECAR"
+`;
+
+// ACX / Findaway delivery: one MP3 per chapter (192kbps CBR, 44.1kHz) with the room tone
+// at each edge cut back to the head/tail length. The recorded room tone is kept: padding
+// with digital silence gets files rejected.
+const edgeSilenceFilter = (config: AudioConfig) => {
+  const trim = (keep: number) => `silenceremove=start_periods=1:start_threshold=-60dB:start_silence=${keep}`;
+  return `${trim(config.headSilence)},areverse,${trim(config.tailSilence)},areverse`;
+};
+
+const splitSection = (config: AudioConfig, options: ScriptOptions, phase: number) => {
+  const naming = options.splitCredits
+    ? `  # First and last chapters are delivered as opening/closing credits
+  if [ "$TOTAL" -ge 3 ] && [ "$N" -eq 1 ]; then
+    NAME="00_Opening_Credits"
+  elif [ "$TOTAL" -ge 3 ] && [ "$N" -eq "$TOTAL" ]; then
+    NAME="$(printf '%02d' $((N-1)))_Closing_Credits"
+  elif [ "$TOTAL" -ge 3 ]; then
+    NAME="$(printf '%02d' $((N-1)))"
+  else
+    NAME="$(printf '%02d' $N)"
+  fi`
+    : `  NAME="$(printf '%02d' $N)"`;
+
+  return `echo ">> ✂️ PHASE ${phase}: CHAPTER SPLIT (MP3 192k CBR / 44.1kHz)"
+# "start,end,title" per chapter; titles may contain commas so they are read last
+SPLIT_MAP=$(ffprobe -v error -show_entries chapter=start_time,end_time:chapter_tags=title -of csv=p=0 "$INPUT") || fail "could not read chapters"
+if [ -z "$SPLIT_MAP" ]; then
+  SPLIT_MAP="0,$(ffprobe -v error -show_entries format=duration -of csv=p=0 "$MASTER_FLAC"),"
+fi
+TOTAL=$(echo "$SPLIT_MAP" | wc -l | tr -d ' ')
+N=0
+PIECES=()
+while IFS=, read -r START END TITLE; do
+  N=$((N+1))
+  TITLE="\${TITLE%\\"}"; TITLE="\${TITLE#\\"}"
+${naming}
+  PIECE="\${OUTPUT_PREFIX}_\${NAME}.mp3"
+  echo "   ...[$N/$TOTAL] $PIECE"
+
+  # Cut edge room tone back to ${config.headSilence}s head / ${config.tailSilence}s tail (reverse trick for the tail)
+  ffmpeg -nostdin -v warning -ss "$START" -to "$END" -i "$MASTER_FLAC" \\
+  -af "${edgeSilenceFilter(config)}" \\
+  ${getAcxSplitArgs(config).join(' ')} \\
+  -metadata title="\${TITLE:-$NAME}" -metadata track="$N/$TOTAL" \\
+  "$PIECE" -y \\
+    || fail "encoding $PIECE failed"
+  PIECES+=("$PIECE")
+done <<< "$SPLIT_MAP"
+`;
+};
+
+// --- MULTI-FORMAT DELIVERY ---
+// Full exports to several formats process once into a lossless master, then encode each
+// format from it. The primary format keeps the output path; the others sit next to it.
+
+// Script variable holding a format's output path
+const outputVar = (format: OutputFormat, config: AudioConfig) =>
+  format === config.outputFormat ? 'OUTPUT' : `OUTPUT_${format.toUpperCase()}`;
+
+const encodingSection = (config: AudioConfig, phase: number) => `echo ">> 🎚️ PHASE ${phase}: ENCODING"
+# Chapters and tags come from the original source
+${getOutputFormats(config).map(format => {
+    const output = `$${outputVar(format, config)}`;
+    return `# ${describeFormat(format, config)}
+echo "   ...${output}"
+ffmpeg -nostdin -v warning -i "$MASTER_FLAC" -i "$INPUT" -map 0:a -map_metadata 1 -map_chapters 1 \\
+${getEncoderArgs(format, config).join(' ')} "${output}" -y \\
+  || fail "encoding ${output} failed"`;
+  }).join('\n\n')}
+`;
+
+// --- VERIFICATION ---
+// Optional last phase: the delivered files are measured again (loudnorm for loudness and
+// true peak, astats for the noise floor) and checked against the configured targets and
+// the source's chapters and length. Results go into a QC report; any failed check makes
+// the script exit non-zero, so batch runners can tell a bad master from a good one.
+
+// How far a verified output may land from its targets
+export const VERIFY_TOLERANCES = {
+  loudness: 1,     // LU either side of the loudness target
+  truePeak: 0.5,   // dB over the true peak ceiling; lossy encoding adds intersample peaks
+  noiseFloor: -60, // dB ceiling (ACX)
+  duration: 1,     // Seconds of drift from the source
+};
+
+interface VerifyLimits {
+  target: number;
+  loudness: number;
+  peak: number;
+  noise: number;
+  duration: number;
+}
+
+const getVerifyLimits = (config: AudioConfig): VerifyLimits => ({
+  target: config.loudnormTarget,
+  loudness: VERIFY_TOLERANCES.loudness,
+  peak: parseFloat((config.loudnormTp + VERIFY_TOLERANCES.truePeak).toFixed(2)),
+  noise: VERIFY_TOLERANCES.noiseFloor,
+  duration: VERIFY_TOLERANCES.duration,
+});
+
+// Limits as recorded in the QC report
+const verifyTargetsJson = (limits: VerifyLimits) =>
+  `{"I": ${limits.target}, "I_tolerance": ${limits.loudness}, "TP_max": ${limits.peak}, "noise_floor_max": ${limits.noise}, "duration_tolerance": ${limits.duration}}`;
+
+const verificationHelpers = (config: AudioConfig) => {
+  const { target, loudness, peak, noise, duration } = getVerifyLimits(config);
+  return `# Strings and numbers for the QC report; unreadable values become null
+json_string() {
+  printf '"%s"' "$(printf '%s' "$1" | sed 's/\\\\/\\\\\\\\/g; s/"/\\\\"/g')"
+}
+
+json_number() {
+  if is_number "$1"; then printf '%s' "$1"; else printf 'null'; fi
+}
+
+# awk does the decimal comparisons bash can't
+within() {
+  awk -v v="$1" -v t="$2" -v d="$3" 'BEGIN { exit !(v - t <= d && t - v <= d) }'
+}
+
+at_most() {
+  awk -v v="$1" -v max="$2" 'BEGIN { exit !(v <= max) }'
+}
+
+qc_problem() {
+  echo "      ✗ $1"
+  QC_PROBLEMS="$QC_PROBLEMS\${QC_PROBLEMS:+, }$(json_string "$1")"
+}
+
+# Measures a delivered file again and adds it to the QC report; the chapter count and
+# duration are only checked when expected values are given
+verify_file() {
+  local FILE="$1" EXPECT_CHAPTERS="$2" EXPECT_DURATION="$3" LOG JSON I TP NOISE DURATION CHAPTERS
+  echo "   ...verifying $FILE"
+  QC_PROBLEMS=""
+  LOG=$(ffmpeg -nostdin -hide_banner -i "$FILE" -af astats,loudnorm=print_format=json -f null - 2>&1) \\
+    || fail "could not re-measure $FILE"
+  JSON=$(printf '%s\\n' "$LOG" | sed -n '/^{/,/^}/p')
+  I=$(json_field "$JSON" input_i)
+  TP=$(json_field "$JSON" input_tp)
+  # astats prints one block per channel, then the overall block
+  NOISE=$(printf '%s\\n' "$LOG" | sed -n 's/.*Noise floor dB: *//p' | tail -n 1)
+  DURATION=$(ffprobe -v error -show_entries format=duration -of csv=p=0 "$FILE") || fail "could not probe $FILE"
+  CHAPTERS=$(ffprobe -v error -show_entries chapter=id -of csv=p=0 "$FILE" | wc -l | tr -d ' ')
+
+  { is_number "$I" && within "$I" ${target} ${loudness}; } \\
+    || qc_problem "integrated loudness \${I:-?} LUFS, expected ${target} ±${loudness} LU"
+  { is_number "$TP" && at_most "$TP" ${peak}; } \\
+    || qc_problem "true peak \${TP:-?} dBTP, limit ${peak} dBTP"
+  # -inf is digital silence between phrases: as quiet as it gets
+  ! is_number "$NOISE" || at_most "$NOISE" ${noise} \\
+    || qc_problem "noise floor $NOISE dB, limit ${noise} dB"
+  [ -z "$EXPECT_CHAPTERS" ] || [ "$CHAPTERS" -eq "$EXPECT_CHAPTERS" ] \\
+    || qc_problem "$CHAPTERS chapter(s), source has $EXPECT_CHAPTERS"
+  [ -z "$EXPECT_DURATION" ] || { is_number "$DURATION" && within "$DURATION" "$EXPECT_DURATION" ${duration}; } \\
+    || qc_problem "duration \${DURATION}s, source \${EXPECT_DURATION}s"
+
+  [ -z "$QC_PROBLEMS" ] || QC_FAILED=$((QC_FAILED + 1))
+  QC_FILES="$QC_FILES\${QC_FILES:+,}
+    {\\"file\\": $(json_string "$FILE"), \\"integrated\\": $(json_number "$I"), \\"true_peak\\": $(json_number "$TP"), \\"noise_floor\\": $(json_number "$NOISE"), \\"duration\\": $(json_number "$DURATION"), \\"chapters\\": $CHAPTERS, \\"problems\\": [$QC_PROBLEMS]}"
+}`;
+};
+
+const verificationSection = (config: AudioConfig, split: boolean, phase: number) => {
+  const targets = verifyTargetsJson(getVerifyLimits(config));
+  const files = split
+    ? `# The lossless master carries the chapters and full length; each MP3 is one chapter
+verify_file "$MASTER_FLAC" "$SOURCE_CHAPTERS" "$SOURCE_DURATION"
+for PIECE in "\${PIECES[@]}"; do
+  verify_file "$PIECE" "" ""
+done`
+    // WAV has no chapter markers to compare
+    : getOutputFormats(config).map(format =>
+      `verify_file "$${outputVar(format, config)}" ${OUTPUT_FORMAT_SPECS[format].chapters ? '"$SOURCE_CHAPTERS"' : '""'} "$SOURCE_DURATION"`
+    ).join('\n');
+  return `echo ">> 🔍 PHASE ${phase}: VERIFICATION"
+SOURCE_DURATION=$(ffprobe -v error -show_entries format=duration -of csv=p=0 "$INPUT") || fail "could not probe the source"
+SOURCE_CHAPTERS=$(ffprobe -v error -show_entries chapter=id -of csv=p=0 "$INPUT" | wc -l | tr -d ' ')
+QC_FILES=""
+QC_FAILED=0
+${files}
+printf '{\\n  "passed": %s,\\n  "targets": %s,\\n  "source": {"file": %s, "duration": %s, "chapters": %s},\\n  "files": [%s\\n  ]\\n}\\n' \\
+  "$([ "$QC_FAILED" -eq 0 ] && echo true || echo false)" '${targets}' \\
+  "$(json_string "$INPUT")" "$(json_number "$SOURCE_DURATION")" "$SOURCE_CHAPTERS" "$QC_FILES" > "$QC_REPORT"
+[ "$QC_FAILED" -eq 0 ] || fail "$QC_FAILED file(s) failed verification, see $QC_REPORT"
+echo "   ...all checks passed"
 `;
+};
+
+// --- POWERSHELL TARGET ---
+// The same workflows for Windows editors (Windows PowerShell 5.1 and later): temp files
+// under $env:TEMP, loudnorm's JSON block read with ConvertFrom-Json, and every ffmpeg
+// call checked, since PowerShell carries on after a failed native command.
+
+// Filled in from the parsed measurement; braces keep the following ':' out of the name
+const POWERSHELL_MEASUREMENT: LoudnormMeasurement = {
+  input_i: '${MeasuredI}',
+  input_tp: '${MeasuredTP}',
+  input_lra: '${MeasuredLRA}',
+  input_thresh: '${MeasuredThresh}',
+  target_offset: '${Offset}',
+};
+
+// One double-quoted string per filter, joined with commas when the script runs
+const powerShellFilterGraph = (graph: FilterGraph, inputs = 1, indent = '') =>
+  `(@(\n${indent}  "${joinedGraphToFFmpeg(graph, inputs, `",\n${indent}  "`)}"\n${indent}) -join ',')`;
+
+const POWERSHELL_HELPERS = `# Any failed step stops the run (and exits non-zero)
+$ErrorActionPreference = 'Stop'
+[Console]::OutputEncoding = [Text.Encoding]::UTF8
+
+function Assert-ExitCode([string]$Step) {
+  if ($LASTEXITCODE -ne 0) { throw "$Step failed (ffmpeg exit code $LASTEXITCODE)" }
+}
+
+# loudnorm prints its measurement as a JSON block at the end of ffmpeg's log
+function Measure-Loudness([string[]]$FFmpegArgs) {
+  # ffmpeg logs to stderr, which Windows PowerShell would otherwise raise as an error
+  $ErrorActionPreference = 'Continue'
+  $Log = (& ffmpeg -nostdin -hide_banner @FFmpegArgs 2>&1 | ForEach-Object { "$_" }) -join "\`n"
+  if ($LASTEXITCODE -ne 0) { throw "Loudness analysis failed (ffmpeg exit code $LASTEXITCODE)" }
+  $Json = [regex]::Match($Log, '(?s)\\{[^{}]*"input_i"[^{}]*\\}').Value
+  if (-not $Json) { throw 'ffmpeg printed no loudnorm measurement' }
+  $Json | ConvertFrom-Json
+}
+
+# loudnorm reports -inf on digital silence; only plain numbers are usable
+function Get-Measured($Measured, [string]$Field) {
+  $Value = "$($Measured.$Field)"
+  if ($Value -notmatch '^-?\\d+(\\.\\d+)?$') { throw "Loudness analysis returned no usable $Field ('$Value')" }
+  $Value
+}`;
+
+const powerShellMeasurement = (config: AudioConfig, source: string, indent: string) => [
+  `$Measured = Measure-Loudness @(${source}, '-af', '${filterToString(createMeasurementNode(config))}', '-f', 'null', '-')`,
+  "$MeasuredI = Get-Measured $Measured 'input_i'",
+  "$MeasuredTP = Get-Measured $Measured 'input_tp'",
+  "$MeasuredLRA = Get-Measured $Measured 'input_lra'",
+  "$MeasuredThresh = Get-Measured $Measured 'input_thresh'",
+  "$Offset = Get-Measured $Measured 'target_offset'",
+  '$Measurement = [ordered]@{ input_i = [double]$MeasuredI; input_tp = [double]$MeasuredTP; input_lra = [double]$MeasuredLRA; input_thresh = [double]$MeasuredThresh; target_offset = [double]$Offset }',
+].map(line => indent + line).join('\n');
+
+// Measured loudness goes next to the output
+const powerShellSidecar = (config: AudioConfig, key: string, value: string, indent = '  ') =>
+  `${indent}[ordered]@{ target = [ordered]@{ I = ${config.loudnormTarget}; TP = ${config.loudnormTp}; LRA = ${config.loudnormLra} }; ${key} = ${value} } |
+${indent}  ConvertTo-Json -Depth 4 | Set-Content -LiteralPath $Sidecar -Encoding UTF8`;
+
+const powerShellExtraction = (config: AudioConfig, heading: string) => `  Write-Host ">> 🎧 PHASE 1: ${heading}"
+  # Extract to temporary FLAC (Lossless, Compressed Level ${config.flacCompressionLevel}); -map_metadata 0 keeps chapters and tags
+  Write-Host "   ...extracting to intermediate FLAC..."
+  ffmpeg -nostdin -v warning -i $InputFile -vn -acodec flac -compression_level ${config.flacCompressionLevel} -ar 44100 -map_metadata 0 $TempFlac -y
+  Assert-ExitCode 'FLAC extraction'`;
+
+const powerShellWholeFile = (config: AudioConfig, master: MasterTarget) => `${powerShellExtraction(config, 'ANALYSIS & MEASUREMENT')}
+
+  Write-Host "   ...measuring dynamics and spectrum..."
+${powerShellMeasurement(config, "'-i', $TempFlac", '  ')}
+  Write-Host "   ...Captured: I=$MeasuredI TP=$MeasuredTP LRA=$MeasuredLRA"
+
+  Write-Host ">> 🎹 PHASE 2: PRECISION PROCESSING"
+  $Graph = ${powerShellFilterGraph(buildFilterGraph(config, POWERSHELL_MEASUREMENT), 1, '  ')}
+  ffmpeg -nostdin -i $TempFlac -filter_complex $Graph -map '[out]' -vn -map_metadata 0 ${master.codecArgs} ${master.file} -y
+  Assert-ExitCode 'Processing'
+
+${powerShellSidecar(config, 'measured', '$Measurement')}`;
+
+const powerShellPerChapter = (config: AudioConfig, master: MasterTarget) => `${powerShellExtraction(config, 'EXTRACTION & CHAPTER MAP')}
+
+  # Chapter boundaries as "start,end" seconds; a book without chapters is one chapter
+  $Chapters = @(ffprobe -v error -show_entries 'chapter=start_time,end_time' -of csv=p=0 $InputFile)
+  if ($Chapters.Count -eq 0) {
+    $Chapters = @("0,$(ffprobe -v error -show_entries format=duration -of csv=p=0 $TempFlac)")
+  }
+  Write-Host "   ...found $($Chapters.Count) chapter(s)"
+
+  Write-Host ">> 🎹 PHASE 2: PER-CHAPTER MEASUREMENT & PROCESSING"
+  $Parts = @()
+  $Measurements = @()
+  $N = 0
+  foreach ($Chapter in $Chapters) {
+    $N++
+    $Start, $End = $Chapter.Split(',')[0..1]
+    $Part = Join-Path $WorkDir ('part_{0:d4}.flac' -f $N)
+    Write-Host "   ...chapter $N ($Start - $End)"
+
+${powerShellMeasurement(config, "'-ss', $Start, '-to', $End, '-i', $TempFlac", '    ')}
+    Write-Host "      I=$MeasuredI TP=$MeasuredTP LRA=$MeasuredLRA"
+    $Measurements += [ordered]@{ chapter = $N; start = [double]$Start; end = [double]$End; measured = $Measurement }
+
+    $Graph = ${powerShellFilterGraph(buildFilterGraph(config, POWERSHELL_MEASUREMENT), 1, '    ')}
+    ffmpeg -nostdin -v warning -ss $Start -to $End -i $TempFlac -filter_complex $Graph -map '[out]' -c:a flac $Part -y
+    Assert-ExitCode "Chapter $N"
+    $Parts += "file '$($Part.Replace("'", "'\\''"))'"
+  }
+  [IO.File]::WriteAllLines((Join-Path $WorkDir 'parts.txt'), [string[]]$Parts)
+
+  Write-Host ">> 📚 PHASE 3: REASSEMBLY"
+  # Concatenate processed chapters; chapters and tags come from the original source
+  ffmpeg -nostdin -v warning -f concat -safe 0 -i (Join-Path $WorkDir 'parts.txt') -i $InputFile -map 0:a -map_metadata 1 -map_chapters 1 ${master.codecArgs} ${master.file} -y
+  Assert-ExitCode 'Reassembly'
+
+${powerShellSidecar(config, 'chapters', '$Measurements')}`;
+
+const powerShellSplit = (config: AudioConfig, options: ScriptOptions, phase: number) => {
+  const naming = options.splitCredits
+    ? `    # First and last chapters are delivered as opening/closing credits
+    if ($Total -ge 3 -and $N -eq 1) { $Name = '00_Opening_Credits' }
+    elseif ($Total -ge 3 -and $N -eq $Total) { $Name = '{0:d2}_Closing_Credits' -f ($N - 1) }
+    elseif ($Total -ge 3) { $Name = '{0:d2}' -f ($N - 1) }
+    else { $Name = '{0:d2}' -f $N }`
+    : `    $Name = '{0:d2}' -f $N`;
+
+  return `  Write-Host ">> ✂️ PHASE ${phase}: CHAPTER SPLIT (MP3 192k CBR / 44.1kHz)"
+  # "start,end,title" per chapter; titles may contain commas so they are read last
+  $SplitMap = @(ffprobe -v error -show_entries 'chapter=start_time,end_time:chapter_tags=title' -of csv=p=0 $InputFile)
+  if ($SplitMap.Count -eq 0) {
+    $SplitMap = @("0,$(ffprobe -v error -show_entries format=duration -of csv=p=0 $MasterFlac),")
+  }
+  $Total = $SplitMap.Count
+  $N = 0
+  $Pieces = @()
+  foreach ($Row in $SplitMap) {
+    $N++
+    $Start, $End, $Title = $Row.Split(',', 3)
+    $Title = "$Title".Trim('"')
+${naming}
+    $Piece = "\${OutputPrefix}_$Name.mp3"
+    Write-Host "   ...[$N/$Total] $Piece"
+
+    # Cut edge room tone back to ${config.headSilence}s head / ${config.tailSilence}s tail (reverse trick for the tail)
+    ffmpeg -nostdin -v warning -ss $Start -to $End -i $MasterFlac -af '${edgeSilenceFilter(config)}' \`
+      ${getAcxSplitArgs(config).join(' ')} \`
+      -metadata "title=$(if ($Title) { $Title } else { $Name })" -metadata "track=$N/$Total" \`
+      $Piece -y
+    Assert-ExitCode "Chapter $N"
+    $Pieces += $Piece
+  }`;
+};
+
+// Variable holding a format's output path; extras are named after their format
+const powerShellOutputVar = (format: OutputFormat, config: AudioConfig) =>
+  format === config.outputFormat ? 'OutputFile' : `Output${format[0].toUpperCase()}${format.slice(1)}`;
+
+const powerShellEncoding = (config: AudioConfig, phase: number) => `  Write-Host ">> 🎚️ PHASE ${phase}: ENCODING"
+  # Chapters and tags come from the original source
+${getOutputFormats(config).map(format => {
+    const output = `$${powerShellOutputVar(format, config)}`;
+    return `  # ${describeFormat(format, config)}
+  Write-Host "   ...${output}"
+  ffmpeg -nostdin -v warning -i $MasterFlac -i $InputFile -map 0:a -map_metadata 1 -map_chapters 1 ${getEncoderArgs(format, config).join(' ')} ${output} -y
+  Assert-ExitCode "Encoding ${output}"`;
+  }).join('\n\n')}`;
+
+const powerShellVerificationHelpers = (config: AudioConfig) => {
+  const { target, loudness, peak, noise, duration } = getVerifyLimits(config);
+  return `# Plain numbers only; -inf and missing values become $null
+function ConvertTo-Number($Value) {
+  if ("$Value" -match '^-?\\d+(\\.\\d+)?$') { [double]"$Value" } else { $null }
+}
+
+# Measures a delivered file again; the chapter count and duration are only checked when expected values are given
+function Test-Output([string]$File, $ExpectChapters, $ExpectDuration) {
+  Write-Host "   ...verifying $File"
+  $ErrorActionPreference = 'Continue'
+  $Log = (& ffmpeg -nostdin -hide_banner -i $File -af 'astats,loudnorm=print_format=json' -f null - 2>&1 | ForEach-Object { "$_" }) -join "\`n"
+  if ($LASTEXITCODE -ne 0) { throw "Could not re-measure $File (ffmpeg exit code $LASTEXITCODE)" }
+  $Json = [regex]::Match($Log, '(?s)\\{[^{}]*"input_i"[^{}]*\\}').Value
+  $Measured = if ($Json) { $Json | ConvertFrom-Json } else { $null }
+  $I = ConvertTo-Number $Measured.input_i
+  $TP = ConvertTo-Number $Measured.input_tp
+  # astats prints one block per channel, then the overall block
+  $Noise = ConvertTo-Number ([regex]::Matches($Log, 'Noise floor dB: *(\\S+)') | ForEach-Object { $_.Groups[1].Value } | Select-Object -Last 1)
+  $Duration = ConvertTo-Number (& ffprobe -v error -show_entries format=duration -of csv=p=0 $File)
+  $ChapterCount = @(& ffprobe -v error -show_entries chapter=id -of csv=p=0 $File).Count
+
+  $Problems = @()
+  if ($null -eq $I -or [math]::Abs($I - (${target})) -gt ${loudness}) { $Problems += "integrated loudness $I LUFS, expected ${target} ±${loudness} LU" }
+  if ($null -eq $TP -or $TP -gt ${peak}) { $Problems += "true peak $TP dBTP, limit ${peak} dBTP" }
+  # -inf is digital silence between phrases: as quiet as it gets
+  if ($null -ne $Noise -and $Noise -gt ${noise}) { $Problems += "noise floor $Noise dB, limit ${noise} dB" }
+  if ($null -ne $ExpectChapters -and $ChapterCount -ne $ExpectChapters) { $Problems += "$ChapterCount chapter(s), source has $ExpectChapters" }
+  if ($null -ne $ExpectDuration -and ($null -eq $Duration -or [math]::Abs($Duration - $ExpectDuration) -gt ${duration})) {
+    $Problems += "duration \${Duration}s, source \${ExpectDuration}s"
+  }
+  foreach ($Problem in $Problems) { Write-Host "      ✗ $Problem" }
+  [ordered]@{ file = $File; integrated = $I; true_peak = $TP; noise_floor = $Noise; duration = $Duration; chapters = $ChapterCount; problems = $Problems }
+}`;
+};
+
+const powerShellVerification = (config: AudioConfig, split: boolean, phase: number) => {
+  const { target, loudness, peak, noise, duration } = getVerifyLimits(config);
+  const files = split
+    ? `  # The lossless master carries the chapters and full length; each MP3 is one chapter
+  $Checked = @(Test-Output $MasterFlac $SourceChapters $SourceDuration) + @($Pieces | ForEach-Object { Test-Output $_ $null $null })`
+    : `  $Checked = @(
+${getOutputFormats(config).map(format =>
+      `    Test-Output $${powerShellOutputVar(format, config)} ${OUTPUT_FORMAT_SPECS[format].chapters ? '$SourceChapters' : '$null'} $SourceDuration`
+    ).join('\n')}
+  )`;
+  return `  Write-Host ">> 🔍 PHASE ${phase}: VERIFICATION"
+  $SourceDuration = ConvertTo-Number (ffprobe -v error -show_entries format=duration -of csv=p=0 $InputFile)
+  $SourceChapters = @(ffprobe -v error -show_entries chapter=id -of csv=p=0 $InputFile).Count
+${files}
+  $Failed = @($Checked | Where-Object { $_.problems.Count -gt 0 }).Count
+  [ordered]@{
+    passed = ($Failed -eq 0)
+    targets = [ordered]@{ I = ${target}; I_tolerance = ${loudness}; TP_max = ${peak}; noise_floor_max = ${noise}; duration_tolerance = ${duration} }
+    source = [ordered]@{ file = $InputFile; duration = $SourceDuration; chapters = $SourceChapters }
+    files = $Checked
+  } | ConvertTo-Json -Depth 4 | Set-Content -LiteralPath $QcReport -Encoding UTF8
+  if ($Failed -gt 0) { throw "$Failed file(s) failed verification, see $QcReport" }
+  Write-Host "   ...all checks passed"`;
+};
+
+const generatePowerShellScript = (
+  config: AudioConfig,
+  inputFile: string,
+  mode: ScriptMode,
+  outputFilePath?: string,
+  options: ScriptOptions = {}
+): string => {
+  const safeInput = quotePowerShellPath(inputFile);
+
+  if (mode === 'test-10s' || mode === 'test-45s') {
+    const duration = getPreviewDuration(mode);
+    const safeOutput = quotePowerShellPath(outputFilePath || `preview-${duration}s.${OUTPUT_FORMAT_SPECS[config.outputFormat].extension}`);
+    const starts = options.previewStarts?.length ? options.previewStarts : [PREVIEW_SEEK_SECONDS];
+    const inputs = starts.length === 1
+      ? `-ss ${formatTimestamp(starts[0])} -i ${safeInput} -t ${duration}`
+      : starts.map(start => `-ss ${formatTimestamp(start)} -t ${getExcerptSeconds(mode, starts.length)} -i ${safeInput}`).join(' `\n');
+    return `$Graph = ${powerShellFilterGraph(buildFilterGraph(config), starts.length)}
+ffmpeg -nostdin ${inputs} \`
+-filter_complex $Graph -map '[out]' -vn ${getEncoderArgs(config.outputFormat, config).join(' ')} ${safeOutput} -y`;
+  }
+
+  const split = mode === 'split-chapters';
+  const perChapter = !!options.perChapterLoudness;
+  const verify = !!options.verify;
+  const formats = getOutputFormats(config);
+  const multiFormat = !split && formats.length > 1;
+  const title = split ? 'Split Per Chapter' : perChapter ? 'Per-Chapter Loudness' : 'FLAC Workflow';
+  const safeOutput = quotePowerShellPath(outputFilePath || (split ? "processed_audiobook" : `processed_audiobook.${OUTPUT_FORMAT_SPECS[config.outputFormat].extension}`));
+  const master: MasterTarget = split || multiFormat
+    ? { file: '$MasterFlac', codecArgs: '-c:a flac' }
+    : { file: '$OutputFile', codecArgs: getEncoderArgs(config.outputFormat, config).join(' ') };
+  const extraOutputs = multiFormat ? formats.slice(1) : [];
+
+  const vars = [
+    `$InputFile = ${safeInput}`,
+    split ? `$OutputPrefix = ${safeOutput}` : `$OutputFile = ${safeOutput}`,
+    ...extraOutputs.map(format => `$${powerShellOutputVar(format, config)} = [IO.Path]::ChangeExtension($OutputFile, '.${OUTPUT_FORMAT_SPECS[format].extension}')`),
+    split ? '$Sidecar = "${OutputPrefix}_loudnorm.json"' : "$Sidecar = [IO.Path]::ChangeExtension($OutputFile, '.loudnorm.json')",
+    ...(verify ? [split ? '$QcReport = "${OutputPrefix}_qc.json"' : "$QcReport = [IO.Path]::ChangeExtension($OutputFile, '.qc.json')"] : []),
+    '$Stamp = [DateTimeOffset]::UtcNow.ToUnixTimeSeconds()',
+    '$TempFlac = Join-Path $env:TEMP "temp_analysis_$Stamp.flac"',
+    ...(perChapter ? ['$WorkDir = Join-Path $env:TEMP "chapters_$Stamp"', 'New-Item -ItemType Directory -Path $WorkDir -Force | Out-Null'] : []),
+    ...(split || multiFormat ? ['$MasterFlac = Join-Path $env:TEMP "master_$Stamp.flac"'] : []),
+  ];
+  const temporaries = ['$TempFlac', ...(perChapter ? ['$WorkDir'] : []), ...(split || multiFormat ? ['$MasterFlac'] : [])];
+  const body = perChapter ? powerShellPerChapter(config, master) : powerShellWholeFile(config, master);
+  const deliveryPhase = perChapter ? 4 : 3;
+  const verifyPhase = split || multiFormat ? deliveryPhase + 1 : deliveryPhase;
+  const delivered = split ? '${OutputPrefix}_*.mp3' : formats.map(format => `$${powerShellOutputVar(format, config)}`).join(', ');
+
+  return `# VOICE ENHANCEMENT STUDIO - AUDIOBOOK MASTERING SCRIPT (${title}, PowerShell)
+# Run with: powershell -ExecutionPolicy Bypass -File <this script>
+
+${POWERSHELL_HELPERS}
+${verify ? `\n${powerShellVerificationHelpers(config)}\n` : ''}
+${vars.join('\n')}
+
+try {
+${body}
+${split ? `\n${powerShellSplit(config, options, deliveryPhase)}\n` : ''}${multiFormat ? `\n${powerShellEncoding(config, deliveryPhase)}\n` : ''}${verify ? `\n${powerShellVerification(config, split, verifyPhase)}\n` : ''}} finally {
+  # Cleanup, also after a failed step
+  Remove-Item -LiteralPath ${temporaries.join(', ')} -Recurse -Force -ErrorAction SilentlyContinue
+}
+Write-Host ">> 📈 MEASUREMENT: $Sidecar"${verify ? '\nWrite-Host ">> 🔍 QC REPORT: $QcReport"' : ''}
+Write-Host ">> ✅ PROCESSING COMPLETE: ${delivered}"
+`;
+};
+
+// --- FFMPEG GENERATOR ---
+
+export interface MasteringSteps {
+  title: string;  // Workflow name for the script header
+  script: string; // Everything after the header, from variables to cleanup
+}
+
+// The body of a full or split export, shared by the single-file and batch scripts
+export const generateMasteringSteps = (
+  config: AudioConfig,
+  inputPath: string,
+  mode: 'full' | 'split-chapters',
+  outputFilePath?: string,
+  options: ScriptOptions = {}
+): MasteringSteps => {
+  const safeInput = quoteBashPath(inputPath || "input.m4b");
+  const split = mode === 'split-chapters';
+  const perChapter = !!options.perChapterLoudness;
+  const verify = !!options.verify;
+  const formats = getOutputFormats(config);
+  const multiFormat = !split && formats.length > 1;
+  const safeOutput = quoteBashPath(outputFilePath || (split ? "processed_audiobook" : `processed_audiobook.${OUTPUT_FORMAT_SPECS[config.outputFormat].extension}`));
+
+  // Split and multi-format exports process into a lossless master first, then encode from it
+  const master: MasterTarget = split || multiFormat
+    ? { file: '"$MASTER_FLAC"', codecArgs: '-c:a flac' }
+    : { file: '"$OUTPUT"', codecArgs: getEncoderArgs(config.outputFormat, config).join(' ') };
+  const extraOutputs = multiFormat ? formats.slice(1) : [];
+
+  const title = split ? 'Split Per Chapter' : perChapter ? 'Per-Chapter Loudness' : 'FLAC Workflow';
+  const vars = [
+    `INPUT=${safeInput}`,
+    split ? `OUTPUT_PREFIX=${safeOutput}` : `OUTPUT=${safeOutput}`,
+    ...extraOutputs.map(format => `${outputVar(format, config)}="\${OUTPUT%.*}.${OUTPUT_FORMAT_SPECS[format].extension}"`),
+    // Measured loudness goes next to the output
+    split ? 'SIDECAR="${OUTPUT_PREFIX}_loudnorm.json"' : 'SIDECAR="${OUTPUT%.*}.loudnorm.json"',
+    ...(verify ? [split ? 'QC_REPORT="${OUTPUT_PREFIX}_qc.json"' : 'QC_REPORT="${OUTPUT%.*}.qc.json"'] : []),
+    'STAMP=$(date +%s)',
+    'TEMP_FLAC="/tmp/temp_analysis_$STAMP.flac"',
+    ...(perChapter ? ['WORK_DIR="/tmp/chapters_$STAMP"', 'mkdir -p "$WORK_DIR"'] : []),
+    ...(split || multiFormat ? ['MASTER_FLAC="/tmp/master_$STAMP.flac"'] : []),
+  ];
+  const temporaries = ['"$TEMP_FLAC"', ...(perChapter ? ['"$WORK_DIR"'] : []), ...(split || multiFormat ? ['"$MASTER_FLAC"'] : [])];
+
+  const body = perChapter
+    ? perChapterSections(config, master)
+    : wholeFileSections(config, master);
+  // Phases after processing are numbered on from the body's last one
+  const deliveryPhase = perChapter ? 4 : 3;
+  const verifyPhase = split || multiFormat ? deliveryPhase + 1 : deliveryPhase;
+  const delivered = split ? '${OUTPUT_PREFIX}_*.mp3' : formats.map(format => `$${outputVar(format, config)}`).join(', ');
+
+  return {
+    title,
+    script: `# Any failed step stops the run
+set -euo pipefail
+
+${measurementHelpers(config)}
+${verify ? `\n${verificationHelpers(config)}\n` : ''}
+${vars.join('\n')}
+
+# Temporary files go on every exit: success, failure or Ctrl+C
+cleanup() {
+  rm -rf ${temporaries.join(' ')}
+}
+trap cleanup EXIT
+trap 'exit 130' INT TERM
+
+${body}
+${split ? splitSection(config, options, deliveryPhase) : ''}${multiFormat ? encodingSection(config, deliveryPhase) : ''}${verify ? `\n${verificationSection(config, split, verifyPhase)}` : ''}
+echo ">> 📈 MEASUREMENT: $SIDECAR"${verify ? '\necho ">> 🔍 QC REPORT: $QC_REPORT"' : ''}
+echo ">> ✅ PROCESSING COMPLETE: ${delivered}"
+`,
+  };
+};
+
+export const generateFFmpegCommand = (
+  config: AudioConfig,
+  inputPath: string,
+  mode: ScriptMode,
+  outputFilePath?: string,
+  options: ScriptOptions = {}
+): string => {
+  const inputFile = inputPath || "input.m4b";
+  if (options.target === 'powershell') return generatePowerShellScript(config, inputFile, mode, outputFilePath, options);
+  const safeInput = quoteBashPath(inputFile);
+  
+  if (mode === 'full' || mode === 'split-chapters') {
+    const { title, script } = generateMasteringSteps(config, inputFile, mode, outputFilePath, options);
+
+    return `#!/bin/bash
+# VOICE ENHANCEMENT STUDIO - AUDIOBOOK MASTERING SCRIPT (${title})
+
+${script}`;
   } else {
     // PREVIEW MODE
     // Use dynamic loudness, single pass, operate on input file directly
-    const duration = mode === 'test-45s' ? 45 : 10;
-    const suffix = mode === 'test-45s' ? '-preview-45s.m4b' : '-preview-10s.m4b';
-    const outputName = outputFilePath || `preview${suffix}`;
-    const safeOutput = resolveShellPath(outputName);
+    const duration = getPreviewDuration(mode);
+    const outputName = outputFilePath || `preview-${duration}s.${OUTPUT_FORMAT_SPECS[config.outputFormat].extension}`;
+    const safeOutput = quoteBashPath(outputName);
+    const encoderArgs = getEncoderArgs(config.outputFormat, config).join(' ');
+
+    const starts = options.previewStarts?.length ? options.previewStarts : [PREVIEW_SEEK_SECONDS];
+    if (starts.length === 1) {
+      return `ffmpeg -nostdin -ss ${formatTimestamp(starts[0])} -i ${safeInput} -t ${duration} \\
+-filter_complex ${shellFilterGraph(buildFilterGraph(config))} \\
+-map "[out]" -vn ${encoderArgs} ${safeOutput}`;
+    }
 
-    return `ffmpeg -nostdin -ss 00:05:00 -i "${safeInput}" -t ${duration} \\
+    // Excerpts from across the book, joined into one clip
+    const excerpt = getExcerptSeconds(mode, starts.length);
+    const inputs = starts.map(start => `-ss ${formatTimestamp(start)} -t ${excerpt} -i ${safeInput}`).join(' \\\n');
+    return `ffmpeg -nostdin ${inputs} \\
 -filter_complex "\\
-[0:a]aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo,\\
-${highpass},${afftdn},${lowpass},${click},${deesser},${compressor},\\
-loudnorm=I=${config.loudnormTarget}:TP=${config.loudnormTp}:LRA=${config.loudnormLra},\\
-${limiter},aformat=channel_layouts=mono" \\
--vn -c:a aac -b:a ${config.bitrate}k "${safeOutput}"`;
+${joinedGraphToFFmpeg(buildFilterGraph(config), starts.length, SHELL_GRAPH_SEPARATOR)}" \\
+-map "[out]" -vn ${encoderArgs} ${safeOutput}`;
   }
 };
 
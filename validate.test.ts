@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from './types';
+import { validateConfig } from './validate';
+import { importPresetLibrary, PRESET_FILE_FORMAT, PRESET_FILE_VERSION } from './presets';
+
+describe('validateConfig', () => {
+  it('accepts a complete config', () => {
+    expect(validateConfig(DEFAULT_CONFIG)).toEqual({ config: DEFAULT_CONFIG, errors: [] });
+  });
+
+  it('reports values outside their range or list', () => {
+    expect(validateConfig({ highpassFreq: 500, outputFormat: 'ogg', lowpassFreq: 9000 })).toEqual({
+      config: { lowpassFreq: 9000 },
+      errors: ['highpassFreq: 500 is outside 20..200', 'outputFormat: must be one of aac, mp3, opus, flac, wav'],
+    });
+  });
+
+  it('treats keys inherited from Object.prototype as unknown settings', () => {
+    const { config, errors } = validateConfig(JSON.parse('{"toString": 5, "constructor": 1, "valueOf": 3, "hasOwnProperty": 2, "__proto__": {"highpassFreq": 90}}'));
+    expect(config).toEqual({});
+    expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+    expect(errors).toEqual([
+      'toString: unknown setting',
+      'constructor: unknown setting',
+      'valueOf: unknown setting',
+      'hasOwnProperty: unknown setting',
+      '__proto__: unknown setting',
+    ]);
+  });
+});
+
+describe('importPresetLibrary', () => {
+  const library = (config: string) =>
+    `{"format": "${PRESET_FILE_FORMAT}", "version": ${PRESET_FILE_VERSION}, "presets": [{"name": "Odd", "config": ${config}}]}`;
+
+  it('rejects a preset with a prototype-named setting', () => {
+    expect(importPresetLibrary(library('{"toString": 1}'))).toEqual({ presets: [], errors: ['"Odd": toString: unknown setting'] });
+    expect(importPresetLibrary(library('{"__proto__": {"toString": 1}}'))).toEqual({ presets: [], errors: ['"Odd": __proto__: unknown setting'] });
+  });
+
+  it('imports a preset whose settings all validate', () => {
+    const { presets, errors } = importPresetLibrary(library('{"highpassFreq": 90}'));
+    expect(errors).toEqual([]);
+    expect(presets.map(p => p.config)).toEqual([{ highpassFreq: 90 }]);
+    expect(String({ ...DEFAULT_CONFIG, ...presets[0].config })).toBe('[object Object]');
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  AudioConfig, EqBand, EqBandType, OutputFormat, StageId, RANGES, EQ_RANGES, MAX_EQ_BANDS, DEFAULT_STAGE_ORDER,
+  OUTPUT_FORMATS, BITRATE_MODES, CHANNEL_LAYOUTS, SAMPLE_RATES, BIT_DEPTHS,
+} from './types';
+
+// --- CONFIG VALIDATION ---
+// Settings from outside the app (preset files, saved sessions) are checked against the
+// same ranges the sliders enforce. Bad fields are reported and dropped, never clamped.
+
+type NumericKey = keyof typeof RANGES | 'loudnormLra';
+
+const NUMERIC_LIMITS: Record<NumericKey, { min: number; max: number }> = {
+  ...RANGES,
+  loudnormLra: { min: 1, max: 50 }, // ffmpeg loudnorm's LRA bounds; no slider
+};
+
+const EQ_BAND_TYPES: EqBandType[] = ['peaking', 'lowshelf', 'highshelf', 'notch'];
+
+// Settings picked from a fixed list
+type ChoiceKey = 'outputFormat' | 'bitrateMode' | 'sampleRate' | 'bitDepth' | 'channels';
+
+const CHOICES: Record<ChoiceKey, readonly (string | number)[]> = {
+  outputFormat: OUTPUT_FORMATS,
+  bitrateMode: BITRATE_MODES,
+  sampleRate: SAMPLE_RATES,
+  bitDepth: BIT_DEPTHS,
+  channels: CHANNEL_LAYOUTS,
+};
+
+export interface ConfigValidation {
+  config: Partial<AudioConfig>; // Only the fields that passed
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (value: unknown, min: number, max: number): string | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+  if (value < min || value > max) return `${value} is outside ${min}..${max}`;
+  return null;
+};
+
+const checkEqBand = (band: unknown, index: number): string[] => {
+  if (!isRecord(band)) return [`eqBands[${index}]: must be an object`];
+  const errors: string[] = [];
+  if (!EQ_BAND_TYPES.includes(band.type as EqBandType)) errors.push(`eqBands[${index}].type: unknown band type "${band.type}"`);
+  (['freq', 'gain', 'q'] as (keyof typeof EQ_RANGES)[]).forEach(key => {
+    const error = checkNumber(band[key], EQ_RANGES[key].min, EQ_RANGES[key].max);
+    if (error) errors.push(`eqBands[${index}].${key}: ${error}`);
+  });
+  return errors;
+};
+
+const checkFormatList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return ['extraFormats: must be a list of formats'];
+  const unknown = value.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+  if (unknown.length > 0) return [`extraFormats: unknown format(s) ${unknown.join(', ')}`];
+  return [];
+};
+
+const checkStageList = (value: unknown, key: string, complete: boolean): string[] => {
+  if (!Array.isArray(value)) return [`${key}: must be a list of stages`];
+  const unknown = value.filter(id => !DEFAULT_STAGE_ORDER.includes(id as StageId));
+  if (unknown.length > 0) return [`${key}: unknown stage(s) ${unknown.join(', ')}`];
+  if (new Set(value).size !== value.length) return [`${key}: stages are listed more than once`];
+  // The preview walks stageOrder, so a partial order would silently drop stages
+  if (complete && value.length !== DEFAULT_STAGE_ORDER.length) return [`${key}: must list every stage`];
+  return [];
+};
+
+export const validateConfig = (input: unknown): ConfigValidation => {
+  if (!isRecord(input)) return { config: {}, errors: ['settings must be an object'] };
+  const config: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  Object.entries(input).forEach(([key, value]) => {
+    let fieldErrors: string[];
+    if (Object.hasOwn(NUMERIC_LIMITS, key)) {
+      const { min, max } = NUMERIC_LIMITS[key as NumericKey];
+      const error = checkNumber(value, min, max);
+      fieldErrors = error ? [`${key}: ${error}`] : [];
+    } else if (Object.hasOwn(CHOICES, key)) {
+      const choices = CHOICES[key as ChoiceKey];
+      fieldErrors = choices.includes(value as string | number) ? [] : [`${key}: must be one of ${choices.join(', ')}`];
+    } else if (key === 'extraFormats') {
+      fieldErrors = checkFormatList(value);
+    } else if (key === 'eqBands') {
+      fieldErrors = !Array.isArray(value) ? ['eqBands: must be a list']
+        : value.length > MAX_EQ_BANDS ? [`eqBands: at most ${MAX_EQ_BANDS} bands`]
+        : value.flatMap(checkEqBand);
+    } else if (key === 'stageOrder' || key === 'bypassedStages') {
+      fieldErrors = checkStageList(value, key, key === 'stageOrder');
+    } else {
+      fieldErrors = [`${key}: unknown setting`];
+    }
+
+    if (fieldErrors.length > 0) errors.push(...fieldErrors);
+    else config[key] = key === 'eqBands' ? (value as EqBand[]).map(b => ({ type: b.type, freq: b.freq, gain: b.gain, q: b.q })) : value;
+  });
+
+  return { config: config as Partial<AudioConfig>, errors };
+};
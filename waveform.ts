@@ -0,0 +1,81 @@
+// --- SOURCE VIEWER ---
+// Waveform overview and spectrogram of the whole source. Decoded blocks from the full
+// scan are downmixed here and handed to a worker, which keeps a compact summary (peaks
+// and spectrogram columns at fixed rates) and draws both views on OffscreenCanvases.
+
+export interface ViewerOverlays {
+  highpassFreq: number;
+  lowpassFreq: number;
+  deesserFreq: number;
+}
+
+export interface ViewerView {
+  from: number;      // Seconds
+  to: number;
+  width: number;     // Device pixels
+  waveHeight: number;
+  spectrogramHeight: number;
+  overlays: ViewerOverlays;
+  silenceDb: number; // Quieter stretches of MIN_SILENCE_SECONDS or more are shaded
+  seek: number;      // Seconds; drawn as a marker
+}
+
+export type ViewerMessage =
+  | { type: 'reset'; sampleRate: number }
+  | { type: 'samples'; mono: Float32Array }
+  | { type: 'attach'; wave: OffscreenCanvas; spectrogram: OffscreenCanvas }
+  | { type: 'view'; view: ViewerView };
+
+export interface ViewerStatus {
+  seconds: number;  // Audio summarised so far
+  clipped: number;  // Clipping regions found
+}
+
+export interface WaveformViewer {
+  reset: (sampleRate: number) => void;
+  push: (channels: Float32Array[]) => void;
+  attach: (wave: HTMLCanvasElement, spectrogram: HTMLCanvasElement) => void;
+  render: (view: ViewerView) => void;
+  dispose: () => void;
+}
+
+export const MIN_SILENCE_SECONDS = 2;
+export const MIN_VIEW_SECONDS = 10;
+export const SPECTROGRAM_MIN_FREQ = 40;
+
+export const canUseViewer = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+  && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+export const createWaveformViewer = (onStatus: (status: ViewerStatus) => void): WaveformViewer => {
+  const worker = new Worker(new URL('./waveform.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ViewerStatus>) => onStatus(e.data);
+  const post = (message: ViewerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  // A canvas hands over control once; StrictMode re-runs effects on the same element
+  const attached = new WeakSet<HTMLCanvasElement>();
+
+  const push = (channels: Float32Array[]) => {
+    const length = channels[0]?.length ?? 0;
+    const mono = new Float32Array(length);
+    channels.forEach(data => {
+      for (let i = 0; i < length; i++) mono[i] += data[i] / channels.length;
+    });
+    post({ type: 'samples', mono }, [mono.buffer]);
+  };
+
+  const attach = (wave: HTMLCanvasElement, spectrogram: HTMLCanvasElement) => {
+    if (attached.has(wave) || attached.has(spectrogram)) return;
+    attached.add(wave);
+    attached.add(spectrogram);
+    const waveCanvas = wave.transferControlToOffscreen();
+    const spectrogramCanvas = spectrogram.transferControlToOffscreen();
+    post({ type: 'attach', wave: waveCanvas, spectrogram: spectrogramCanvas }, [waveCanvas, spectrogramCanvas]);
+  };
+
+  return {
+    reset: sampleRate => post({ type: 'reset', sampleRate }),
+    push,
+    attach,
+    render: view => post({ type: 'view', view }),
+    dispose: () => worker.terminate(),
+  };
+};
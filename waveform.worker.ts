@@ -0,0 +1,327 @@
+import { fft } from './spectrum';
+import { MIN_SILENCE_SECONDS, SPECTROGRAM_MIN_FREQ, ViewerMessage, ViewerStatus, ViewerView } from './waveform';
+
+// --- SOURCE VIEWER WORKER ---
+// Summaries grow with the source at fixed rates (about 6 MB per hour in total), so a
+// multi-hour book can be redrawn at any zoom without touching the audio again.
+
+const PEAK_RATE = 25;        // Waveform buckets per second
+const SPEC_RATE = 4;         // Spectrogram columns per second
+const SPEC_FFT = 1024;
+const SPEC_ROWS = 96;        // Log-spaced frequency rows
+const SPEC_FLOOR = -100;     // dB mapped to the bottom of the colour scale
+const CLIP_LEVEL = 0.999;
+const RENDER_DELAY = 250;    // ms; redraws are coalesced while a scan streams in
+
+// Growable typed array
+const grow = <T extends Float32Array | Uint8Array>(array: T, needed: number, make: (n: number) => T): T => {
+  if (needed <= array.length) return array;
+  const next = make(Math.max(needed, array.length * 2));
+  next.set(array);
+  return next;
+};
+
+let sampleRate = 44100;
+let samplesPerBucket = 1764;
+let buckets = 0;
+let peakMin = new Float32Array(0);
+let peakMax = new Float32Array(0);
+let peakRms = new Float32Array(0);   // dB
+let peakClip = new Uint8Array(0);
+let bucketMin = Infinity;
+let bucketMax = -Infinity;
+let bucketSquares = 0;
+let bucketFill = 0;
+let bucketClip = 0;
+let clipRegions = 0;
+
+let hop = 11025;
+let columns = 0;
+let spec = new Uint8Array(0);       // columns * SPEC_ROWS, 0..255
+const ring = new Float32Array(SPEC_FFT);
+let ringPos = 0;
+let sinceColumn = 0;
+const hann = Float32Array.from({ length: SPEC_FFT }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (SPEC_FFT - 1)));
+const re = new Float64Array(SPEC_FFT);
+const im = new Float64Array(SPEC_FFT);
+let rowBins: [number, number][] = [];
+
+let waveCanvas: OffscreenCanvas | null = null;
+let specCanvas: OffscreenCanvas | null = null;
+let view: ViewerView | null = null;
+let renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+const nyquist = () => sampleRate / 2;
+const freqToRow = (freq: number) => Math.log(freq / SPECTROGRAM_MIN_FREQ) / Math.log(nyquist() / SPECTROGRAM_MIN_FREQ) * SPEC_ROWS;
+
+const reset = (rate: number) => {
+  sampleRate = rate;
+  samplesPerBucket = Math.max(1, Math.round(rate / PEAK_RATE));
+  hop = Math.max(1, Math.round(rate / SPEC_RATE));
+  buckets = 0;
+  columns = 0;
+  peakMin = new Float32Array(0);
+  peakMax = new Float32Array(0);
+  peakRms = new Float32Array(0);
+  peakClip = new Uint8Array(0);
+  spec = new Uint8Array(0);
+  bucketMin = Infinity;
+  bucketMax = -Infinity;
+  bucketSquares = 0;
+  bucketFill = 0;
+  bucketClip = 0;
+  clipRegions = 0;
+  ring.fill(0);
+  ringPos = 0;
+  sinceColumn = 0;
+  const binHz = rate / SPEC_FFT;
+  rowBins = Array.from({ length: SPEC_ROWS }, (_, r) => {
+    const lo = SPECTROGRAM_MIN_FREQ * Math.pow(nyquist() / SPECTROGRAM_MIN_FREQ, r / SPEC_ROWS);
+    const hi = SPECTROGRAM_MIN_FREQ * Math.pow(nyquist() / SPECTROGRAM_MIN_FREQ, (r + 1) / SPEC_ROWS);
+    const from = Math.max(1, Math.round(lo / binHz));
+    return [from, Math.max(from, Math.min(SPEC_FFT / 2, Math.round(hi / binHz)))];
+  });
+};
+
+const closeBucket = () => {
+  const grown = buckets + 1;
+  peakMin = grow(peakMin, grown, n => new Float32Array(n));
+  peakMax = grow(peakMax, grown, n => new Float32Array(n));
+  peakRms = grow(peakRms, grown, n => new Float32Array(n));
+  peakClip = grow(peakClip, grown, n => new Uint8Array(n));
+  peakMin[buckets] = bucketMin;
+  peakMax[buckets] = bucketMax;
+  peakRms[buckets] = 10 * Math.log10(bucketSquares / bucketFill + 1e-12);
+  peakClip[buckets] = bucketClip > 0 ? 1 : 0;
+  if (peakClip[buckets] && (buckets === 0 || !peakClip[buckets - 1])) clipRegions++;
+  buckets = grown;
+  bucketMin = Infinity;
+  bucketMax = -Infinity;
+  bucketSquares = 0;
+  bucketFill = 0;
+  bucketClip = 0;
+};
+
+// Power spectrum of the last SPEC_FFT samples, reduced to one byte per row
+const closeColumn = () => {
+  for (let i = 0; i < SPEC_FFT; i++) {
+    re[i] = ring[(ringPos + i) % SPEC_FFT] * hann[i];
+    im[i] = 0;
+  }
+  fft(re, im);
+  spec = grow(spec, (columns + 1) * SPEC_ROWS, n => new Uint8Array(n));
+  const base = columns * SPEC_ROWS;
+  rowBins.forEach(([from, to], r) => {
+    let power = 0;
+    for (let k = from; k <= to; k++) power = Math.max(power, re[k] * re[k] + im[k] * im[k]);
+    const db = 10 * Math.log10(power / (SPEC_FFT * SPEC_FFT / 4) + 1e-20);
+    spec[base + r] = Math.round(Math.max(0, Math.min(1, (db - SPEC_FLOOR) / -SPEC_FLOOR)) * 255);
+  });
+  columns++;
+};
+
+const addSamples = (mono: Float32Array) => {
+  for (let i = 0; i < mono.length; i++) {
+    const v = mono[i];
+    if (v < bucketMin) bucketMin = v;
+    if (v > bucketMax) bucketMax = v;
+    bucketSquares += v * v;
+    if (v >= CLIP_LEVEL || v <= -CLIP_LEVEL) bucketClip++;
+    if (++bucketFill === samplesPerBucket) closeBucket();
+
+    ring[ringPos] = v;
+    ringPos = (ringPos + 1) % SPEC_FFT;
+    if (++sinceColumn === hop) {
+      sinceColumn = 0;
+      closeColumn();
+    }
+  }
+};
+
+// Runs of flagged buckets as [first, last] pairs
+const findRuns = (from: number, to: number, test: (b: number) => boolean, minLength: number): [number, number][] => {
+  const runs: [number, number][] = [];
+  let start = -1;
+  for (let b = from; b <= to; b++) {
+    const hit = b < to && test(b);
+    if (hit && start < 0) start = b;
+    if (!hit && start >= 0) {
+      if (b - start >= minLength) runs.push([start, b - 1]);
+      start = -1;
+    }
+  }
+  return runs;
+};
+
+const fmtTime = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return [Math.floor(s / 3600), Math.floor(s / 60) % 60, s % 60].map(v => String(v).padStart(2, '0')).join(':');
+};
+
+const fitCanvas = (canvas: OffscreenCanvas, width: number, height: number) => {
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  return canvas.getContext('2d');
+};
+
+const drawWave = (v: ViewerView) => {
+  const ctx = waveCanvas && fitCanvas(waveCanvas, v.width, v.waveHeight);
+  if (!ctx) return;
+  const { width: w, waveHeight: h } = v;
+  const span = v.to - v.from;
+  const toX = (seconds: number) => (seconds - v.from) / span * w;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, w, h);
+
+  const first = Math.max(0, Math.floor(v.from * PEAK_RATE));
+  const last = Math.min(buckets, Math.ceil(v.to * PEAK_RATE));
+
+  // Silences behind the trace
+  ctx.fillStyle = 'rgba(34, 211, 238, 0.12)';
+  findRuns(first, last, b => peakRms[b] < v.silenceDb, MIN_SILENCE_SECONDS * PEAK_RATE).forEach(([a, b]) => {
+    ctx.fillRect(toX(a / PEAK_RATE), 0, Math.max(1, toX((b + 1) / PEAK_RATE) - toX(a / PEAK_RATE)), h);
+  });
+
+  ctx.strokeStyle = '#00ff41';
+  ctx.beginPath();
+  for (let x = 0; x < w; x++) {
+    const b0 = Math.floor((v.from + x / w * span) * PEAK_RATE);
+    const b1 = Math.max(b0 + 1, Math.floor((v.from + (x + 1) / w * span) * PEAK_RATE));
+    if (b0 >= buckets) break;
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (let b = Math.max(0, b0); b < Math.min(b1, buckets); b++) {
+      lo = Math.min(lo, peakMin[b]);
+      hi = Math.max(hi, peakMax[b]);
+    }
+    if (lo > hi) continue;
+    ctx.moveTo(x + 0.5, h / 2 - hi * h / 2);
+    ctx.lineTo(x + 0.5, h / 2 - lo * h / 2 + 1);
+  }
+  ctx.stroke();
+
+  // Clipping on top, at least 2px wide so single buckets stay visible
+  ctx.fillStyle = 'rgba(244, 63, 94, 0.9)';
+  findRuns(first, last, b => peakClip[b] === 1, 1).forEach(([a, b]) => {
+    const x = toX(a / PEAK_RATE);
+    const width = Math.max(2, toX((b + 1) / PEAK_RATE) - x);
+    ctx.fillRect(x, 0, width, 4);
+    ctx.fillRect(x, h - 4, width, 4);
+  });
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = `${Math.round(h / 10)}px monospace`;
+  ctx.textBaseline = 'bottom';
+  ctx.textAlign = 'left';
+  ctx.fillText(fmtTime(v.from), 4, h - 6);
+  ctx.textAlign = 'right';
+  ctx.fillText(fmtTime(v.to), w - 4, h - 6);
+  drawSeek(ctx, toX(v.seek), h);
+};
+
+const drawSeek = (ctx: OffscreenCanvasRenderingContext2D, x: number, h: number) => {
+  if (x < 0 || x > ctx.canvas.width) return;
+  ctx.fillStyle = '#facc15';
+  ctx.fillRect(Math.round(x) - 1, 0, 2, h);
+};
+
+// Black -> purple -> orange -> yellow
+const heat = (t: number): [number, number, number] => {
+  if (t < 0.4) return [Math.round(t / 0.4 * 120), 0, Math.round(t / 0.4 * 140)];
+  if (t < 0.75) { const u = (t - 0.4) / 0.35; return [Math.round(120 + u * 135), Math.round(u * 110), Math.round(140 - u * 140)]; }
+  const u = (t - 0.75) / 0.25;
+  return [255, Math.round(110 + u * 145), Math.round(u * 120)];
+};
+const PALETTE = Array.from({ length: 256 }, (_, i) => heat(i / 255));
+
+const drawSpectrogram = (v: ViewerView) => {
+  const ctx = specCanvas && fitCanvas(specCanvas, v.width, v.spectrogramHeight);
+  if (!ctx) return;
+  const { width: w, spectrogramHeight: h } = v;
+  const span = v.to - v.from;
+  const image = ctx.createImageData(w, h);
+  const rowOf = Int32Array.from({ length: h }, (_, y) => Math.min(SPEC_ROWS - 1, Math.floor((h - 1 - y) / h * SPEC_ROWS)));
+
+  for (let x = 0; x < w; x++) {
+    const c0 = Math.floor((v.from + x / w * span) * SPEC_RATE);
+    const c1 = Math.max(c0 + 1, Math.floor((v.from + (x + 1) / w * span) * SPEC_RATE));
+    if (c0 >= columns || c0 < 0) continue;
+    for (let y = 0; y < h; y++) {
+      let level = 0;
+      for (let c = c0; c < Math.min(c1, columns); c++) level = Math.max(level, spec[c * SPEC_ROWS + rowOf[y]]);
+      const [r, g, b] = PALETTE[level];
+      const p = (y * w + x) * 4;
+      image.data[p] = r;
+      image.data[p + 1] = g;
+      image.data[p + 2] = b;
+      image.data[p + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+
+  // Chain settings as horizontal lines on the log frequency axis
+  const lines: [number, string, string][] = [
+    [v.overlays.highpassFreq, '#facc15', 'HPF'],
+    [v.overlays.deesserFreq, '#f43f5e', 'DE-ESS'],
+    [v.overlays.lowpassFreq, '#22d3ee', 'LPF'],
+  ];
+  ctx.font = `${Math.round(h / 14)}px monospace`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  lines.forEach(([freq, color, label]) => {
+    if (freq <= SPECTROGRAM_MIN_FREQ || freq >= nyquist()) return;
+    const y = Math.round(h - freqToRow(freq) / SPEC_ROWS * h);
+    ctx.strokeStyle = color;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, y + 0.5);
+    ctx.lineTo(w, y + 0.5);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.fillStyle = color;
+    ctx.fillText(`${label} ${freq >= 1000 ? `${freq / 1000}k` : freq}`, w - 4, y - 2);
+  });
+  drawSeek(ctx, (v.seek - v.from) / span * w, h);
+};
+
+const render = () => {
+  renderTimer = null;
+  if (!view) return;
+  drawWave(view);
+  drawSpectrogram(view);
+};
+
+const scheduleRender = () => {
+  if (!renderTimer) renderTimer = setTimeout(render, RENDER_DELAY);
+};
+
+const postStatus = () => {
+  const status: ViewerStatus = { seconds: buckets / PEAK_RATE, clipped: clipRegions };
+  self.postMessage(status);
+};
+
+self.onmessage = (e: MessageEvent<ViewerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'reset':
+      reset(message.sampleRate);
+      postStatus();
+      scheduleRender();
+      break;
+    case 'samples':
+      addSamples(message.mono);
+      postStatus();
+      scheduleRender();
+      break;
+    case 'attach':
+      waveCanvas = message.wave;
+      specCanvas = message.spectrogram;
+      scheduleRender();
+      break;
+    case 'view':
+      view = message.view;
+      if (renderTimer) clearTimeout(renderTimer);
+      render();
+      break;
+  }
+};